@@ -12,6 +12,9 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Vendor files copied into public/ by scripts/ on install
+    "public/ocr/**",
+    "public/pdf.worker.min.mjs",
   ]),
 ]);
 
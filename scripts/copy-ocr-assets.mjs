@@ -0,0 +1,38 @@
+// Copies the Tesseract worker, WASM cores and English language data into
+// public/ocr so scanned-PDF OCR runs entirely from our own origin.
+import { copyFileSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const target = join(root, 'public', 'ocr');
+
+const tesseractPackage = require.resolve('tesseract.js/package.json');
+const tesseractDir = dirname(tesseractPackage);
+// The core is tesseract.js's own dependency, so look for it from there - under pnpm or
+// another strict layout it isn't reachable from the project root
+const coreDir = dirname(createRequire(tesseractPackage).resolve('tesseract.js-core/package.json'));
+const langDir = dirname(require.resolve('@tesseract.js-data/eng/package.json'));
+
+const assets = [
+  [join(tesseractDir, 'dist', 'worker.min.js'), 'worker.min.js'],
+  // LSTM-only cores (we always run with OEM.LSTM_ONLY); the worker picks one by SIMD support
+  [join(coreDir, 'tesseract-core-lstm.wasm.js'), 'tesseract-core-lstm.wasm.js'],
+  [join(coreDir, 'tesseract-core-simd-lstm.wasm.js'), 'tesseract-core-simd-lstm.wasm.js'],
+  [join(coreDir, 'tesseract-core-relaxedsimd-lstm.wasm.js'), 'tesseract-core-relaxedsimd-lstm.wasm.js'],
+  [join(langDir, '4.0.0_best_int', 'eng.traineddata.gz'), 'eng.traineddata.gz'],
+];
+
+mkdirSync(target, { recursive: true });
+
+for (const [source, name] of assets) {
+  if (!existsSync(source)) {
+    console.error(`[copy-ocr-assets] Missing ${source} - run npm install first`);
+    process.exit(1);
+  }
+  copyFileSync(source, join(target, name));
+}
+
+console.log(`[copy-ocr-assets] Copied ${assets.length} OCR assets to public/ocr`);
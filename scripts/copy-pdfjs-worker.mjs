@@ -0,0 +1,28 @@
+// Copies the pdf.js worker into public/ so it is served from our own origin and
+// always matches the installed pdfjs-dist (pdf.js refuses to run a mismatched worker).
+import { copyFileSync, existsSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+const pdfjsDir = dirname(require.resolve('pdfjs-dist/package.json'));
+const { version } = JSON.parse(readFileSync(join(pdfjsDir, 'package.json'), 'utf8'));
+const source = join(pdfjsDir, 'build', 'pdf.worker.min.mjs');
+const target = join(root, 'public', 'pdf.worker.min.mjs');
+
+if (!existsSync(source)) {
+  console.error(`[copy-pdfjs-worker] Missing ${source} - run npm install first`);
+  process.exit(1);
+}
+
+copyFileSync(source, target);
+
+if (!readFileSync(target, 'utf8').includes(`"${version}"`)) {
+  console.error(`[copy-pdfjs-worker] public/pdf.worker.min.mjs does not report pdfjs-dist version ${version}`);
+  process.exit(1);
+}
+
+console.log(`[copy-pdfjs-worker] Copied pdf.js ${version} worker to public/pdf.worker.min.mjs`);
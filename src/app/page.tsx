@@ -1,52 +1,239 @@
 'use client';
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { toast } from 'sonner';
 import Link from 'next/link';
 import { Header } from '@/components/Header';
 import { Footer } from '@/components/Footer';
-import { ExcelDropzone } from '@/components/ExcelDropzone';
+import { ExcelDropzone, TABLE_FORMATS, type TableFormat } from '@/components/ExcelDropzone';
 import { ConversionProgress } from '@/components/ConversionProgress';
 import { SpreadsheetPreview } from '@/components/SpreadsheetPreview';
+import { BatchQueue } from '@/components/BatchQueue';
+import { PageSelector } from '@/components/PageSelector';
+import { RegionEditor } from '@/components/RegionEditor';
+import { TemplatePanel } from '@/components/TemplatePanel';
 import { Button } from '@/components/ui/button';
 import { usePdfConversion } from '@/hooks/usePdfConversion';
+import { useBatchConversion } from '@/hooks/useBatchConversion';
+import { useExtractionTemplates } from '@/hooks/useExtractionTemplates';
+import { findMatchingTemplate } from '@/lib/templates';
+import type { NumberLocale } from '@/lib/numberFormat';
+import type { ExtractionTemplate, PageRegion } from '@/lib/types';
 
 export default function Home() {
-  const { status, progress, currentStep, result, error, fileName, convert, download, reset } =
-    usePdfConversion();
+  const {
+    status,
+    progress,
+    currentStep,
+    result,
+    error,
+    fileName,
+    outputFormat,
+    passwordIncorrect,
+    convert,
+    submitPassword,
+    applyRegions,
+    applyTemplate,
+    openSourceSession,
+    cancel,
+    editResult,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    download,
+    reset,
+    typedExport,
+    setTypedExport,
+    numberLocale,
+    changeNumberLocale,
+  } = usePdfConversion();
+
+  const {
+    items: batchItems,
+    completedCount: batchCompletedCount,
+    failedCount: batchFailedCount,
+    isProcessing: isBatchProcessing,
+    isExporting: isBatchExporting,
+    addFiles: addBatchFiles,
+    retry: retryBatchItem,
+    remove: removeBatchItem,
+    clear: clearBatch,
+    downloadZip: downloadBatchZip,
+    downloadCombinedWorkbook: downloadBatchWorkbook,
+  } = useBatchConversion();
+
+  const { templates, saveTemplate, deleteTemplate, importFromFile, exportToFile } = useExtractionTemplates();
 
   const [showPreview, setShowPreview] = useState(false);
+  const [batchMode, setBatchMode] = useState(false);
+  // Dropped file waiting for its pages to be chosen
+  const [selectingFile, setSelectingFile] = useState<File | null>(null);
+  const [selectedFormat, setSelectedFormat] = useState<TableFormat>('excel');
+  const [editingRegions, setEditingRegions] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  // Template the current result was extracted with - not suggested again
+  const [appliedTemplateId, setAppliedTemplateId] = useState<string | null>(null);
+
+  // Latest values for the completion effect, which should only fire once per result
+  const templatesRef = useRef(templates);
+  const appliedTemplateIdRef = useRef(appliedTemplateId);
+  useEffect(() => {
+    templatesRef.current = templates;
+    appliedTemplateIdRef.current = appliedTemplateId;
+  }, [templates, appliedTemplateId]);
+
+  const suggestedTemplate = useMemo(
+    () => (result && status === 'complete' ? findMatchingTemplate(result, templates) : null),
+    [result, status, templates]
+  );
+
+  // Label of the format the current result downloads as
+  const formatLabel = TABLE_FORMATS.find(({ format }) => format === outputFormat) ?? TABLE_FORMATS[0];
+
+  const handleFileSelect = useCallback((file: File, format: TableFormat) => {
+    setSelectingFile(file);
+    setSelectedFormat(format);
+  }, []);
 
-  const handleFileSelect = useCallback(
-    (file: File) => {
-      toast.info(`Converting ${file.name} to Excel...`);
-      convert(file, 'auto', 'excel');
+  const handlePagesConfirm = useCallback(
+    (pages?: number[]) => {
+      if (!selectingFile) return;
+      const label = TABLE_FORMATS.find(({ format }) => format === selectedFormat)?.label;
+      toast.info(`Converting ${selectingFile.name} to ${label}...`);
+      convert(selectingFile, 'auto', selectedFormat, { pages });
+      setSelectingFile(null);
+      setAppliedTemplateId(null);
     },
-    [convert]
+    [convert, selectingFile, selectedFormat]
   );
 
+  const handlePagesCancel = useCallback(() => {
+    setSelectingFile(null);
+  }, []);
+
   const handleDownload = useCallback(async () => {
-    await download();
-    toast.success('Excel download started!');
-  }, [download]);
+    // A failed export shows its error through the error state instead
+    if (await download()) {
+      toast.success(`${formatLabel.label} download started!`);
+    }
+  }, [download, formatLabel]);
+
+  const handlePasswordSubmit = useCallback(
+    (password: string) => {
+      submitPassword(password);
+    },
+    [submitPassword]
+  );
+
+  const handleBatchFilesSelect = useCallback(
+    (files: File[]) => {
+      toast.info(`Added ${files.length} PDF${files.length !== 1 ? 's' : ''} to the queue`);
+      addBatchFiles(files);
+    },
+    [addBatchFiles]
+  );
+
+  const handleBatchDownloadZip = useCallback(async () => {
+    await downloadBatchZip({ typedCells: typedExport });
+    toast.success('ZIP download started!');
+  }, [downloadBatchZip, typedExport]);
+
+  const handleBatchDownloadWorkbook = useCallback(async () => {
+    await downloadBatchWorkbook({ typedCells: typedExport });
+    toast.success('Combined workbook download started!');
+  }, [downloadBatchWorkbook, typedExport]);
 
   const handleBackFromPreview = useCallback(() => {
     setShowPreview(false);
   }, []);
 
+  const handleEditRegions = useCallback(() => {
+    setEditingRegions(true);
+  }, []);
+
+  const handleRegionsApply = useCallback(
+    (regions: PageRegion[]) => {
+      setEditingRegions(false);
+      setShowPreview(false);
+      toast.info(`Extracting ${regions.length} table${regions.length !== 1 ? 's' : ''}...`);
+      applyRegions(regions);
+    },
+    [applyRegions]
+  );
+
+  const handleRegionsCancel = useCallback(() => {
+    setEditingRegions(false);
+  }, []);
+
+  const handleApplyTemplate = useCallback(
+    (template: ExtractionTemplate) => {
+      setShowTemplates(false);
+      setShowPreview(false);
+      setAppliedTemplateId(template.id);
+      toast.info(`Extracting with template "${template.name}"...`);
+      applyTemplate(template);
+    },
+    [applyTemplate]
+  );
+
+  const handleNumberLocaleChange = useCallback(
+    (locale: NumberLocale) => {
+      setShowPreview(false);
+      toast.info('Reading the tables again...');
+      changeNumberLocale(locale);
+    },
+    [changeNumberLocale]
+  );
+
+  const handleSaveTemplate = useCallback(
+    (template: ExtractionTemplate) => {
+      saveTemplate(template);
+      setAppliedTemplateId(template.id);
+      toast.success(`Saved template "${template.name}"`);
+    },
+    [saveTemplate]
+  );
+
+  const handleImportTemplates = useCallback(
+    async (file: File) => {
+      try {
+        const count = await importFromFile(file);
+        toast.success(`Imported ${count} template${count !== 1 ? 's' : ''}`);
+      } catch (importError) {
+        toast.error(importError instanceof Error ? importError.message : 'Could not import templates');
+      }
+    },
+    [importFromFile]
+  );
+
   const handleReset = useCallback(() => {
     setShowPreview(false);
+    setEditingRegions(false);
+    setShowTemplates(false);
+    setAppliedTemplateId(null);
     reset();
   }, [reset]);
 
+  const handleCancel = useCallback(() => {
+    cancel();
+    toast.info('Conversion cancelled');
+  }, [cancel]);
+
   useEffect(() => {
     if (error) {
       toast.error(error);
     }
   }, [error]);
 
+  const previousStatusRef = useRef(status);
   useEffect(() => {
-    if (status === 'complete' && result) {
+    const previousStatus = previousStatusRef.current;
+    previousStatusRef.current = status;
+    // Announce each finished conversion once - hand edits and downloads don't count
+    const isNewResult = previousStatus !== 'complete' && previousStatus !== 'generating';
+
+    if (status === 'complete' && result && isNewResult) {
       const tableCount = result.tables.length;
       if (result.mode === 'tables' && tableCount > 0) {
         toast.success(`Found ${tableCount} table${tableCount !== 1 ? 's' : ''} - Preview ready`);
@@ -54,12 +241,48 @@ export default function Home() {
       } else {
         toast.success('Content extracted - Ready to download');
       }
+
+      const match = findMatchingTemplate(result, templatesRef.current);
+      if (match && match.id !== appliedTemplateIdRef.current) {
+        toast.info(`This looks like "${match.name}"`, {
+          action: { label: 'Apply template', onClick: () => handleApplyTemplate(match) },
+        });
+      }
     }
-  }, [status, result]);
+  }, [status, result, handleApplyTemplate]);
 
   const isProcessing = ['reading', 'parsing', 'extracting', 'generating'].includes(status);
   const isComplete = status === 'complete' && result;
 
+  const templatePanel = showTemplates && isComplete && (
+    <TemplatePanel
+      result={result}
+      templates={templates}
+      suggestedTemplateId={suggestedTemplate?.id}
+      onApply={handleApplyTemplate}
+      onSave={handleSaveTemplate}
+      onDelete={deleteTemplate}
+      onImport={handleImportTemplates}
+      onExport={exportToFile}
+      onClose={() => setShowTemplates(false)}
+    />
+  );
+
+  // Full-screen region editor
+  if (editingRegions && isComplete) {
+    return (
+      <div className="h-screen w-screen overflow-hidden">
+        <RegionEditor
+          openSession={openSourceSession}
+          fileName={fileName}
+          initialRegions={result.tableRegions ?? []}
+          onApply={handleRegionsApply}
+          onCancel={handleRegionsCancel}
+        />
+      </div>
+    );
+  }
+
   // Full-screen preview mode
   if (showPreview && isComplete && result.tables.length > 0) {
     return (
@@ -67,8 +290,23 @@ export default function Home() {
         <SpreadsheetPreview
           result={result}
           onDownload={handleDownload}
+          downloadLabel={`Download ${formatLabel.label}`}
           onBack={handleBackFromPreview}
+          typedExport={typedExport}
+          onTypedExportChange={outputFormat === 'excel' ? setTypedExport : undefined}
+          numberLocale={numberLocale}
+          onNumberLocaleChange={handleNumberLocaleChange}
+          onEditRegions={handleEditRegions}
+          onOpenTemplates={() => setShowTemplates(true)}
+          templateSuggested={!!suggestedTemplate && suggestedTemplate.id !== appliedTemplateId}
+          onEdit={editResult}
+          onUndo={undo}
+          onRedo={redo}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          openSourceSession={openSourceSession}
         />
+        {templatePanel}
       </div>
     );
   }
@@ -115,8 +353,72 @@ export default function Home() {
           {/* Main Converter Card */}
           <div className="mx-auto max-w-2xl">
             <div className="bg-white dark:bg-[#1e293b] rounded-3xl shadow-soft dark:shadow-none border border-gray-100 dark:border-gray-800 p-6 md:p-8">
+              {/* Single / batch switch */}
+              {status === 'idle' && !selectingFile && (
+                <div className="mb-6 flex justify-center">
+                  <div className="inline-flex rounded-xl bg-gray-100 dark:bg-gray-800 p-1">
+                    {[
+                      { batch: false, label: 'Single PDF', icon: 'description' },
+                      { batch: true, label: 'Batch', icon: 'library_books' },
+                    ].map((option) => (
+                      <button
+                        key={option.label}
+                        type="button"
+                        onClick={() => setBatchMode(option.batch)}
+                        className={
+                          batchMode === option.batch
+                            ? 'flex items-center gap-1.5 rounded-lg bg-white dark:bg-gray-700 px-4 py-1.5 text-sm font-semibold text-green-700 dark:text-green-300 shadow-sm'
+                            : 'flex items-center gap-1.5 rounded-lg px-4 py-1.5 text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                        }
+                      >
+                        <span className="material-icons-round text-base">{option.icon}</span>
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Batch mode - queue of PDFs */}
+              {batchMode && status === 'idle' && (
+                <BatchQueue
+                  items={batchItems}
+                  completedCount={batchCompletedCount}
+                  failedCount={batchFailedCount}
+                  isProcessing={isBatchProcessing}
+                  isExporting={isBatchExporting}
+                  onFilesSelect={handleBatchFilesSelect}
+                  onRetry={retryBatchItem}
+                  onRemove={removeBatchItem}
+                  onClear={clearBatch}
+                  onDownloadZip={handleBatchDownloadZip}
+                  onDownloadCombined={handleBatchDownloadWorkbook}
+                />
+              )}
+
+              {/* Page selection for the dropped file */}
+              {!batchMode && status === 'idle' && selectingFile && (
+                <PageSelector
+                  file={selectingFile}
+                  onConfirm={handlePagesConfirm}
+                  onCancel={handlePagesCancel}
+                  theme="green"
+                />
+              )}
+
               {/* Idle State - Show Dropzone */}
-              {status === 'idle' && <ExcelDropzone onFileSelect={handleFileSelect} />}
+              {!batchMode && !selectingFile && (status === 'idle' || status === 'password-required') && (
+                <ExcelDropzone
+                  onFileSelect={handleFileSelect}
+                  passwordRequest={
+                    status === 'password-required' && fileName
+                      ? { fileName, incorrect: !!passwordIncorrect }
+                      : null
+                  }
+                  onPasswordSubmit={handlePasswordSubmit}
+                  onPasswordCancel={handleReset}
+                />
+              )}
 
               {/* Processing State - Show Progress */}
               {isProcessing && (
@@ -125,7 +427,8 @@ export default function Home() {
                   progress={progress}
                   currentStep={currentStep}
                   fileName={fileName}
-                  outputFormat="excel"
+                  outputFormat={outputFormat}
+                  onCancel={handleCancel}
                 />
               )}
 
@@ -143,13 +446,33 @@ export default function Home() {
                   </div>
 
                   <div className="flex flex-col gap-3 sm:flex-row sm:justify-center">
+                    <Button
+                      size="lg"
+                      variant="outline"
+                      onClick={handleEditRegions}
+                      className="gap-2 rounded-xl px-6 font-semibold border-gray-200 dark:border-gray-700"
+                    >
+                      <span className="material-icons-round text-xl">highlight_alt</span>
+                      Select Tables Manually
+                    </Button>
+                    {templates.length > 0 && (
+                      <Button
+                        size="lg"
+                        variant="outline"
+                        onClick={() => setShowTemplates(true)}
+                        className="gap-2 rounded-xl px-6 font-semibold border-gray-200 dark:border-gray-700"
+                      >
+                        <span className="material-icons-round text-xl">bookmarks</span>
+                        Use a Template
+                      </Button>
+                    )}
                     <Button
                       size="lg"
                       onClick={handleDownload}
                       className="gap-2 rounded-xl px-6 font-semibold bg-green-600 hover:bg-green-700 text-white"
                     >
                       <span className="material-icons-round text-xl">download</span>
-                      Download Excel (.xlsx)
+                      Download {formatLabel.label} ({formatLabel.ext})
                     </Button>
                     <Button
                       size="lg"
@@ -223,6 +546,7 @@ export default function Home() {
       </main>
 
       <Footer />
+      {templatePanel}
     </div>
   );
 }
@@ -7,30 +7,69 @@ import { Header } from '@/components/Header';
 import { Footer } from '@/components/Footer';
 import { WordDropzone } from '@/components/WordDropzone';
 import { WordConversionProgress } from '@/components/WordConversionProgress';
+import { PageSelector } from '@/components/PageSelector';
 import { WordPreview } from '@/components/WordPreview';
 import { DocumentPreview } from '@/components/DocumentPreview';
 import { Button } from '@/components/ui/button';
 import { useWordConversion } from '@/hooks/useWordConversion';
 
 export default function WordPage() {
-  const { status, progress, currentStep, documentStructure, error, fileName, convert, download, reset } =
-    useWordConversion();
+  const {
+    status,
+    progress,
+    currentStep,
+    documentStructure,
+    error,
+    fileName,
+    passwordIncorrect,
+    convert,
+    submitPassword,
+    cancel,
+    download,
+    tableOfContents,
+    setTableOfContents,
+    runningHeaders,
+    setRunningHeaders,
+    openSourceSession,
+    reset,
+  } = useWordConversion();
 
   const [showPreview, setShowPreview] = useState(false);
+  // Dropped file waiting for its pages to be chosen
+  const [selectingFile, setSelectingFile] = useState<File | null>(null);
 
-  const handleFileSelect = useCallback(
-    (file: File) => {
-      toast.info(`Converting ${file.name} to Word...`);
-      convert(file);
+  const handleFileSelect = useCallback((file: File) => {
+    setSelectingFile(file);
+  }, []);
+
+  const handlePagesConfirm = useCallback(
+    (pages?: number[]) => {
+      if (!selectingFile) return;
+      toast.info(`Converting ${selectingFile.name} to Word...`);
+      convert(selectingFile, { pages });
+      setSelectingFile(null);
     },
-    [convert]
+    [convert, selectingFile]
   );
 
+  const handlePagesCancel = useCallback(() => {
+    setSelectingFile(null);
+  }, []);
+
   const handleDownload = useCallback(async () => {
-    await download();
-    toast.success('Word document download started!');
+    // A failed download shows its error through the error state instead
+    if (await download()) {
+      toast.success('Word document download started!');
+    }
   }, [download]);
 
+  const handlePasswordSubmit = useCallback(
+    (password: string) => {
+      submitPassword(password);
+    },
+    [submitPassword]
+  );
+
   const handleBackFromPreview = useCallback(() => {
     setShowPreview(false);
   }, []);
@@ -40,6 +79,11 @@ export default function WordPage() {
     reset();
   }, [reset]);
 
+  const handleCancel = useCallback(() => {
+    cancel();
+    toast.info('Conversion cancelled');
+  }, [cancel]);
+
   useEffect(() => {
     if (error) {
       toast.error(error);
@@ -65,6 +109,11 @@ export default function WordPage() {
           documentStructure={documentStructure}
           onDownload={handleDownload}
           onBack={handleBackFromPreview}
+          tableOfContents={tableOfContents}
+          onTableOfContentsChange={setTableOfContents}
+          runningHeaders={runningHeaders}
+          onRunningHeadersChange={setRunningHeaders}
+          openSourceSession={openSourceSession}
         />
       </div>
     );
@@ -111,8 +160,29 @@ export default function WordPage() {
           {/* Main Converter Card */}
           <div className="mx-auto max-w-2xl">
             <div className="bg-white dark:bg-[#1e293b] rounded-3xl shadow-soft dark:shadow-none border border-gray-100 dark:border-gray-800 p-6 md:p-8">
+              {/* Page selection for the dropped file */}
+              {status === 'idle' && selectingFile && (
+                <PageSelector
+                  file={selectingFile}
+                  onConfirm={handlePagesConfirm}
+                  onCancel={handlePagesCancel}
+                  theme="blue"
+                />
+              )}
+
               {/* Idle State - Show Dropzone */}
-              {status === 'idle' && <WordDropzone onFileSelect={handleFileSelect} />}
+              {!selectingFile && (status === 'idle' || status === 'password-required') && (
+                <WordDropzone
+                  onFileSelect={handleFileSelect}
+                  passwordRequest={
+                    status === 'password-required' && fileName
+                      ? { fileName, incorrect: !!passwordIncorrect }
+                      : null
+                  }
+                  onPasswordSubmit={handlePasswordSubmit}
+                  onPasswordCancel={handleReset}
+                />
+              )}
 
               {/* Processing State - Show Progress */}
               {isProcessing && (
@@ -121,6 +191,7 @@ export default function WordPage() {
                   progress={progress}
                   currentStep={currentStep}
                   fileName={fileName}
+                  onCancel={handleCancel}
                 />
               )}
 
@@ -0,0 +1,204 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import type { BatchItem } from '@/hooks/useBatchConversion';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  completedCount: number;
+  failedCount: number;
+  isProcessing: boolean;
+  isExporting: boolean;
+  onFilesSelect: (files: File[]) => void;
+  onRetry: (id: number) => void;
+  onRemove: (id: number) => void;
+  onClear: () => void;
+  onDownloadZip: () => void;
+  onDownloadCombined: () => void;
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB per file
+
+const STATUS_ICONS: Record<BatchItem['status'], { icon: string; className: string }> = {
+  queued: { icon: 'schedule', className: 'text-gray-400' },
+  processing: { icon: 'autorenew', className: 'text-green-500 animate-spin' },
+  complete: { icon: 'check_circle', className: 'text-green-500' },
+  error: { icon: 'error', className: 'text-red-500' },
+};
+
+export function BatchQueue({
+  items,
+  completedCount,
+  failedCount,
+  isProcessing,
+  isExporting,
+  onFilesSelect,
+  onRetry,
+  onRemove,
+  onClear,
+  onDownloadZip,
+  onDownloadCombined,
+}: BatchQueueProps) {
+  const onDrop = useCallback(
+    (acceptedFiles: File[]) => {
+      if (acceptedFiles.length > 0) {
+        onFilesSelect(acceptedFiles);
+      }
+    },
+    [onFilesSelect]
+  );
+
+  const { getRootProps, getInputProps, isDragActive, fileRejections } = useDropzone({
+    onDrop,
+    accept: { 'application/pdf': ['.pdf'] },
+    maxSize: MAX_FILE_SIZE,
+    multiple: true,
+  });
+
+  const canDownload = completedCount > 0 && !isExporting;
+
+  return (
+    <div className="w-full space-y-6">
+      {/* Dropzone - compact, so the queue stays in view */}
+      <div
+        {...getRootProps()}
+        className={cn(
+          'upload-area flex cursor-pointer flex-col items-center justify-center rounded-2xl border-2 border-dashed p-6 transition-all duration-300',
+          isDragActive
+            ? 'border-green-500 bg-green-50/50 dark:bg-green-900/20'
+            : 'border-green-200 dark:border-green-800/50 hover:border-green-400 dark:hover:border-green-600 bg-green-50/30 dark:bg-green-900/10'
+        )}
+      >
+        <input {...getInputProps()} />
+        <span className="material-icons-round text-3xl text-green-500 dark:text-green-400">library_add</span>
+        <p className="mt-2 font-semibold text-gray-900 dark:text-white">
+          {isDragActive ? 'Drop to add to the queue' : 'Drop PDFs here or browse'}
+        </p>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Add as many statements as you like - they are converted one at a time
+        </p>
+      </div>
+
+      {fileRejections.length > 0 && (
+        <div className="flex items-center gap-2 rounded-lg bg-destructive/10 px-4 py-2 text-sm text-destructive">
+          <span className="material-icons-round text-lg">error</span>
+          {fileRejections.length} file{fileRejections.length !== 1 ? 's were' : ' was'} skipped - only PDFs up to 10MB can be added.
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <>
+          {/* Summary */}
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600 dark:text-gray-300">
+              <span className="font-semibold text-gray-900 dark:text-white">{completedCount}</span> of {items.length} converted
+              {failedCount > 0 && <span className="text-red-500"> · {failedCount} failed</span>}
+            </span>
+            <button
+              type="button"
+              onClick={onClear}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              Clear all
+            </button>
+          </div>
+
+          {/* Queue */}
+          <ul className="max-h-96 divide-y divide-gray-100 dark:divide-gray-800 overflow-y-auto rounded-xl border border-gray-100 dark:border-gray-800">
+            {items.map((item) => {
+              const statusIcon = STATUS_ICONS[item.status];
+              const tableCount = item.result?.mode === 'tables' ? item.result.tables.length : 0;
+
+              return (
+                <li key={item.id} className="flex items-center gap-3 px-4 py-3">
+                  <span className={cn('material-icons-round text-xl', statusIcon.className)}>{statusIcon.icon}</span>
+
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium text-gray-900 dark:text-white" title={item.fileName}>
+                      {item.fileName}
+                    </p>
+                    {item.status === 'processing' && (
+                      <div className="mt-1 space-y-1">
+                        <Progress value={item.progress} className="h-1.5 [&>div]:bg-green-500" />
+                        <p className="truncate text-xs text-gray-500 dark:text-gray-400">{item.currentStep}</p>
+                      </div>
+                    )}
+                    {item.status === 'queued' && (
+                      <p className="text-xs text-gray-400">Waiting...</p>
+                    )}
+                    {item.status === 'complete' && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {tableCount > 0
+                          ? `${tableCount} table${tableCount !== 1 ? 's' : ''} found`
+                          : 'No tables - text extracted'}
+                      </p>
+                    )}
+                    {item.status === 'error' && (
+                      <p className="truncate text-xs text-red-500" title={item.error || undefined}>
+                        {item.error}
+                      </p>
+                    )}
+                  </div>
+
+                  {item.status === 'error' && (
+                    <button
+                      type="button"
+                      onClick={() => onRetry(item.id)}
+                      aria-label={`Retry ${item.fileName}`}
+                      className="flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-medium text-green-600 hover:bg-green-50 dark:text-green-400 dark:hover:bg-green-900/20"
+                    >
+                      <span className="material-icons-round text-base">refresh</span>
+                      Retry
+                    </button>
+                  )}
+                  {item.status !== 'processing' && (
+                    <button
+                      type="button"
+                      onClick={() => onRemove(item.id)}
+                      aria-label={`Remove ${item.fileName}`}
+                      className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                    >
+                      <span className="material-icons-round text-xl">close</span>
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {/* Downloads */}
+          <div className="flex flex-col gap-3 sm:flex-row sm:justify-center">
+            <Button
+              size="lg"
+              onClick={onDownloadZip}
+              disabled={!canDownload}
+              className="gap-2 rounded-xl px-6 font-semibold bg-green-600 hover:bg-green-700 text-white"
+            >
+              <span className="material-icons-round text-xl">folder_zip</span>
+              Download ZIP
+            </Button>
+            <Button
+              size="lg"
+              variant="outline"
+              onClick={onDownloadCombined}
+              disabled={!canDownload}
+              className="gap-2 rounded-xl px-6 font-semibold border-gray-200 dark:border-gray-700"
+            >
+              <span className="material-icons-round text-xl">table_view</span>
+              Combined Workbook
+            </Button>
+          </div>
+          {isProcessing && completedCount > 0 && (
+            <p className="text-center text-xs text-gray-400">
+              Downloads include the files converted so far.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { ColumnFormat, ColumnType, DateFormat } from '@/lib/types';
+
+interface ColumnFormatMenuProps {
+  columnLabel: string;
+  format: ColumnFormat | null; // Set by hand, null when the column uses what was detected
+  detectedType: ColumnType;
+  position: { x: number; y: number };
+  onChange: (format: ColumnFormat | null) => void;
+  onClose: () => void;
+}
+
+const TYPE_OPTIONS: { value: ColumnType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'date', label: 'Date' },
+];
+
+const CURRENCY_OPTIONS = ['₦', '$', '€', '£'];
+
+const DATE_FORMAT_OPTIONS: { value: DateFormat; label: string }[] = [
+  { value: 'dd/mm/yyyy', label: '24/12/2025' },
+  { value: 'mm/dd/yyyy', label: '12/24/2025' },
+  { value: 'yyyy-mm-dd', label: '2025-12-24' },
+  { value: 'dd-mmm-yyyy', label: '24-Dec-2025' },
+];
+
+const DECIMAL_OPTIONS = [0, 1, 2, 3, 4];
+
+export const COLUMN_FORMAT_MENU_WIDTH = 256;
+
+const selectClass =
+  'w-full rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-2 py-1 text-sm text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-green-200 dark:focus:ring-green-800';
+
+/**
+ * Popover under a column letter for overriding the column's detected type,
+ * currency, date format and decimal places
+ */
+export function ColumnFormatMenu({
+  columnLabel,
+  format,
+  detectedType,
+  position,
+  onChange,
+  onClose,
+}: ColumnFormatMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const type = format?.type ?? detectedType;
+
+  // Close on any click outside the menu
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => window.removeEventListener('mousedown', handleMouseDown);
+  }, [onClose]);
+
+  const update = (changes: Partial<ColumnFormat>) => {
+    const next = { ...format, ...changes };
+    // Fields that don't apply to the new type are dropped
+    if (next.type && next.type !== 'currency') delete next.currencySymbol;
+    if (next.type && next.type !== 'date') delete next.dateFormat;
+    if (next.type === 'text' || next.type === 'date') delete next.decimals;
+    onChange(next);
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      role="dialog"
+      aria-label={`Format column ${columnLabel}`}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+      style={{ left: position.x, top: position.y, width: COLUMN_FORMAT_MENU_WIDTH }}
+      className="fixed z-50 space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3 text-sm shadow-lg"
+    >
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-gray-900 dark:text-white">Column {columnLabel}</span>
+        <button
+          onClick={() => onChange(null)}
+          disabled={!format}
+          className="text-xs font-medium text-green-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+        >
+          Reset to detected
+        </button>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-gray-500 dark:text-gray-400">Type</span>
+        <select
+          autoFocus
+          value={format?.type ?? ''}
+          onChange={(e) => update({ type: (e.target.value || undefined) as ColumnType | undefined })}
+          className={selectClass}
+        >
+          <option value="">Detected ({detectedType})</option>
+          {TYPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {type === 'currency' && (
+        <label className="block space-y-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Currency</span>
+          <select
+            value={format?.currencySymbol ?? ''}
+            onChange={(e) => update({ currencySymbol: e.target.value || undefined })}
+            className={selectClass}
+          >
+            <option value="">As found in the PDF</option>
+            {CURRENCY_OPTIONS.map((symbol) => (
+              <option key={symbol} value={symbol}>
+                {symbol}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {type === 'date' && (
+        <label className="block space-y-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Date format</span>
+          <select
+            value={format?.dateFormat ?? ''}
+            onChange={(e) => update({ dateFormat: (e.target.value || undefined) as DateFormat | undefined })}
+            className={selectClass}
+          >
+            <option value="">As written</option>
+            {DATE_FORMAT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {(type === 'number' || type === 'currency') && (
+        <label className="block space-y-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Decimal places</span>
+          <select
+            value={format?.decimals ?? ''}
+            onChange={(e) => update({ decimals: e.target.value === '' ? undefined : Number(e.target.value) })}
+            className={selectClass}
+          >
+            <option value="">{type === 'currency' ? 'Default (2)' : 'As written'}</option>
+            {DECIMAL_OPTIONS.map((decimals) => (
+              <option key={decimals} value={decimals}>
+                {decimals}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
 import { FileText, Table, FileSpreadsheet, FileText as DocIcon, CheckCircle2, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { ConversionStatus, OutputFormat } from '@/lib/types';
@@ -11,36 +12,54 @@ interface ConversionProgressProps {
   currentStep: string;
   fileName: string | null;
   outputFormat?: OutputFormat;
+  onCancel?: () => void; // Only offered while extracting - file generation is quick
 }
 
+const FORMAT_LABELS: Record<OutputFormat, { name: string; description: string; icon: string }> = {
+  excel: { name: 'Excel', description: 'Excel (.xlsx)', icon: 'table_chart' },
+  doc: { name: 'Word', description: 'Word (.docx)', icon: 'description' },
+  csv: { name: 'CSV', description: 'CSV (.csv)', icon: 'dataset' },
+  tsv: { name: 'TSV', description: 'TSV (.tsv)', icon: 'dataset' },
+  json: { name: 'JSON', description: 'JSON (.json)', icon: 'data_object' },
+};
+
 const getSteps = (format: OutputFormat) => [
   { key: 'reading', label: 'Reading', icon: FileText },
   { key: 'parsing', label: 'Parsing', icon: FileText },
-  { key: 'extracting', label: format === 'excel' ? 'Extracting Tables' : 'Analyzing Structure', icon: Table },
-  { key: 'generating', label: format === 'excel' ? 'Creating Excel' : 'Creating Word', icon: format === 'excel' ? FileSpreadsheet : DocIcon },
+  { key: 'extracting', label: format === 'doc' ? 'Analyzing Structure' : 'Extracting Tables', icon: Table },
+  { key: 'generating', label: `Creating ${FORMAT_LABELS[format].name}`, icon: format === 'doc' ? DocIcon : FileSpreadsheet },
   { key: 'complete', label: 'Complete', icon: CheckCircle2 },
 ];
 
-export function ConversionProgress({ status, progress, currentStep, fileName, outputFormat = 'excel' }: ConversionProgressProps) {
+export function ConversionProgress({
+  status,
+  progress,
+  currentStep,
+  fileName,
+  outputFormat = 'excel',
+  onCancel,
+}: ConversionProgressProps) {
   const steps = getSteps(outputFormat);
   const currentStepIndex = steps.findIndex((s) => s.key === status);
+  const canCancel = ['reading', 'parsing', 'extracting'].includes(status);
 
-  const isExcel = outputFormat === 'excel';
-  const themeColor = isExcel ? 'green' : 'blue';
+  // Excel and the data formats are table exports and share the green theme
+  const isTableFormat = outputFormat !== 'doc';
+  const themeColor = isTableFormat ? 'green' : 'blue';
 
   return (
     <div className="w-full space-y-6">
       {/* Format indicator banner */}
       <div className={cn(
         'py-3 px-4 rounded-xl text-center font-medium',
-        isExcel
+        isTableFormat
           ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
           : 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
       )}>
         <span className="material-icons-round text-base align-middle mr-2">
-          {isExcel ? 'table_chart' : 'description'}
+          {FORMAT_LABELS[outputFormat].icon}
         </span>
-        Converting to {isExcel ? 'Excel (.xlsx)' : 'Word (.docx)'}
+        Converting to {FORMAT_LABELS[outputFormat].description}
       </div>
 
       {fileName && (
@@ -55,7 +74,7 @@ export function ConversionProgress({ status, progress, currentStep, fileName, ou
           value={progress}
           className={cn(
             'h-2',
-            isExcel ? '[&>div]:bg-green-500' : '[&>div]:bg-blue-500'
+            isTableFormat ? '[&>div]:bg-green-500' : '[&>div]:bg-blue-500'
           )}
         />
         <div className="flex justify-between text-xs text-muted-foreground">
@@ -75,10 +94,10 @@ export function ConversionProgress({ status, progress, currentStep, fileName, ou
               <div
                 className={cn(
                   'flex h-10 w-10 items-center justify-center rounded-full transition-all',
-                  isActive && isExcel && 'bg-green-500 text-white',
-                  isActive && !isExcel && 'bg-blue-500 text-white',
-                  isCompleted && !isActive && isExcel && 'bg-green-500 text-white',
-                  isCompleted && !isActive && !isExcel && 'bg-blue-500 text-white',
+                  isActive && isTableFormat && 'bg-green-500 text-white',
+                  isActive && !isTableFormat && 'bg-blue-500 text-white',
+                  isCompleted && !isActive && isTableFormat && 'bg-green-500 text-white',
+                  isCompleted && !isActive && !isTableFormat && 'bg-blue-500 text-white',
                   !isActive && !isCompleted && 'bg-muted text-muted-foreground'
                 )}
               >
@@ -91,10 +110,10 @@ export function ConversionProgress({ status, progress, currentStep, fileName, ou
               <span
                 className={cn(
                   'text-xs text-center max-w-[60px]',
-                  isActive && isExcel && 'font-medium text-green-600 dark:text-green-400',
-                  isActive && !isExcel && 'font-medium text-blue-600 dark:text-blue-400',
-                  isCompleted && !isActive && isExcel && 'text-green-600 dark:text-green-400',
-                  isCompleted && !isActive && !isExcel && 'text-blue-600 dark:text-blue-400',
+                  isActive && isTableFormat && 'font-medium text-green-600 dark:text-green-400',
+                  isActive && !isTableFormat && 'font-medium text-blue-600 dark:text-blue-400',
+                  isCompleted && !isActive && isTableFormat && 'text-green-600 dark:text-green-400',
+                  isCompleted && !isActive && !isTableFormat && 'text-blue-600 dark:text-blue-400',
                   !isActive && !isCompleted && 'text-muted-foreground'
                 )}
               >
@@ -104,6 +123,20 @@ export function ConversionProgress({ status, progress, currentStep, fileName, ou
           );
         })}
       </div>
+
+      {onCancel && canCancel && (
+        <div className="flex justify-center">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            className="gap-2 rounded-xl px-5 font-semibold border-gray-200 dark:border-gray-700"
+          >
+            <span className="material-icons-round text-lg">close</span>
+            Cancel
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
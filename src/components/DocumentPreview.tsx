@@ -1,28 +1,58 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
+import { SourcePageView } from '@/components/SourcePageView';
 import { cn } from '@/lib/utils';
+import { boxContainsPoint } from '@/lib/sourceBoxes';
+import type { PdfSession } from '@/lib/pdfParser';
 import type { DocumentStructure, DocumentElement } from '@/lib/types';
 
 interface DocumentPreviewProps {
   documentStructure: DocumentStructure;
   onDownload: () => void;
   onBack: () => void;
+  tableOfContents?: boolean;
+  onTableOfContentsChange?: (enabled: boolean) => void;
+  runningHeaders?: boolean;
+  onRunningHeadersChange?: (enabled: boolean) => void;
+  openSourceSession?: () => Promise<PdfSession>; // Enables the side-by-side source page
 }
 
-export function DocumentPreview({ documentStructure, onDownload, onBack }: DocumentPreviewProps) {
+// Outline depth of a heading element (0 for the title), or null for other elements
+function getHeadingLevel(element: DocumentElement): number | null {
+  if (element.type === 'title') return 0;
+  if (element.type === 'heading') return element.level ?? 1;
+  if (element.type === 'subheading') return element.level ?? 2;
+  return null;
+}
+
+export function DocumentPreview({
+  documentStructure,
+  onDownload,
+  onBack,
+  tableOfContents = false,
+  onTableOfContentsChange,
+  runningHeaders = true,
+  onRunningHeadersChange,
+  openSourceSession,
+}: DocumentPreviewProps) {
   const { title, elements, pages } = documentStructure;
+  const hasRunningText = !!(documentStructure.header?.length || documentStructure.footer?.length);
   const [currentPage, setCurrentPage] = useState(1);
   const [zoom, setZoom] = useState(100);
+  const [showSource, setShowSource] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null); // Index into elements
+  const [scrollTarget, setScrollTarget] = useState<number | null>(null); // Element to bring into view
+  const documentViewRef = useRef<HTMLDivElement>(null);
 
-  // Group elements by page
+  // Group elements by page, keeping each one's index for selection
   const elementsByPage = useMemo(() => {
-    const grouped: Record<number, DocumentElement[]> = {};
-    elements.forEach((element) => {
+    const grouped: Record<number, { element: DocumentElement; index: number }[]> = {};
+    elements.forEach((element, index) => {
       const page = element.page || 1;
       if (!grouped[page]) grouped[page] = [];
-      grouped[page].push(element);
+      grouped[page].push({ element, index });
     });
     return grouped;
   }, [elements]);
@@ -30,6 +60,24 @@ export function DocumentPreview({ documentStructure, onDownload, onBack }: Docum
   // Get current page elements
   const currentPageElements = elementsByPage[currentPage] || [];
 
+  const outline = useMemo(
+    () =>
+      elements
+        .map((element, index) => ({ element, index, level: getHeadingLevel(element) }))
+        .filter((entry): entry is { element: DocumentElement; index: number; level: number } => entry.level !== null),
+    [elements]
+  );
+
+  const goToPage = (page: number) => {
+    setCurrentPage(page);
+    setScrollTarget(null);
+  };
+
+  const goToElement = (index: number) => {
+    setCurrentPage(elements[index].page || 1);
+    setScrollTarget(index);
+  };
+
   // Stats
   const stats = useMemo(() => {
     const headings = elements.filter((e) => e.type === 'heading' || e.type === 'subheading' || e.type === 'title').length;
@@ -44,6 +92,26 @@ export function DocumentPreview({ documentStructure, onDownload, onBack }: Docum
   const handleZoomOut = () => setZoom((z) => Math.max(z - 25, 50));
   const handleResetZoom = () => setZoom(100);
 
+  // Select the element read from a clicked point of the source page
+  const handleSourcePointSelect = (page: number, x: number, y: number) => {
+    const index = elements.findIndex((element) =>
+      element.sourceBoxes?.some((box) => boxContainsPoint(box, page, x, y))
+    );
+    if (index < 0) return;
+    setSelectedIndex(index);
+    goToElement(index);
+  };
+
+  // Bring the element picked in the outline or on the source page into view once its page shows
+  useEffect(() => {
+    if (scrollTarget === null) return;
+    documentViewRef.current
+      ?.querySelector(`[data-element-index="${scrollTarget}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [scrollTarget, currentPage]);
+
+  const selectedSources = selectedIndex !== null ? elements[selectedIndex]?.sourceBoxes ?? [] : [];
+
   return (
     <div className="h-full flex flex-col bg-gray-100 dark:bg-gray-900">
       {/* Top Toolbar */}
@@ -75,7 +143,7 @@ export function DocumentPreview({ documentStructure, onDownload, onBack }: Docum
               variant="outline"
               size="icon"
               className="h-8 w-8"
-              onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+              onClick={() => goToPage(Math.max(1, currentPage - 1))}
               disabled={currentPage <= 1}
             >
               <span className="material-icons-round text-lg">chevron_left</span>
@@ -87,7 +155,7 @@ export function DocumentPreview({ documentStructure, onDownload, onBack }: Docum
               variant="outline"
               size="icon"
               className="h-8 w-8"
-              onClick={() => setCurrentPage((p) => Math.min(pages || 1, p + 1))}
+              onClick={() => goToPage(Math.min(pages || 1, currentPage + 1))}
               disabled={currentPage >= (pages || 1)}
             >
               <span className="material-icons-round text-lg">chevron_right</span>
@@ -96,6 +164,50 @@ export function DocumentPreview({ documentStructure, onDownload, onBack }: Docum
 
           {/* Right: Zoom and download */}
           <div className="flex items-center gap-2">
+            {onTableOfContentsChange && (
+              <label
+                className="hidden md:flex items-center gap-2 px-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer select-none"
+                title="Start the Word document with a table of contents built from the headings"
+              >
+                <input
+                  type="checkbox"
+                  checked={tableOfContents}
+                  onChange={(e) => onTableOfContentsChange(e.target.checked)}
+                  className="h-4 w-4 rounded accent-blue-600"
+                />
+                Table of contents
+              </label>
+            )}
+            {onRunningHeadersChange && hasRunningText && (
+              <label
+                className="hidden md:flex items-center gap-2 px-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer select-none"
+                title="Repeat the PDF's running headers, footers and page numbers as Word headers and footers"
+              >
+                <input
+                  type="checkbox"
+                  checked={runningHeaders}
+                  onChange={(e) => onRunningHeadersChange(e.target.checked)}
+                  className="h-4 w-4 rounded accent-blue-600"
+                />
+                Headers &amp; footers
+              </label>
+            )}
+            {openSourceSession && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowSource((shown) => !shown)}
+                aria-pressed={showSource}
+                title="Show the PDF page beside the document and highlight where the selected text came from"
+                className={cn(
+                  'gap-2 text-gray-600 dark:text-gray-300',
+                  showSource && 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400'
+                )}
+              >
+                <span className="material-icons-round text-lg">vertical_split</span>
+                <span className="hidden sm:inline">Source</span>
+              </Button>
+            )}
             <div className="hidden md:flex items-center gap-1 border border-gray-200 dark:border-gray-700 rounded-lg p-1">
               <Button
                 variant="ghost"
@@ -147,33 +259,39 @@ export function DocumentPreview({ documentStructure, onDownload, onBack }: Docum
             <StatItem icon="image" label="Images" count={stats.images} color="purple" />
           </div>
 
-          <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
-            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Quick Navigation</h3>
-            <div className="space-y-1 max-h-[300px] overflow-y-auto">
-              {elements
-                .filter((e) => e.type === 'title' || e.type === 'heading')
-                .slice(0, 15)
-                .map((element, index) => (
-                  <button
-                    key={index}
-                    onClick={() => setCurrentPage(element.page || 1)}
-                    className={cn(
-                      'w-full text-left text-xs py-1.5 px-2 rounded hover:bg-gray-100 dark:hover:bg-gray-800 truncate',
-                      element.type === 'title'
-                        ? 'font-bold text-gray-900 dark:text-white'
-                        : 'text-gray-600 dark:text-gray-400',
-                      element.page === currentPage && 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400'
-                    )}
-                  >
-                    {element.content.slice(0, 40)}{element.content.length > 40 ? '...' : ''}
-                  </button>
-                ))}
-            </div>
+          <div className="flex min-h-0 flex-1 flex-col mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Outline</h3>
+            {outline.length === 0 ? (
+              <p className="text-xs text-gray-400 dark:text-gray-500">No headings found</p>
+            ) : (
+              <nav aria-label="Document outline" className="space-y-0.5 overflow-y-auto">
+                {outline.map(({ element, index, level }) => {
+                  // The picked heading, or every heading on the page when none was picked
+                  const isActive = scrollTarget !== null ? index === scrollTarget : element.page === currentPage;
+                  return (
+                    <button
+                      key={index}
+                      onClick={() => goToElement(index)}
+                      title={element.content}
+                      aria-current={isActive ? 'location' : undefined}
+                      style={{ paddingLeft: `${0.5 + Math.max(level - 1, 0) * 0.75}rem` }}
+                      className={cn(
+                        'w-full text-left text-xs py-1.5 pr-2 rounded hover:bg-gray-100 dark:hover:bg-gray-800 truncate',
+                        level <= 1 ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-400',
+                        isActive && 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400'
+                      )}
+                    >
+                      {element.content}
+                    </button>
+                  );
+                })}
+              </nav>
+            )}
           </div>
         </div>
 
         {/* Document View */}
-        <div className="flex-1 overflow-auto p-4 md:p-8">
+        <div ref={documentViewRef} className="flex-1 overflow-auto p-4 md:p-8">
           <div
             className="max-w-3xl mx-auto bg-white dark:bg-[#1e293b] rounded-lg shadow-lg min-h-[800px] p-8 md:p-12"
             style={{
@@ -197,16 +315,47 @@ export function DocumentPreview({ documentStructure, onDownload, onBack }: Docum
                   <p>No content on this page</p>
                 </div>
               ) : (
-                currentPageElements.map((element, index) => (
-                  <ElementRenderer key={index} element={element} />
-                ))
+                currentPageElements.map(({ element, index }) =>
+                  showSource ? (
+                    <div
+                      key={index}
+                      data-element-index={index}
+                      onClick={() => setSelectedIndex(index)}
+                      className={cn(
+                        '-mx-2 cursor-pointer rounded px-2 transition-colors',
+                        index === selectedIndex
+                          ? 'bg-yellow-100/70 dark:bg-yellow-900/20 ring-2 ring-yellow-400'
+                          : 'hover:bg-gray-50 dark:hover:bg-gray-800/50'
+                      )}
+                    >
+                      <ElementRenderer element={element} />
+                    </div>
+                  ) : (
+                    <div key={index} data-element-index={index}>
+                      <ElementRenderer element={element} />
+                    </div>
+                  )
+                )
               )}
             </div>
           </div>
         </div>
 
+        {/* Source page */}
+        {showSource && openSourceSession && (
+          <div className="w-1/2 border-l border-gray-200 dark:border-gray-700">
+            <SourcePageView
+              openSession={openSourceSession}
+              highlights={selectedSources}
+              initialPage={currentPage}
+              onPointSelect={handleSourcePointSelect}
+              onClose={() => setShowSource(false)}
+            />
+          </div>
+        )}
+
         {/* Right Sidebar - Page Thumbnails */}
-        <div className="hidden xl:flex flex-col w-48 bg-white dark:bg-[#1e293b] border-l border-gray-200 dark:border-gray-700 p-4">
+        <div className={cn('hidden flex-col w-48 bg-white dark:bg-[#1e293b] border-l border-gray-200 dark:border-gray-700 p-4', !showSource && 'xl:flex')}>
           <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-4">Pages</h3>
           <div className="space-y-2 overflow-y-auto">
             {Array.from({ length: pages || 1 }, (_, i) => i + 1).map((pageNum) => {
@@ -215,7 +364,7 @@ export function DocumentPreview({ documentStructure, onDownload, onBack }: Docum
               return (
                 <button
                   key={pageNum}
-                  onClick={() => setCurrentPage(pageNum)}
+                  onClick={() => goToPage(pageNum)}
                   className={cn(
                     'w-full aspect-[3/4] rounded-lg border-2 flex flex-col items-center justify-center text-xs transition-all',
                     currentPage === pageNum
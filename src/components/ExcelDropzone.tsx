@@ -1,24 +1,48 @@
 'use client';
 
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { cn } from '@/lib/utils';
+import { PasswordPrompt, type PasswordRequest } from '@/components/PasswordPrompt';
+import type { OutputFormat } from '@/lib/types';
+
+// Formats the extracted tables can be downloaded in
+export type TableFormat = Extract<OutputFormat, 'excel' | 'csv' | 'tsv' | 'json'>;
+
+export const TABLE_FORMATS: { format: TableFormat; label: string; ext: string }[] = [
+  { format: 'excel', label: 'Excel', ext: '.xlsx' },
+  { format: 'csv', label: 'CSV', ext: '.csv' },
+  { format: 'tsv', label: 'TSV', ext: '.tsv' },
+  { format: 'json', label: 'JSON', ext: '.json' },
+];
 
 interface ExcelDropzoneProps {
-  onFileSelect: (file: File) => void;
+  onFileSelect: (file: File, format: TableFormat) => void;
   disabled?: boolean;
+  passwordRequest?: PasswordRequest | null; // Set when the dropped PDF is encrypted
+  onPasswordSubmit?: (password: string) => void;
+  onPasswordCancel?: () => void;
 }
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
-export function ExcelDropzone({ onFileSelect, disabled }: ExcelDropzoneProps) {
+export function ExcelDropzone({
+  onFileSelect,
+  disabled,
+  passwordRequest,
+  onPasswordSubmit,
+  onPasswordCancel,
+}: ExcelDropzoneProps) {
+  const [selectedFormat, setSelectedFormat] = useState<TableFormat>('excel');
+  const formatLabel = TABLE_FORMATS.find(({ format }) => format === selectedFormat)?.label ?? 'Excel';
+
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
       if (acceptedFiles.length > 0) {
-        onFileSelect(acceptedFiles[0]);
+        onFileSelect(acceptedFiles[0], selectedFormat);
       }
     },
-    [onFileSelect]
+    [onFileSelect, selectedFormat]
   );
 
   const { getRootProps, getInputProps, isDragActive, isDragAccept, isDragReject, fileRejections } =
@@ -37,6 +61,17 @@ export function ExcelDropzone({ onFileSelect, disabled }: ExcelDropzoneProps) {
       : 'Please upload a PDF file.'
     : null;
 
+  if (passwordRequest && onPasswordSubmit && onPasswordCancel) {
+    return (
+      <PasswordPrompt
+        request={passwordRequest}
+        onSubmit={onPasswordSubmit}
+        onCancel={onPasswordCancel}
+        theme={'green'}
+      />
+    );
+  }
+
   return (
     <div className="w-full">
       {/* Header Info */}
@@ -48,6 +83,28 @@ export function ExcelDropzone({ onFileSelect, disabled }: ExcelDropzoneProps) {
         <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">
           Extract tables from your PDF and convert them to Excel spreadsheets
         </p>
+
+        {/* Output format - CSV, TSV and JSON are plain data for scripts */}
+        <div className="mt-4 inline-flex rounded-xl bg-gray-100 dark:bg-gray-800 p-1" role="radiogroup" aria-label="Output format">
+          {TABLE_FORMATS.map(({ format, label, ext }) => (
+            <button
+              key={format}
+              type="button"
+              role="radio"
+              aria-checked={selectedFormat === format}
+              onClick={() => setSelectedFormat(format)}
+              title={`Download the tables as ${ext}`}
+              className={cn(
+                'rounded-lg px-3 py-1 text-sm font-semibold transition-colors',
+                selectedFormat === format
+                  ? 'bg-white dark:bg-gray-700 text-green-700 dark:text-green-300 shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Dropzone */}
@@ -89,7 +146,7 @@ export function ExcelDropzone({ onFileSelect, disabled }: ExcelDropzoneProps) {
             <p className="text-lg font-semibold text-destructive">Invalid file type</p>
           ) : isDragActive ? (
             <p className="text-lg font-semibold text-green-600 dark:text-green-400">
-              Drop to convert to Excel
+              Drop to convert to {formatLabel}
             </p>
           ) : (
             <>
@@ -101,7 +158,7 @@ export function ExcelDropzone({ onFileSelect, disabled }: ExcelDropzoneProps) {
                 <span className="font-medium hover:underline underline-offset-4 cursor-pointer text-green-600 dark:text-green-400">
                   browse files
                 </span>
-                {' '}to convert to Excel
+                {' '}to convert to {formatLabel}
               </p>
             </>
           )}
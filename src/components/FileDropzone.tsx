@@ -3,17 +3,28 @@
 import { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { cn } from '@/lib/utils';
+import { PasswordPrompt, type PasswordRequest } from '@/components/PasswordPrompt';
 import type { OutputFormat } from '@/lib/types';
 
 interface FileDropzoneProps {
   onFileSelect: (file: File, format: OutputFormat) => void;
   disabled?: boolean;
+  passwordRequest?: PasswordRequest | null; // Set when the dropped PDF is encrypted
+  onPasswordSubmit?: (password: string) => void;
+  onPasswordCancel?: () => void;
 }
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
-export function FileDropzone({ onFileSelect, disabled }: FileDropzoneProps) {
-  const [selectedFormat, setSelectedFormat] = useState<OutputFormat>('excel');
+export function FileDropzone({
+  onFileSelect,
+  disabled,
+  passwordRequest,
+  onPasswordSubmit,
+  onPasswordCancel,
+}: FileDropzoneProps) {
+  // This picker only offers the document formats - the data exports are on the home page's ExcelDropzone
+  const [selectedFormat, setSelectedFormat] = useState<Extract<OutputFormat, 'excel' | 'doc'>>('excel');
 
   const isExcel = selectedFormat === 'excel';
   const isWord = selectedFormat === 'doc';
@@ -77,6 +88,17 @@ export function FileDropzone({ onFileSelect, disabled }: FileDropzoneProps) {
 
   const activeConfig = formatConfig[selectedFormat];
 
+  if (passwordRequest && onPasswordSubmit && onPasswordCancel) {
+    return (
+      <PasswordPrompt
+        request={passwordRequest}
+        onSubmit={onPasswordSubmit}
+        onCancel={onPasswordCancel}
+        theme={isExcel ? 'green' : 'blue'}
+      />
+    );
+  }
+
   return (
     <div className="w-full">
       {/* Format Selection - Large Toggle Cards */}
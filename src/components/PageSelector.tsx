@@ -0,0 +1,218 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { openPdfSession, PdfPasswordError } from '@/lib/pdfParser';
+import { parsePageRange, formatPageRange } from '@/lib/pageRange';
+
+interface PageSelectorProps {
+  file: File;
+  onConfirm: (pages?: number[]) => void; // No pages means the whole document
+  onCancel: () => void;
+  theme?: 'green' | 'blue';
+}
+
+const THUMBNAIL_WIDTH = 120; // CSS pixels - rendered at 2x for sharp thumbnails
+
+/**
+ * Step between dropping a PDF and converting it: shows page thumbnails and lets the
+ * user pick pages by clicking or with a range expression like "1-3,7,10-".
+ * Encrypted PDFs can't be previewed before the password prompt, so they skip straight to conversion.
+ */
+export function PageSelector({ file, onConfirm, onCancel, theme = 'green' }: PageSelectorProps) {
+  const [numPages, setNumPages] = useState<number | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [expression, setExpression] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Latest callback for the loader effect, which only re-runs for a new file
+  const onConfirmRef = useRef(onConfirm);
+  useEffect(() => {
+    onConfirmRef.current = onConfirm;
+  }, [onConfirm]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let destroy: (() => Promise<void>) | null = null;
+
+    (async () => {
+      try {
+        const session = await openPdfSession(await file.arrayBuffer());
+        destroy = session.destroy;
+        if (cancelled) {
+          await session.destroy();
+          return;
+        }
+
+        setNumPages(session.numPages);
+        setExpression(`1-${session.numPages}`);
+
+        // Render thumbnails one at a time so the first pages show up straight away
+        for (let pageNum = 1; pageNum <= session.numPages; pageNum++) {
+          const page = await session.getPage(pageNum);
+          if (cancelled) return;
+
+          const scale = (THUMBNAIL_WIDTH * 2) / page.getViewport({ scale: 1 }).width;
+          const viewport = page.getViewport({ scale });
+          const canvas = document.createElement('canvas');
+          canvas.width = Math.ceil(viewport.width);
+          canvas.height = Math.ceil(viewport.height);
+          const context = canvas.getContext('2d');
+          if (!context) return;
+
+          await page.render({ canvasContext: context, viewport }).promise;
+          if (cancelled) return;
+
+          const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
+          setThumbnails((prev) => ({ ...prev, [pageNum]: dataUrl }));
+        }
+      } catch (error) {
+        if (cancelled) return;
+        if (error instanceof PdfPasswordError) {
+          // The password prompt comes after conversion starts - convert every page
+          onConfirmRef.current();
+          return;
+        }
+        setLoadError(error instanceof Error ? error.message : 'Could not read this PDF');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      destroy?.();
+    };
+  }, [file]);
+
+  const isGreen = theme === 'green';
+  const parsed = numPages ? parsePageRange(expression, numPages) : null;
+  const selectedPages = parsed?.pages ?? [];
+  const selected = new Set(selectedPages);
+
+  const togglePage = (pageNum: number) => {
+    const next = selected.has(pageNum)
+      ? selectedPages.filter((page) => page !== pageNum)
+      : [...selectedPages, pageNum];
+    setExpression(formatPageRange(next));
+  };
+
+  const isPartial = !loadError && selectedPages.length > 0 && selectedPages.length < (numPages ?? 0);
+
+  const handleConfirm = () => {
+    if (loadError) {
+      onConfirm();
+    } else if (parsed?.pages) {
+      onConfirm(isPartial ? parsed.pages : undefined);
+    }
+  };
+
+  return (
+    <div className="w-full space-y-5 py-2">
+      <div className="text-center">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Choose Pages</h3>
+        <p className="mt-1 truncate text-sm text-gray-500 dark:text-gray-400" title={file.name}>
+          {file.name}
+          {numPages !== null && ` · ${numPages} page${numPages !== 1 ? 's' : ''}`}
+        </p>
+      </div>
+
+      {loadError ? (
+        <div className="flex items-center gap-2 rounded-lg bg-destructive/10 px-4 py-3 text-sm text-destructive">
+          <span className="material-icons-round text-lg">error</span>
+          Couldn&apos;t preview this PDF ({loadError}). You can still convert every page.
+        </div>
+      ) : numPages === null ? (
+        <div className="flex items-center justify-center gap-2 py-10 text-sm text-gray-500 dark:text-gray-400">
+          <span className="material-icons-round animate-spin">autorenew</span>
+          Loading pages...
+        </div>
+      ) : (
+        <>
+          {/* Range expression */}
+          <div className="space-y-1">
+            <label htmlFor="page-range" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Pages
+            </label>
+            <input
+              id="page-range"
+              type="text"
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              placeholder="e.g. 1-3,7,10-"
+              spellCheck={false}
+              className={cn(
+                'w-full rounded-xl border bg-white dark:bg-gray-900 px-4 py-2.5 font-mono text-sm text-gray-900 dark:text-white outline-none focus:ring-2',
+                parsed?.error
+                  ? 'border-red-300 dark:border-red-800 focus:ring-red-200'
+                  : isGreen
+                  ? 'border-gray-200 dark:border-gray-700 focus:ring-green-200 dark:focus:ring-green-800'
+                  : 'border-gray-200 dark:border-gray-700 focus:ring-blue-200 dark:focus:ring-blue-800'
+              )}
+            />
+            <p className={cn('text-xs', parsed?.error ? 'text-red-500' : 'text-gray-500 dark:text-gray-400')}>
+              {parsed?.error ??
+                `${selectedPages.length} of ${numPages} page${numPages !== 1 ? 's' : ''} selected - click a page to add or remove it`}
+            </p>
+          </div>
+
+          {/* Thumbnails */}
+          <div className="grid max-h-96 grid-cols-3 gap-3 overflow-y-auto rounded-xl border border-gray-100 dark:border-gray-800 p-3 sm:grid-cols-5">
+            {Array.from({ length: numPages }, (_, index) => index + 1).map((pageNum) => {
+              const isSelected = selected.has(pageNum);
+              return (
+                <button
+                  key={pageNum}
+                  type="button"
+                  onClick={() => togglePage(pageNum)}
+                  aria-pressed={isSelected}
+                  aria-label={`Page ${pageNum}`}
+                  className={cn(
+                    'group flex flex-col items-center gap-1 rounded-lg p-1.5 transition-all',
+                    isSelected
+                      ? isGreen
+                        ? 'bg-green-50 ring-2 ring-green-500 dark:bg-green-900/20'
+                        : 'bg-blue-50 ring-2 ring-blue-500 dark:bg-blue-900/20'
+                      : 'opacity-50 hover:opacity-80'
+                  )}
+                >
+                  {thumbnails[pageNum] ? (
+                    // eslint-disable-next-line @next/next/no-img-element -- rendered locally as a data URL
+                    <img src={thumbnails[pageNum]} alt="" className="w-full rounded border border-gray-200 dark:border-gray-700 bg-white" />
+                  ) : (
+                    <div className="flex aspect-[3/4] w-full items-center justify-center rounded border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800">
+                      <span className="material-icons-round text-gray-300 dark:text-gray-600">description</span>
+                    </div>
+                  )}
+                  <span className="text-xs font-medium text-gray-600 dark:text-gray-300">{pageNum}</span>
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-col gap-3 sm:flex-row sm:justify-center">
+        <Button
+          size="lg"
+          onClick={handleConfirm}
+          disabled={!loadError && !parsed?.pages}
+          className={cn(
+            'gap-2 rounded-xl px-6 font-semibold text-white',
+            isGreen ? 'bg-green-600 hover:bg-green-700' : 'bg-blue-600 hover:bg-blue-700'
+          )}
+        >
+          <span className="material-icons-round text-xl">play_arrow</span>
+          {isPartial ? `Convert ${selectedPages.length} Page${selectedPages.length !== 1 ? 's' : ''}` : 'Convert All Pages'}
+        </Button>
+        <Button
+          size="lg"
+          variant="outline"
+          onClick={onCancel}
+          className="gap-2 rounded-xl px-6 font-semibold border-gray-200 dark:border-gray-700"
+        >
+          Choose Another File
+        </Button>
+      </div>
+    </div>
+  );
+}
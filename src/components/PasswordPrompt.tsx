@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+export interface PasswordRequest {
+  fileName: string;
+  incorrect: boolean;
+}
+
+interface PasswordPromptProps {
+  request: PasswordRequest;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+  theme?: 'green' | 'blue';
+}
+
+export function PasswordPrompt({ request, onSubmit, onCancel, theme = 'green' }: PasswordPromptProps) {
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+
+  const isGreen = theme === 'green';
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    onSubmit(password);
+    // Don't keep the password around in component state once it's been handed off
+    setPassword('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full space-y-6 py-4">
+      <div className="text-center">
+        <div
+          className={cn(
+            'mx-auto flex h-16 w-16 items-center justify-center rounded-2xl',
+            isGreen
+              ? 'bg-green-100 dark:bg-green-900/40 text-green-600 dark:text-green-400'
+              : 'bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400'
+          )}
+        >
+          <span className="material-icons-round text-3xl">lock</span>
+        </div>
+        <h3 className="mt-4 text-lg font-semibold text-gray-900 dark:text-white">Password Required</h3>
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+          <span className="font-medium text-gray-700 dark:text-gray-300">{request.fileName}</span> is protected.
+          Enter its password to continue.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="relative">
+          <input
+            type={showPassword ? 'text' : 'password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="off"
+            autoFocus
+            placeholder="PDF password"
+            aria-label="PDF password"
+            className={cn(
+              'w-full rounded-xl border bg-white dark:bg-gray-800/50 px-4 py-3 pr-12 text-sm text-gray-900 dark:text-white outline-none transition-colors',
+              request.incorrect
+                ? 'border-destructive focus:border-destructive'
+                : isGreen
+                ? 'border-gray-200 dark:border-gray-700 focus:border-green-500'
+                : 'border-gray-200 dark:border-gray-700 focus:border-blue-500'
+            )}
+          />
+          <button
+            type="button"
+            onClick={() => setShowPassword((show) => !show)}
+            aria-label={showPassword ? 'Hide password' : 'Show password'}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <span className="material-icons-round text-xl">{showPassword ? 'visibility_off' : 'visibility'}</span>
+          </button>
+        </div>
+
+        {request.incorrect && (
+          <div className="flex items-center gap-2 rounded-lg bg-destructive/10 px-4 py-2 text-sm text-destructive">
+            <span className="material-icons-round text-lg">error</span>
+            Incorrect password. Please try again.
+          </div>
+        )}
+
+        <p className="flex items-center gap-1 text-xs text-gray-400 dark:text-gray-500">
+          <span className="material-icons-round text-sm">shield</span>
+          Your password is only used in your browser and is never stored.
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-3 sm:flex-row sm:justify-center">
+        <Button
+          type="submit"
+          size="lg"
+          disabled={!password}
+          className={cn(
+            'gap-2 rounded-xl px-6 font-semibold text-white',
+            isGreen ? 'bg-green-600 hover:bg-green-700' : 'bg-blue-600 hover:bg-blue-700'
+          )}
+        >
+          <span className="material-icons-round text-xl">lock_open</span>
+          Unlock PDF
+        </Button>
+        <Button
+          type="button"
+          size="lg"
+          variant="outline"
+          onClick={onCancel}
+          className="gap-2 rounded-xl px-6 font-semibold border-gray-200 dark:border-gray-700"
+        >
+          Choose Another File
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,491 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import type { PDFPageProxy, RenderTask } from 'pdfjs-dist';
+import { cn } from '@/lib/utils';
+import type { PdfSession } from '@/lib/pdfParser';
+import type { PageRegion } from '@/lib/types';
+
+interface RegionEditorProps {
+  openSession: () => Promise<PdfSession>;
+  fileName: string | null;
+  initialRegions: PageRegion[];
+  onApply: (regions: PageRegion[]) => void;
+  onCancel: () => void;
+}
+
+type Tool = 'select' | 'draw' | 'separator';
+type Corner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// What the pointer is currently dragging, in PDF points
+type DragState =
+  | { kind: 'draw'; start: Point }
+  | { kind: 'move'; index: number; start: Point; original: PageRegion }
+  | { kind: 'resize'; index: number; corner: Corner; original: PageRegion }
+  | { kind: 'separator'; index: number; separatorIndex: number };
+
+const RENDER_SCALE = 2; // Canvas pixels per PDF point - sharp on high-DPI screens
+const MIN_REGION_SIZE = 8; // Smaller boxes are treated as stray clicks
+const SEPARATOR_MARGIN = 2; // Keeps separators strictly inside their box
+
+const TOOLS: { tool: Tool; label: string; icon: string; hint: string }[] = [
+  { tool: 'select', label: 'Select', icon: 'near_me', hint: 'Drag boxes to move them, corners to resize, separators to adjust columns' },
+  { tool: 'draw', label: 'Draw Table', icon: 'crop_free', hint: 'Drag over the page to mark a table' },
+  { tool: 'separator', label: 'Add Column', icon: 'vertical_split', hint: 'Click inside a table to split its columns there' },
+];
+
+const CORNERS: Corner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+// Drop separators that fell outside the box and keep the rest in order
+function normalizeSeparators(region: PageRegion): PageRegion {
+  const separators = region.columnSeparators
+    .filter((x) => x > region.left + SEPARATOR_MARGIN && x < region.right - SEPARATOR_MARGIN)
+    .sort((a, b) => a - b);
+  return { ...region, columnSeparators: separators };
+}
+
+/**
+ * Full-screen editor for the table areas on each page. The page is rendered to a canvas
+ * with the detected regions drawn over it; boxes can be drawn, moved, resized and deleted,
+ * and column separators placed by hand. Applying sends the regions back for extraction.
+ */
+export function RegionEditor({ openSession, fileName, initialRegions, onApply, onCancel }: RegionEditorProps) {
+  const [regions, setRegions] = useState<PageRegion[]>(initialRegions);
+  const [numPages, setNumPages] = useState(0);
+  const [pageNum, setPageNum] = useState(() =>
+    initialRegions.length > 0 ? Math.min(...initialRegions.map((region) => region.page)) : 1
+  );
+  const [pageSize, setPageSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<Tool>('select');
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<PageRegion | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const sessionRef = useRef<PdfSession | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  // Load the PDF once for the editor's lifetime
+  useEffect(() => {
+    let cancelled = false;
+
+    openSession()
+      .then((session) => {
+        if (cancelled) {
+          session.destroy();
+          return;
+        }
+        sessionRef.current = session;
+        setNumPages(session.numPages);
+      })
+      .catch((error) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Could not read this PDF');
+      });
+
+    return () => {
+      cancelled = true;
+      sessionRef.current?.destroy();
+      sessionRef.current = null;
+    };
+  }, [openSession]);
+
+  // Render the current page whenever it changes
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session || numPages === 0) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    session
+      .getPage(pageNum)
+      .then((page: PDFPageProxy) => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (cancelled || !canvas || !context) return;
+
+        const baseViewport = page.getViewport({ scale: 1 });
+        setPageSize({ width: baseViewport.width, height: baseViewport.height });
+
+        const viewport = page.getViewport({ scale: RENDER_SCALE });
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        renderTask = page.render({ canvasContext: context, viewport });
+        return renderTask.promise;
+      })
+      .catch((error) => {
+        // A cancelled render rejects - only real failures are worth showing
+        if (!cancelled && error?.name !== 'RenderingCancelledException') {
+          setLoadError(error instanceof Error ? error.message : 'Could not render this page');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [numPages, pageNum]);
+
+  const deleteSelected = useCallback(() => {
+    if (selectedIndex === null) return;
+    setRegions((prev) => prev.filter((_, index) => index !== selectedIndex));
+    setSelectedIndex(null);
+  }, [selectedIndex]);
+
+  // Delete or Backspace removes the selected box
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteSelected();
+      } else if (e.key === 'Escape') {
+        setSelectedIndex(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [deleteSelected]);
+
+  // Convert a pointer position to PDF points on the current page
+  const toPagePoint = (e: React.PointerEvent): Point | null => {
+    const overlay = overlayRef.current;
+    if (!overlay || !pageSize) return null;
+    const rect = overlay.getBoundingClientRect();
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * pageSize.width, 0, pageSize.width),
+      y: clamp(((e.clientY - rect.top) / rect.height) * pageSize.height, 0, pageSize.height),
+    };
+  };
+
+  const updateRegion = (index: number, region: PageRegion) => {
+    setRegions((prev) => prev.map((existing, i) => (i === index ? region : existing)));
+  };
+
+  const startDrag = (e: React.PointerEvent, drag: DragState) => {
+    e.stopPropagation();
+    dragRef.current = drag;
+    overlayRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handleOverlayPointerDown = (e: React.PointerEvent) => {
+    const point = toPagePoint(e);
+    if (!point) return;
+
+    if (tool === 'draw') {
+      startDrag(e, { kind: 'draw', start: point });
+      setDraft({ page: pageNum, left: point.x, top: point.y, right: point.x, bottom: point.y, columnSeparators: [] });
+    } else {
+      setSelectedIndex(null);
+    }
+  };
+
+  const handleRegionPointerDown = (e: React.PointerEvent, index: number) => {
+    if (tool === 'draw') return; // Let the overlay start a new box on top
+    const point = toPagePoint(e);
+    if (!point) return;
+
+    const region = regions[index];
+    setSelectedIndex(index);
+
+    if (tool === 'separator') {
+      e.stopPropagation();
+      updateRegion(index, normalizeSeparators({ ...region, columnSeparators: [...region.columnSeparators, point.x] }));
+      return;
+    }
+
+    startDrag(e, { kind: 'move', index, start: point, original: region });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const point = drag && toPagePoint(e);
+    if (!drag || !point || !pageSize) return;
+
+    if (drag.kind === 'draw') {
+      setDraft({
+        page: pageNum,
+        left: Math.min(drag.start.x, point.x),
+        top: Math.min(drag.start.y, point.y),
+        right: Math.max(drag.start.x, point.x),
+        bottom: Math.max(drag.start.y, point.y),
+        columnSeparators: [],
+      });
+    } else if (drag.kind === 'move') {
+      const { original } = drag;
+      // Keep the whole box on the page
+      const dx = clamp(point.x - drag.start.x, -original.left, pageSize.width - original.right);
+      const dy = clamp(point.y - drag.start.y, -original.top, pageSize.height - original.bottom);
+      updateRegion(drag.index, {
+        ...original,
+        left: original.left + dx,
+        right: original.right + dx,
+        top: original.top + dy,
+        bottom: original.bottom + dy,
+        columnSeparators: original.columnSeparators.map((x) => x + dx),
+      });
+    } else if (drag.kind === 'resize') {
+      const { original, corner } = drag;
+      const resized = { ...original };
+      if (corner.endsWith('left')) resized.left = Math.min(point.x, original.right - MIN_REGION_SIZE);
+      if (corner.endsWith('right')) resized.right = Math.max(point.x, original.left + MIN_REGION_SIZE);
+      if (corner.startsWith('top')) resized.top = Math.min(point.y, original.bottom - MIN_REGION_SIZE);
+      if (corner.startsWith('bottom')) resized.bottom = Math.max(point.y, original.top + MIN_REGION_SIZE);
+      updateRegion(drag.index, normalizeSeparators(resized));
+    } else {
+      const region = regions[drag.index];
+      const separators = [...region.columnSeparators];
+      separators[drag.separatorIndex] = clamp(
+        point.x,
+        region.left + SEPARATOR_MARGIN + 1,
+        region.right - SEPARATOR_MARGIN - 1
+      );
+      updateRegion(drag.index, { ...region, columnSeparators: separators });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (overlayRef.current?.hasPointerCapture(e.pointerId)) {
+      overlayRef.current.releasePointerCapture(e.pointerId);
+    }
+
+    if (drag?.kind === 'draw' && draft) {
+      if (draft.right - draft.left >= MIN_REGION_SIZE && draft.bottom - draft.top >= MIN_REGION_SIZE) {
+        setRegions((prev) => [...prev, draft]);
+        setSelectedIndex(regions.length);
+        setTool('select');
+      }
+      setDraft(null);
+    } else if (drag?.kind === 'separator') {
+      updateRegion(drag.index, normalizeSeparators(regions[drag.index]));
+    }
+  };
+
+  const removeSeparator = (index: number, separatorIndex: number) => {
+    const region = regions[index];
+    updateRegion(index, {
+      ...region,
+      columnSeparators: region.columnSeparators.filter((_, i) => i !== separatorIndex),
+    });
+  };
+
+  const goToPage = (page: number) => {
+    setPageNum(clamp(page, 1, numPages));
+    setSelectedIndex(null);
+  };
+
+  // Percent positions so the overlay follows the canvas at any display size
+  const boxStyle = (region: PageRegion): React.CSSProperties =>
+    pageSize
+      ? {
+          left: `${(region.left / pageSize.width) * 100}%`,
+          top: `${(region.top / pageSize.height) * 100}%`,
+          width: `${((region.right - region.left) / pageSize.width) * 100}%`,
+          height: `${((region.bottom - region.top) / pageSize.height) * 100}%`,
+        }
+      : {};
+
+  const pageRegions = regions
+    .map((region, index) => ({ region, index }))
+    .filter(({ region }) => region.page === pageNum);
+  const regionPages = new Set(regions.map((region) => region.page));
+  const activeHint = TOOLS.find((entry) => entry.tool === tool)?.hint;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-100 dark:bg-gray-900">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <span className="material-icons-round text-xl">arrow_back</span>
+            Back
+          </button>
+          <div className="h-6 w-px bg-gray-200 dark:bg-gray-700" />
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="material-icons-round text-green-600 text-xl">highlight_alt</span>
+            <span className="font-semibold text-gray-900 dark:text-white">Edit Table Regions</span>
+            {fileName && (
+              <span className="hidden md:inline truncate max-w-xs text-sm text-gray-500 dark:text-gray-400">
+                {fileName}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {/* Tools */}
+          <div className="inline-flex rounded-xl bg-gray-100 dark:bg-gray-700 p-1">
+            {TOOLS.map((entry) => (
+              <button
+                key={entry.tool}
+                type="button"
+                onClick={() => setTool(entry.tool)}
+                title={entry.hint}
+                className={cn(
+                  'flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm transition-colors',
+                  tool === entry.tool
+                    ? 'bg-white dark:bg-gray-800 font-semibold text-green-700 dark:text-green-300 shadow-sm'
+                    : 'font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                )}
+              >
+                <span className="material-icons-round text-base">{entry.icon}</span>
+                {entry.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={deleteSelected}
+            disabled={selectedIndex === null}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <span className="material-icons-round text-xl">delete</span>
+            Delete
+          </button>
+          <button
+            onClick={() => onApply(regions)}
+            disabled={regions.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-xl transition-colors disabled:opacity-50 disabled:pointer-events-none"
+          >
+            <span className="material-icons-round text-xl">check</span>
+            Extract {regions.length} Table{regions.length !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+
+      {/* Page navigation and hint */}
+      <div className="flex items-center justify-between px-4 py-2 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 text-sm">
+        <p className="text-gray-500 dark:text-gray-400">
+          {activeHint}. Double-click a separator to remove it.
+        </p>
+        {numPages > 0 && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => goToPage(pageNum - 1)}
+              disabled={pageNum <= 1}
+              aria-label="Previous page"
+              className="flex items-center rounded-lg p-1 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+            >
+              <span className="material-icons-round">chevron_left</span>
+            </button>
+            <span className="min-w-28 text-center font-medium text-gray-700 dark:text-gray-200">
+              Page {pageNum} of {numPages}
+              {regionPages.has(pageNum) && <span className="ml-1 text-green-600">•</span>}
+            </span>
+            <button
+              onClick={() => goToPage(pageNum + 1)}
+              disabled={pageNum >= numPages}
+              aria-label="Next page"
+              className="flex items-center rounded-lg p-1 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+            >
+              <span className="material-icons-round">chevron_right</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Page */}
+      <div className="flex-1 overflow-auto p-6">
+        {loadError ? (
+          <div className="mx-auto flex max-w-lg items-center gap-2 rounded-lg bg-destructive/10 px-4 py-3 text-sm text-destructive">
+            <span className="material-icons-round text-lg">error</span>
+            Couldn&apos;t show this PDF ({loadError})
+          </div>
+        ) : (
+          <div className="relative mx-auto w-full max-w-4xl bg-white shadow-lg">
+            <canvas ref={canvasRef} className={cn('block w-full h-auto', !pageSize && 'hidden')} />
+            {!pageSize && (
+              <div className="flex items-center justify-center gap-2 py-40 text-sm text-gray-500">
+                <span className="material-icons-round animate-spin">autorenew</span>
+                Rendering page...
+              </div>
+            )}
+
+            {/* Region overlay */}
+            <div
+              ref={overlayRef}
+              onPointerDown={handleOverlayPointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className={cn('absolute inset-0 touch-none select-none', tool === 'select' ? 'cursor-default' : 'cursor-crosshair')}
+            >
+              {pageRegions.map(({ region, index }) => {
+                const isSelected = index === selectedIndex;
+                return (
+                  <div
+                    key={index}
+                    style={boxStyle(region)}
+                    onPointerDown={(e) => handleRegionPointerDown(e, index)}
+                    className={cn(
+                      'absolute border-2 transition-colors',
+                      isSelected
+                        ? 'border-green-600 bg-green-500/15'
+                        : 'border-green-500/70 bg-green-400/10 hover:bg-green-400/20',
+                      tool === 'select' && 'cursor-move',
+                      tool === 'draw' && 'pointer-events-none'
+                    )}
+                  >
+                    {/* Column separators */}
+                    {region.columnSeparators.map((x, separatorIndex) => (
+                      <div
+                        key={separatorIndex}
+                        style={{ left: `${((x - region.left) / (region.right - region.left)) * 100}%` }}
+                        onPointerDown={(e) => {
+                          if (tool !== 'select') return;
+                          setSelectedIndex(index);
+                          startDrag(e, { kind: 'separator', index, separatorIndex });
+                        }}
+                        onDoubleClick={() => removeSeparator(index, separatorIndex)}
+                        title="Drag to move, double-click to remove"
+                        className="absolute inset-y-0 -ml-1.5 w-3 cursor-col-resize group"
+                      >
+                        <div className="mx-auto h-full w-0.5 bg-green-600 group-hover:bg-green-700 group-hover:w-1" />
+                      </div>
+                    ))}
+
+                    {/* Resize handles */}
+                    {isSelected &&
+                      tool === 'select' &&
+                      CORNERS.map((corner) => (
+                        <div
+                          key={corner}
+                          onPointerDown={(e) => startDrag(e, { kind: 'resize', index, corner, original: region })}
+                          className={cn(
+                            'absolute h-3 w-3 rounded-sm border-2 border-green-600 bg-white',
+                            corner === 'top-left' && '-left-1.5 -top-1.5 cursor-nwse-resize',
+                            corner === 'top-right' && '-right-1.5 -top-1.5 cursor-nesw-resize',
+                            corner === 'bottom-left' && '-left-1.5 -bottom-1.5 cursor-nesw-resize',
+                            corner === 'bottom-right' && '-right-1.5 -bottom-1.5 cursor-nwse-resize'
+                          )}
+                        />
+                      ))}
+                  </div>
+                );
+              })}
+
+              {/* Box being drawn */}
+              {draft && (
+                <div style={boxStyle(draft)} className="absolute border-2 border-dashed border-green-600 bg-green-400/10" />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
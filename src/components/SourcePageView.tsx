@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useRef, useEffect, type MouseEvent as ReactMouseEvent } from 'react';
+import type { PDFPageProxy, RenderTask } from 'pdfjs-dist';
+import { cn } from '@/lib/utils';
+import { getBoundingBox } from '@/lib/sourceBoxes';
+import type { PdfSession } from '@/lib/pdfParser';
+import type { SourceBox } from '@/lib/types';
+
+interface SourcePageViewProps {
+  openSession: () => Promise<PdfSession>;
+  highlights: SourceBox[]; // Text the current selection was read from
+  initialPage?: number;
+  onPointSelect?: (page: number, x: number, y: number) => void; // Click on the page, in PDF points
+  onClose: () => void;
+}
+
+const RENDER_SCALE = 2; // Canvas pixels per PDF point - sharp on high-DPI screens
+
+/**
+ * Renders one page of the source PDF with the boxes behind the selected output highlighted.
+ * The view follows the highlights to their page; clicking the page reports the point so the
+ * preview can select whatever was read from there.
+ */
+export function SourcePageView({ openSession, highlights, initialPage = 1, onPointSelect, onClose }: SourcePageViewProps) {
+  const [numPages, setNumPages] = useState(0);
+  const [pageNum, setPageNum] = useState(highlights[0]?.page ?? initialPage);
+  const [pageSize, setPageSize] = useState<{ width: number; height: number } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const sessionRef = useRef<PdfSession | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const focusRef = useRef<HTMLDivElement>(null);
+
+  // Jump to the page of a new selection, but leave manual paging alone while it stays the same
+  const highlightPage = highlights[0]?.page ?? null;
+  const [followedPage, setFollowedPage] = useState(highlightPage);
+  if (highlightPage !== followedPage) {
+    setFollowedPage(highlightPage);
+    if (highlightPage !== null) setPageNum(highlightPage);
+  }
+
+  // Load the PDF once for the view's lifetime
+  useEffect(() => {
+    let cancelled = false;
+
+    openSession()
+      .then((session) => {
+        if (cancelled) {
+          session.destroy();
+          return;
+        }
+        sessionRef.current = session;
+        setNumPages(session.numPages);
+      })
+      .catch((error) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Could not read this PDF');
+      });
+
+    return () => {
+      cancelled = true;
+      sessionRef.current?.destroy();
+      sessionRef.current = null;
+    };
+  }, [openSession]);
+
+  // Render the current page whenever it changes
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session || numPages === 0 || pageNum > numPages) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    session
+      .getPage(pageNum)
+      .then((page: PDFPageProxy) => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (cancelled || !canvas || !context) return;
+
+        const baseViewport = page.getViewport({ scale: 1 });
+        setPageSize({ width: baseViewport.width, height: baseViewport.height });
+
+        const viewport = page.getViewport({ scale: RENDER_SCALE });
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        renderTask = page.render({ canvasContext: context, viewport });
+        return renderTask.promise;
+      })
+      .catch((error) => {
+        // A cancelled render rejects - only real failures are worth showing
+        if (!cancelled && error?.name !== 'RenderingCancelledException') {
+          setLoadError(error instanceof Error ? error.message : 'Could not render this page');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [numPages, pageNum]);
+
+  const focus = getBoundingBox(highlights, pageNum);
+
+  // Bring the highlighted text into view when the selection moves
+  useEffect(() => {
+    focusRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest', behavior: 'smooth' });
+  }, [focus?.left, focus?.top, focus?.right, focus?.bottom, pageSize]);
+
+  // Percent positions so the highlights follow the canvas at any display size
+  const boxStyle = (box: SourceBox): React.CSSProperties =>
+    pageSize
+      ? {
+          left: `${(box.left / pageSize.width) * 100}%`,
+          top: `${(box.top / pageSize.height) * 100}%`,
+          width: `${((box.right - box.left) / pageSize.width) * 100}%`,
+          height: `${((box.bottom - box.top) / pageSize.height) * 100}%`,
+        }
+      : {};
+
+  const handleClick = (e: ReactMouseEvent<HTMLDivElement>) => {
+    if (!pageSize || !onPointSelect) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPointSelect(
+      pageNum,
+      ((e.clientX - rect.left) / rect.width) * pageSize.width,
+      ((e.clientY - rect.top) / rect.height) * pageSize.height
+    );
+  };
+
+  const goToPage = (page: number) => setPageNum(Math.min(Math.max(page, 1), numPages));
+
+  return (
+    <div className="flex h-full flex-col bg-gray-100 dark:bg-gray-900">
+      {/* Page navigation */}
+      <div className="flex items-center justify-between gap-2 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-1.5 text-sm">
+        <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300">
+          <span className="material-icons-round text-lg text-gray-400">picture_as_pdf</span>
+          Source
+        </div>
+        {numPages > 0 && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => goToPage(pageNum - 1)}
+              disabled={pageNum <= 1}
+              aria-label="Previous page"
+              className="flex items-center rounded-lg p-0.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+            >
+              <span className="material-icons-round">chevron_left</span>
+            </button>
+            <span className="min-w-24 text-center text-gray-700 dark:text-gray-200">
+              Page {pageNum} of {numPages}
+            </span>
+            <button
+              onClick={() => goToPage(pageNum + 1)}
+              disabled={pageNum >= numPages}
+              aria-label="Next page"
+              className="flex items-center rounded-lg p-0.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+            >
+              <span className="material-icons-round">chevron_right</span>
+            </button>
+          </div>
+        )}
+        <button
+          onClick={onClose}
+          aria-label="Hide source"
+          className="flex items-center rounded-lg p-0.5 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          <span className="material-icons-round text-xl">close</span>
+        </button>
+      </div>
+
+      {/* Page */}
+      <div className="flex-1 overflow-auto p-4">
+        {loadError ? (
+          <div className="flex items-center gap-2 rounded-lg bg-destructive/10 px-4 py-3 text-sm text-destructive">
+            <span className="material-icons-round text-lg">error</span>
+            Couldn&apos;t show this PDF ({loadError})
+          </div>
+        ) : (
+          <div className="relative mx-auto w-full max-w-3xl bg-white shadow-lg">
+            <canvas ref={canvasRef} className={cn('block w-full h-auto', !pageSize && 'hidden')} />
+            {!pageSize && (
+              <div className="flex items-center justify-center gap-2 py-40 text-sm text-gray-500">
+                <span className="material-icons-round animate-spin">autorenew</span>
+                Rendering page...
+              </div>
+            )}
+
+            {/* Highlight overlay */}
+            <div
+              onClick={handleClick}
+              className={cn('absolute inset-0 select-none', onPointSelect && 'cursor-pointer')}
+            >
+              {focus && <div ref={focusRef} style={boxStyle(focus)} className="absolute pointer-events-none" />}
+              {highlights
+                .filter((box) => box.page === pageNum)
+                .map((box, index) => (
+                  <div
+                    key={index}
+                    style={boxStyle(box)}
+                    className="absolute pointer-events-none rounded-sm bg-yellow-300/40 ring-2 ring-yellow-500/80"
+                  />
+                ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,53 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback, type KeyboardEvent as ReactKeyboardEvent, type MouseEvent as ReactMouseEvent } from 'react';
 import { cn } from '@/lib/utils';
-import type { ConversionResult } from '@/lib/types';
+import { copyRowsToClipboard, type CopyFormat } from '@/lib/clipboard';
+import { reanalyzeTable, type EnhancedExtractedTable } from '@/lib/tableExtractor';
+import { ColumnFormatMenu, COLUMN_FORMAT_MENU_WIDTH } from '@/components/ColumnFormatMenu';
+import { SourcePageView } from '@/components/SourcePageView';
+import { boxContainsPoint } from '@/lib/sourceBoxes';
+import type { PdfSession } from '@/lib/pdfParser';
+import {
+  updateTable,
+  getHeaderRowCount,
+  setCellValue,
+  clearCells,
+  setLetterheadLine,
+  insertRows,
+  deleteRows,
+  insertColumns,
+  deleteColumns,
+  mergeColumns,
+  splitColumn,
+  setHeaderRowCount,
+  promoteLetterhead,
+  demoteRows,
+  getColumnFormats,
+  setColumnFormat,
+} from '@/lib/tableEdits';
+import type { NumberLocale } from '@/lib/numberFormat';
+import type { ColumnFormat, ConversionResult, ExtractedTable, SourceBox } from '@/lib/types';
 
 interface SpreadsheetPreviewProps {
   result: ConversionResult;
   onDownload: () => void;
+  downloadLabel?: string;
   onBack: () => void;
+  typedExport?: boolean;
+  onTypedExportChange?: (typed: boolean) => void;
+  numberLocale?: NumberLocale;
+  onNumberLocaleChange?: (locale: NumberLocale) => void; // Re-reads the tables with the new convention
+  onEditRegions?: () => void; // Opens the region editor to fix what table detection found
+  onOpenTemplates?: () => void;
+  templateSuggested?: boolean; // A saved template matches this PDF's letterhead
+  // Editing - the preview is read-only without onEdit
+  onEdit?: (edit: (result: ConversionResult) => ConversionResult) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  openSourceSession?: () => Promise<PdfSession>; // Enables the side-by-side source page
 }
 
 interface CellPosition {
@@ -16,12 +56,86 @@ interface CellPosition {
   col: number;
 }
 
-export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPreviewProps) {
+// Cell being typed into (row counts letterhead lines first, like the selection)
+interface CellEdit {
+  row: number;
+  col: number;
+  value: string;
+}
+
+// Approximate size of the cell context menu, used to keep it inside the window
+const CONTEXT_MENU_WIDTH = 208;
+const CONTEXT_MENU_HEIGHT = 150;
+
+function EditButton({
+  icon,
+  label,
+  title,
+  onClick,
+  disabled = false,
+  active = false,
+}: {
+  icon: string;
+  label?: string;
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  active?: boolean;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      aria-label={title}
+      aria-pressed={active || undefined}
+      className={cn(
+        'flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-40 disabled:pointer-events-none',
+        active
+          ? 'bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300'
+          : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+      )}
+    >
+      <span className="material-icons-round text-base">{icon}</span>
+      {label}
+    </button>
+  );
+}
+
+export function SpreadsheetPreview({
+  result,
+  onDownload,
+  downloadLabel = 'Download Excel',
+  onBack,
+  typedExport = false,
+  onTypedExportChange,
+  numberLocale = 'auto',
+  onNumberLocaleChange,
+  onEditRegions,
+  onOpenTemplates,
+  templateSuggested = false,
+  onEdit,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  openSourceSession,
+}: SpreadsheetPreviewProps) {
   const [activeTab, setActiveTab] = useState(0);
   const [selectedCell, setSelectedCell] = useState<CellPosition | null>(null);
   const [selectedRange, setSelectedRange] = useState<{ start: CellPosition; end: CellPosition } | null>(null);
   const [isSelecting, setIsSelecting] = useState(false);
+  const [editingCell, setEditingCell] = useState<CellEdit | null>(null);
+  // Guards against committing twice (Enter, then the blur as the input unmounts)
+  const editingCellRef = useRef<CellEdit | null>(null);
+  const [splitDelimiter, setSplitDelimiter] = useState<string | null>(null); // Shown while choosing a delimiter
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null);
+  const [copyNotice, setCopyNotice] = useState<string | null>(null);
+  const [columnMenu, setColumnMenu] = useState<{ col: number; x: number; y: number } | null>(null);
+  const [showSource, setShowSource] = useState(false);
+  const copyNoticeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const tableRef = useRef<HTMLDivElement>(null);
+  const isEditable = !!onEdit;
 
   const tables = result.tables;
   const activeTable = tables[activeTab];
@@ -43,8 +157,9 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
     setSelectedRange(null);
   };
 
-  // Handle cell mouse down for range selection
-  const handleCellMouseDown = (row: number, col: number) => {
+  // Handle cell mouse down for range selection (a right click keeps the selection for the context menu)
+  const handleCellMouseDown = (e: ReactMouseEvent, row: number, col: number) => {
+    if (e.button !== 0) return;
     setIsSelecting(true);
     const pos = { tableIndex: activeTab, row, col };
     setSelectedCell(pos);
@@ -89,53 +204,368 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
   // Get letterhead rows count for this table
   const letterheadRows = activeTable?.letterhead || [];
   const letterheadCount = letterheadRows.length;
+  const headerRowCount = activeTable ? getHeaderRowCount(activeTable) : 0;
 
   // Total rows including letterhead
   const totalRowCount = letterheadCount + (activeTable?.rows.length || 0);
 
-  // Keyboard navigation
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (!selectedCell || selectedCell.tableIndex !== activeTab) return;
-
-      const { row, col } = selectedCell;
-      let newRow = row;
-      let newCol = col;
-
-      switch (e.key) {
-        case 'ArrowUp':
-          newRow = Math.max(0, row - 1);
-          break;
-        case 'ArrowDown':
-          newRow = Math.min(totalRowCount - 1, row + 1);
-          break;
-        case 'ArrowLeft':
-          newCol = Math.max(0, col - 1);
-          break;
-        case 'ArrowRight':
-          newCol = Math.min(maxColumns - 1, col + 1);
-          break;
-        case 'Tab':
-          e.preventDefault();
-          if (e.shiftKey) {
-            newCol = col > 0 ? col - 1 : maxColumns - 1;
-            if (col === 0) newRow = Math.max(0, row - 1);
-          } else {
-            newCol = col < maxColumns - 1 ? col + 1 : 0;
-            if (col === maxColumns - 1) newRow = Math.min(totalRowCount - 1, row + 1);
+  // Selected block in display rows (letterhead first), or null when nothing on this tab is selected
+  const selection =
+    selectedCell && selectedCell.tableIndex === activeTab
+      ? selectedRange && selectedRange.start.tableIndex === activeTab
+        ? {
+            minRow: Math.min(selectedRange.start.row, selectedRange.end.row),
+            maxRow: Math.max(selectedRange.start.row, selectedRange.end.row),
+            minCol: Math.min(selectedRange.start.col, selectedRange.end.col),
+            maxCol: Math.max(selectedRange.start.col, selectedRange.end.col),
           }
-          break;
-        default:
-          return;
+        : { minRow: selectedCell.row, maxRow: selectedCell.row, minCol: selectedCell.col, maxCol: selectedCell.col }
+      : null;
+  const inLetterhead = !!selection && selection.minRow < letterheadCount;
+  const inTable = !!selection && selection.minRow >= letterheadCount;
+  const firstRow = selection?.minRow ?? 0;
+  const firstCol = selection?.minCol ?? 0;
+  const lastCol = selection?.maxCol ?? 0;
+  // Selection as table row indexes (only meaningful when inTable)
+  const firstDataRow = firstRow - letterheadCount;
+  const lastDataRow = (selection?.maxRow ?? 0) - letterheadCount;
+
+  const editTable = (edit: (table: ExtractedTable) => ExtractedTable) => {
+    onEdit?.((current) => updateTable(current, activeTab, edit));
+  };
+
+  // Structural edits can leave the old selection pointing past the table
+  const selectCell = (row: number, col: number) => {
+    setSelectedCell({ tableIndex: activeTab, row: Math.max(0, row), col: Math.max(0, col) });
+    setSelectedRange(null);
+  };
+
+  const startEditing = (row: number, col: number, initialValue?: string) => {
+    if (!isEditable || !activeTable) return;
+    const isLetterhead = row < letterheadCount;
+    const current = isLetterhead
+      ? letterheadRows[row] || ''
+      : activeTable.rows[row - letterheadCount]?.[col] || '';
+    const edit = { row, col: isLetterhead ? 0 : col, value: initialValue ?? current };
+    editingCellRef.current = edit;
+    setEditingCell(edit);
+  };
+
+  const commitEditing = (move?: { rows: number; cols: number }) => {
+    const edit = editingCellRef.current;
+    if (!edit) return;
+    editingCellRef.current = null;
+    setEditingCell(null);
+
+    editTable((table) =>
+      edit.row < letterheadCount
+        ? setLetterheadLine(table, edit.row, edit.value)
+        : setCellValue(table, edit.row - letterheadCount, edit.col, edit.value)
+    );
+    if (move) {
+      selectCell(
+        Math.min(edit.row + move.rows, totalRowCount - 1),
+        Math.min(edit.col + move.cols, Math.max(maxColumns - 1, 0))
+      );
+    }
+  };
+
+  const cancelEditing = () => {
+    editingCellRef.current = null;
+    setEditingCell(null);
+  };
+
+  const handleEditorKeyDown = (e: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitEditing({ rows: 1, cols: 0 });
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      commitEditing({ rows: 0, cols: e.shiftKey ? -1 : 1 });
+    } else if (e.key === 'Escape') {
+      cancelEditing();
+    }
+  };
+
+  const clearSelectedCells = () => {
+    if (!inTable) return;
+    editTable((table) => clearCells(table, firstDataRow, lastDataRow, firstCol, lastCol));
+  };
+
+  const handleDeleteRows = () => {
+    const count = lastDataRow - firstDataRow + 1;
+    editTable((table) => deleteRows(table, firstDataRow, count));
+    selectCell(Math.min(firstRow, totalRowCount - count - 1), firstCol);
+  };
+
+  const handleDeleteColumns = () => {
+    const count = lastCol - firstCol + 1;
+    editTable((table) => deleteColumns(table, firstCol, count));
+    selectCell(firstRow, Math.min(firstCol, maxColumns - count - 1));
+  };
+
+  // The selected block as text rows. A letterhead line fills the whole width, so its text
+  // goes in the first column of the block.
+  const getSelectedRows = (): string[][] => {
+    if (!selection || !activeTable) return [];
+    const rows: string[][] = [];
+    for (let row = selection.minRow; row <= selection.maxRow; row++) {
+      const width = selection.maxCol - selection.minCol + 1;
+      rows.push(
+        row < letterheadCount
+          ? Array.from({ length: width }, (_, i) => (i === 0 ? letterheadRows[row] || '' : ''))
+          : Array.from({ length: width }, (_, i) => activeTable.rows[row - letterheadCount]?.[selection.minCol + i] || '')
+      );
+    }
+    return rows;
+  };
+
+  const showCopyNotice = (message: string) => {
+    if (copyNoticeTimerRef.current) clearTimeout(copyNoticeTimerRef.current);
+    setCopyNotice(message);
+    copyNoticeTimerRef.current = setTimeout(() => setCopyNotice(null), 2500);
+  };
+
+  const copySelection = async (format: CopyFormat) => {
+    setContextMenu(null);
+    if (!selection) return;
+
+    // Selected header rows become <th> cells when pasted as HTML
+    const copiedHeaderRows = inTable ? Math.max(0, Math.min(lastDataRow + 1, headerRowCount) - firstDataRow) : 0;
+    const rowCount = selection.maxRow - selection.minRow + 1;
+    const colCount = selection.maxCol - selection.minCol + 1;
+    try {
+      await copyRowsToClipboard(getSelectedRows(), format, copiedHeaderRows);
+      const as = format === 'csv' ? ' as CSV' : format === 'markdown' ? ' as Markdown' : '';
+      showCopyNotice(`Copied ${rowCount} x ${colCount} cell${rowCount * colCount !== 1 ? 's' : ''}${as}`);
+    } catch {
+      showCopyNotice('Copy failed - the browser blocked clipboard access');
+    }
+  };
+
+  const selectAll = () => {
+    setContextMenu(null);
+    if (!activeTable || totalRowCount === 0) return;
+    const lastCell = { tableIndex: activeTab, row: totalRowCount - 1, col: Math.max(maxColumns - 1, 0) };
+    setSelectedCell({ tableIndex: activeTab, row: 0, col: 0 });
+    setSelectedRange({ start: { tableIndex: activeTab, row: 0, col: 0 }, end: lastCell });
+  };
+
+  const handleCellContextMenu = (e: ReactMouseEvent, row: number, col: number) => {
+    e.preventDefault();
+    if (editingCellRef.current) commitEditing();
+    // Right-clicking outside the selection selects the clicked cell, as in a spreadsheet
+    if (!isCellInRange(row, col) && !isCellSelected(row, col)) {
+      handleCellClick(row, col);
+    }
+    // Keep the menu on screen near the right and bottom edges
+    setContextMenu({
+      x: Math.min(e.clientX, window.innerWidth - CONTEXT_MENU_WIDTH),
+      y: Math.min(e.clientY, window.innerHeight - CONTEXT_MENU_HEIGHT),
+    });
+  };
+
+  const columnFormats = activeTable ? getColumnFormats(activeTable) : undefined;
+  const columnTypes = (activeTable as EnhancedExtractedTable | undefined)?.metadata?.columnTypes;
+
+  const openColumnMenu = (e: ReactMouseEvent<HTMLElement>, col: number) => {
+    if (!isEditable) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setContextMenu(null);
+    setColumnMenu({ col, x: Math.min(rect.left, window.innerWidth - COLUMN_FORMAT_MENU_WIDTH - 8), y: rect.bottom });
+  };
+
+  // The type the column would have without the hand-set format
+  const getDetectedType = (col: number) => {
+    if (!activeTable) return 'text';
+    const table = columnFormats?.[col]
+      ? reanalyzeTable(activeTable, headerRowCount, undefined, [])
+      : (activeTable as EnhancedExtractedTable);
+    return table.metadata?.columnTypes[col] ?? 'text';
+  };
+
+  const closeColumnMenu = useCallback(() => setColumnMenu(null), []);
+
+  const handleColumnFormatChange = (col: number, format: ColumnFormat | null) => {
+    editTable((table) => setColumnFormat(table, col, format));
+  };
+
+  const applySplit = () => {
+    if (!inTable || !splitDelimiter) return;
+    const delimiter = splitDelimiter === '\\t' ? '\t' : splitDelimiter;
+    editTable((table) => splitColumn(table, firstCol, delimiter));
+    setSplitDelimiter(null);
+  };
+
+  // Boxes the selected cells were read from (letterhead lines have none)
+  const selectedSources: SourceBox[] = [];
+  if (inTable && activeTable?.cellSources) {
+    for (let row = firstDataRow; row <= lastDataRow; row++) {
+      for (let col = firstCol; col <= lastCol; col++) {
+        selectedSources.push(...(activeTable.cellSources[row]?.[col] ?? []));
       }
+    }
+  }
+
+  // Select the cell read from a clicked point of the source page, preferring the open tab
+  const handleSourcePointSelect = (page: number, x: number, y: number) => {
+    const order = [activeTab, ...tables.map((_, index) => index).filter((index) => index !== activeTab)];
+    for (const tableIndex of order) {
+      const sources = tables[tableIndex].cellSources;
+      const row = sources?.findIndex((rowSources) =>
+        rowSources.some((boxes) => boxes.some((box) => boxContainsPoint(box, page, x, y)))
+      );
+      if (!sources || row === undefined || row < 0) continue;
 
-      setSelectedCell({ tableIndex: activeTab, row: newRow, col: newCol });
+      const col = sources[row].findIndex((boxes) => boxes.some((box) => boxContainsPoint(box, page, x, y)));
+      if (editingCellRef.current) commitEditing();
+      if (tableIndex !== activeTab) {
+        setActiveTab(tableIndex);
+        setColumnMenu(null);
+      }
+      setSelectedCell({ tableIndex, row: (tables[tableIndex].letterhead?.length ?? 0) + row, col });
       setSelectedRange(null);
+      return;
+    }
+  };
+
+  // Keyboard navigation and editing shortcuts
+  const handleKeyDown = (e: KeyboardEvent) => {
+    // Typing in the cell editor or another field
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+
+    if (contextMenu && e.key === 'Escape') {
+      setContextMenu(null);
+      return;
+    }
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'a') {
+      e.preventDefault();
+      selectAll();
+      return;
+    }
+
+    if (isEditable && (e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) onRedo?.();
+      else onUndo?.();
+      return;
+    }
+    if (isEditable && (e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+      e.preventDefault();
+      onRedo?.();
+      return;
+    }
+
+    if (!selectedCell || selectedCell.tableIndex !== activeTab) return;
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'c') {
+      e.preventDefault();
+      copySelection('grid');
+      return;
+    }
+
+    if (isEditable) {
+      if (e.key === 'Enter' || e.key === 'F2') {
+        e.preventDefault();
+        startEditing(selectedCell.row, selectedCell.col);
+        return;
+      }
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        clearSelectedCells();
+        return;
+      }
+      // Typing over a cell replaces its content, as in a spreadsheet
+      if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        e.preventDefault();
+        startEditing(selectedCell.row, selectedCell.col, e.key);
+        return;
+      }
+    }
+
+    const { row, col } = selectedCell;
+    let newRow = row;
+    let newCol = col;
+
+    switch (e.key) {
+      case 'ArrowUp':
+        newRow = Math.max(0, row - 1);
+        break;
+      case 'ArrowDown':
+        newRow = Math.min(totalRowCount - 1, row + 1);
+        break;
+      case 'ArrowLeft':
+        newCol = Math.max(0, col - 1);
+        break;
+      case 'ArrowRight':
+        newCol = Math.min(maxColumns - 1, col + 1);
+        break;
+      case 'Tab':
+        e.preventDefault();
+        if (e.shiftKey) {
+          newCol = col > 0 ? col - 1 : maxColumns - 1;
+          if (col === 0) newRow = Math.max(0, row - 1);
+        } else {
+          newCol = col < maxColumns - 1 ? col + 1 : 0;
+          if (col === maxColumns - 1) newRow = Math.min(totalRowCount - 1, row + 1);
+        }
+        break;
+      default:
+        return;
+    }
+
+    setSelectedCell({ tableIndex: activeTab, row: newRow, col: newCol });
+    setSelectedRange(null);
+  };
+
+  // The window listener is attached once and always calls the latest handler
+  const handleKeyDownRef = useRef(handleKeyDown);
+  useEffect(() => {
+    handleKeyDownRef.current = handleKeyDown;
+  });
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => handleKeyDownRef.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
+  // Close the context menu on any click or scroll outside it
+  useEffect(() => {
+    if (!contextMenu) return;
+    const close = () => setContextMenu(null);
+    window.addEventListener('mousedown', close);
+    window.addEventListener('scroll', close, true);
+    window.addEventListener('resize', close);
+    return () => {
+      window.removeEventListener('mousedown', close);
+      window.removeEventListener('scroll', close, true);
+      window.removeEventListener('resize', close);
+    };
+  }, [contextMenu]);
+
+  useEffect(() => {
+    return () => {
+      if (copyNoticeTimerRef.current) clearTimeout(copyNoticeTimerRef.current);
     };
+  }, []);
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedCell, activeTab, activeTable, maxColumns, totalRowCount]);
+  const renderCellEditor = () => (
+    <input
+      autoFocus
+      value={editingCell?.value ?? ''}
+      onChange={(e) => {
+        const next = editingCell && { ...editingCell, value: e.target.value };
+        editingCellRef.current = next;
+        setEditingCell(next);
+      }}
+      onKeyDown={handleEditorKeyDown}
+      onBlur={() => commitEditing()}
+      onMouseDown={(e) => e.stopPropagation()}
+      aria-label="Cell value"
+      className="w-full min-w-0 bg-white dark:bg-gray-900 px-1 -mx-1 text-sm text-gray-900 dark:text-white outline-none ring-2 ring-green-500 rounded-sm"
+    />
+  );
 
   if (!tables.length) {
     return (
@@ -178,12 +608,80 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
               )}
             </div>
           )}
+          {onTypedExportChange && (
+            <label
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 cursor-pointer select-none"
+              title="Write date and number columns as real Excel values so they can be sorted and used in formulas"
+            >
+              <input
+                type="checkbox"
+                checked={typedExport}
+                onChange={(e) => onTypedExportChange(e.target.checked)}
+                className="h-4 w-4 rounded accent-green-600"
+              />
+              Typed dates &amp; numbers
+            </label>
+          )}
+          {onNumberLocaleChange && (
+            <label
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300"
+              title="How amounts are written in the PDF. Changing it reads the tables again and drops hand edits."
+            >
+              Numbers
+              <select
+                value={numberLocale}
+                onChange={(e) => onNumberLocaleChange(e.target.value as NumberLocale)}
+                className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-sm"
+              >
+                <option value="auto">Detect</option>
+                <option value="en">1,234.56</option>
+                <option value="eu">1.234,56</option>
+              </select>
+            </label>
+          )}
+          {onOpenTemplates && (
+            <button
+              onClick={onOpenTemplates}
+              title={templateSuggested ? 'A saved template matches this PDF' : 'Save or apply an extraction template'}
+              className="relative flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <span className="material-icons-round text-xl">bookmarks</span>
+              Templates
+              {templateSuggested && <span className="absolute right-1.5 top-1.5 h-2 w-2 rounded-full bg-green-500" />}
+            </button>
+          )}
+          {openSourceSession && (
+            <button
+              onClick={() => setShowSource((shown) => !shown)}
+              aria-pressed={showSource}
+              title="Show the PDF page beside the table and highlight where the selected cells came from"
+              className={cn(
+                'flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-colors',
+                showSource
+                  ? 'bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+              )}
+            >
+              <span className="material-icons-round text-xl">vertical_split</span>
+              Source
+            </button>
+          )}
+          {onEditRegions && (
+            <button
+              onClick={onEditRegions}
+              title="Draw, resize or delete table areas and place column separators by hand"
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <span className="material-icons-round text-xl">highlight_alt</span>
+              Edit Regions
+            </button>
+          )}
           <button
             onClick={onDownload}
             className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-xl transition-colors"
           >
             <span className="material-icons-round text-xl">download</span>
-            Download Excel
+            {downloadLabel}
           </button>
         </div>
       </div>
@@ -197,7 +695,9 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
         </div>
         <div className="mx-2 h-6 w-px bg-gray-200 dark:bg-gray-700" />
         <div className="flex-1 px-3 py-1 bg-gray-50 dark:bg-gray-900 rounded text-sm text-gray-900 dark:text-white overflow-hidden text-ellipsis whitespace-nowrap">
-          {selectedCell && selectedCell.tableIndex === activeTab
+          {editingCell
+            ? editingCell.value
+            : selectedCell && selectedCell.tableIndex === activeTab
             ? selectedCell.row < letterheadCount
               ? letterheadRows[selectedCell.row] || '' // Letterhead row
               : activeTable?.rows[selectedCell.row - letterheadCount]?.[selectedCell.col] || '' // Table data row
@@ -205,9 +705,138 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
         </div>
       </div>
 
+      {/* Edit toolbar */}
+      {isEditable && (
+        <div className="flex flex-wrap items-center gap-1 px-4 py-1.5 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+          <EditButton icon="undo" title="Undo (Ctrl+Z)" onClick={() => onUndo?.()} disabled={!canUndo} />
+          <EditButton icon="redo" title="Redo (Ctrl+Shift+Z)" onClick={() => onRedo?.()} disabled={!canRedo} />
+          <div className="mx-1 h-5 w-px bg-gray-200 dark:bg-gray-700" />
+          <EditButton
+            icon="add"
+            label="Row above"
+            title="Insert a row above the selection"
+            disabled={!inTable}
+            onClick={() => editTable((table) => insertRows(table, firstDataRow))}
+          />
+          <EditButton
+            icon="add"
+            label="Row below"
+            title="Insert a row below the selection"
+            disabled={!inTable}
+            onClick={() => editTable((table) => insertRows(table, lastDataRow + 1))}
+          />
+          <EditButton
+            icon="remove"
+            label="Delete rows"
+            title="Delete the selected rows"
+            disabled={!inTable || lastDataRow - firstDataRow + 1 >= (activeTable?.rows.length ?? 0)}
+            onClick={handleDeleteRows}
+          />
+          <div className="mx-1 h-5 w-px bg-gray-200 dark:bg-gray-700" />
+          <EditButton
+            icon="add"
+            label="Column left"
+            title="Insert a column left of the selection"
+            disabled={!inTable}
+            onClick={() => editTable((table) => insertColumns(table, firstCol))}
+          />
+          <EditButton
+            icon="add"
+            label="Column right"
+            title="Insert a column right of the selection"
+            disabled={!inTable}
+            onClick={() => editTable((table) => insertColumns(table, lastCol + 1))}
+          />
+          <EditButton
+            icon="remove"
+            label="Delete columns"
+            title="Delete the selected columns"
+            disabled={!inTable || lastCol - firstCol + 1 >= maxColumns}
+            onClick={handleDeleteColumns}
+          />
+          <EditButton
+            icon="call_merge"
+            label="Merge right"
+            title="Merge the selected column with the one to its right"
+            disabled={!inTable || firstCol >= maxColumns - 1}
+            onClick={() => editTable((table) => mergeColumns(table, firstCol))}
+          />
+          {splitDelimiter === null ? (
+            <EditButton
+              icon="call_split"
+              label="Split"
+              title="Split the selected column on a delimiter"
+              disabled={!inTable}
+              onClick={() => setSplitDelimiter(',')}
+            />
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                applySplit();
+              }}
+              className="flex items-center gap-1 rounded-md bg-gray-100 dark:bg-gray-700 px-2 py-0.5 text-xs text-gray-600 dark:text-gray-300"
+            >
+              Split {getColumnLabel(firstCol)} on
+              <input
+                value={splitDelimiter}
+                onChange={(e) => setSplitDelimiter(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setSplitDelimiter(null)}
+                autoFocus
+                aria-label="Delimiter"
+                title="Text to split on - a single space also splits on runs of spaces, \t is a tab"
+                className="w-12 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-900 px-1 py-0.5 font-mono text-gray-900 dark:text-white outline-none"
+              />
+              <button type="submit" disabled={!splitDelimiter || !inTable} className="font-semibold text-green-700 dark:text-green-400 disabled:opacity-40">
+                Apply
+              </button>
+              <button type="button" onClick={() => setSplitDelimiter(null)} aria-label="Cancel split">
+                <span className="material-icons-round text-sm">close</span>
+              </button>
+            </form>
+          )}
+          <div className="mx-1 h-5 w-px bg-gray-200 dark:bg-gray-700" />
+          <EditButton
+            icon="title"
+            label="Header row"
+            title={
+              inTable && firstDataRow < headerRowCount
+                ? 'Unmark this row (and the rows below it) as header'
+                : 'Mark the rows down to this one as the header'
+            }
+            active={inTable && firstDataRow < headerRowCount}
+            disabled={!inTable}
+            onClick={() =>
+              editTable((table) =>
+                setHeaderRowCount(table, firstDataRow < headerRowCount ? firstDataRow : lastDataRow + 1)
+              )
+            }
+          />
+          {inLetterhead ? (
+            <EditButton
+              icon="arrow_downward"
+              label="Move into table"
+              title="Move this letterhead line (and the lines below it) into the table"
+              onClick={() => {
+                editTable((table) => promoteLetterhead(table, firstRow));
+                selectCell(firstRow, 0);
+              }}
+            />
+          ) : (
+            <EditButton
+              icon="arrow_upward"
+              label="Move to letterhead"
+              title="Move the table rows down to this one into the letterhead"
+              disabled={!inTable || lastDataRow + 1 >= (activeTable?.rows.length ?? 0)}
+              onClick={() => editTable((table) => demoteRows(table, lastDataRow))}
+            />
+          )}
+        </div>
+      )}
+
       {/* Spreadsheet Area */}
-      <div className="flex-1 overflow-hidden">
-        <div ref={tableRef} className="h-full overflow-auto">
+      <div className="flex-1 flex overflow-hidden">
+        <div ref={tableRef} className={cn('h-full overflow-auto', showSource ? 'w-1/2' : 'flex-1')}>
           <table className="border-collapse min-w-full">
             {/* Column Headers */}
             <thead className="sticky top-0 z-10">
@@ -215,14 +844,31 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
                 {/* Row number header */}
                 <th className="sticky left-0 z-20 w-12 min-w-12 bg-gray-200 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-xs font-medium text-gray-500 dark:text-gray-400" />
                 {/* Column headers A, B, C... */}
-                {Array.from({ length: maxColumns }).map((_, colIndex) => (
-                  <th
-                    key={colIndex}
-                    className="bg-gray-200 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 px-2 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 min-w-[100px]"
-                  >
-                    {getColumnLabel(colIndex)}
-                  </th>
-                ))}
+                {Array.from({ length: maxColumns }).map((_, colIndex) => {
+                  const hasFormat = !!columnFormats?.[colIndex];
+                  return (
+                    <th
+                      key={colIndex}
+                      onClick={(e) => openColumnMenu(e, colIndex)}
+                      title={isEditable ? `${columnTypes?.[colIndex] ?? 'text'} - click to change the format` : undefined}
+                      className={cn(
+                        'bg-gray-200 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 px-2 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 min-w-[100px]',
+                        isEditable && 'cursor-pointer hover:bg-gray-300 dark:hover:bg-gray-600',
+                        columnMenu?.col === colIndex && 'bg-gray-300 dark:bg-gray-600'
+                      )}
+                    >
+                      <span className="inline-flex items-center gap-1">
+                        {getColumnLabel(colIndex)}
+                        {hasFormat && (
+                          <span className="material-icons-round text-sm text-green-600" aria-label="Format set by hand">
+                            tune
+                          </span>
+                        )}
+                        {isEditable && <span className="material-icons-round text-sm text-gray-400">arrow_drop_down</span>}
+                      </span>
+                    </th>
+                  );
+                })}
               </tr>
             </thead>
             <tbody>
@@ -237,8 +883,10 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
                   <td
                     colSpan={maxColumns}
                     onClick={() => handleCellClick(letterheadIndex, 0)}
-                    onMouseDown={() => handleCellMouseDown(letterheadIndex, 0)}
+                    onDoubleClick={() => startEditing(letterheadIndex, 0)}
+                    onMouseDown={(e) => handleCellMouseDown(e, letterheadIndex, 0)}
                     onMouseEnter={() => handleCellMouseEnter(letterheadIndex, 0)}
+                    onContextMenu={(e) => handleCellContextMenu(e, letterheadIndex, 0)}
                     className={cn(
                       'border border-gray-200 dark:border-gray-700 px-3 py-2 text-sm cursor-cell transition-colors select-none',
                       'bg-amber-50 dark:bg-amber-900/10 font-medium text-gray-800 dark:text-gray-200',
@@ -249,14 +897,14 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
                     )}
                     title={text}
                   >
-                    {text}
+                    {editingCell?.row === letterheadIndex ? renderCellEditor() : text}
                   </td>
                 </tr>
               ))}
               {/* Table data rows */}
               {activeTable?.rows.map((row, dataRowIndex) => {
                 const actualRowIndex = letterheadCount + dataRowIndex;
-                const isHeader = dataRowIndex === 0;
+                const isHeader = dataRowIndex < headerRowCount;
 
                 return (
                   <tr key={`data-${dataRowIndex}`}>
@@ -274,8 +922,10 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
                         <td
                           key={colIndex}
                           onClick={() => handleCellClick(actualRowIndex, colIndex)}
-                          onMouseDown={() => handleCellMouseDown(actualRowIndex, colIndex)}
+                          onDoubleClick={() => startEditing(actualRowIndex, colIndex)}
+                          onMouseDown={(e) => handleCellMouseDown(e, actualRowIndex, colIndex)}
                           onMouseEnter={() => handleCellMouseEnter(actualRowIndex, colIndex)}
+                          onContextMenu={(e) => handleCellContextMenu(e, actualRowIndex, colIndex)}
                           className={cn(
                             'border border-gray-200 dark:border-gray-700 px-3 py-2 text-sm cursor-cell transition-colors select-none',
                             'min-w-[100px] max-w-[300px] truncate',
@@ -292,7 +942,9 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
                           )}
                           title={cellValue}
                         >
-                          {cellValue}
+                          {editingCell?.row === actualRowIndex && editingCell.col === colIndex
+                            ? renderCellEditor()
+                            : cellValue}
                         </td>
                       );
                     })}
@@ -302,6 +954,17 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
             </tbody>
           </table>
         </div>
+        {showSource && openSourceSession && (
+          <div className="w-1/2 border-l border-gray-200 dark:border-gray-700">
+            <SourcePageView
+              openSession={openSourceSession}
+              highlights={selectedSources}
+              initialPage={activeTable?.pageNumber}
+              onPointSelect={handleSourcePointSelect}
+              onClose={() => setShowSource(false)}
+            />
+          </div>
+        )}
       </div>
 
       {/* Table Tabs */}
@@ -311,6 +974,7 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
             key={index}
             onClick={() => {
               setActiveTab(index);
+              setColumnMenu(null);
               setSelectedCell(null);
               setSelectedRange(null);
             }}
@@ -347,11 +1011,63 @@ export function SpreadsheetPreview({ result, onDownload, onBack }: SpreadsheetPr
             </span>
           )}
         </div>
-        <div className="flex items-center gap-2">
-          <span className="material-icons-round text-sm text-green-500">check_circle</span>
-          Ready to download
+        <div className="flex items-center gap-2" role="status">
+          {copyNotice ? (
+            <>
+              <span className="material-icons-round text-sm text-green-500">content_copy</span>
+              {copyNotice}
+            </>
+          ) : (
+            <>
+              <span className="material-icons-round text-sm text-green-500">check_circle</span>
+              Ready to download
+            </>
+          )}
         </div>
       </div>
+
+      {/* Column format menu */}
+      {columnMenu && activeTable && columnMenu.col < maxColumns && (
+        <ColumnFormatMenu
+          key={columnMenu.col}
+          columnLabel={getColumnLabel(columnMenu.col)}
+          format={columnFormats?.[columnMenu.col] ?? null}
+          detectedType={getDetectedType(columnMenu.col)}
+          position={columnMenu}
+          onChange={(format) => handleColumnFormatChange(columnMenu.col, format)}
+          onClose={closeColumnMenu}
+        />
+      )}
+
+      {/* Cell context menu */}
+      {contextMenu && (
+        <div
+          role="menu"
+          onMouseDown={(e) => e.stopPropagation()}
+          style={{ left: contextMenu.x, top: contextMenu.y }}
+          className="fixed z-50 w-52 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg text-sm"
+        >
+          {(
+            [
+              { icon: 'content_copy', label: 'Copy', shortcut: 'Ctrl+C', onClick: () => copySelection('grid') },
+              { icon: 'description', label: 'Copy as CSV', onClick: () => copySelection('csv') },
+              { icon: 'code', label: 'Copy as Markdown', onClick: () => copySelection('markdown') },
+              { icon: 'select_all', label: 'Select All', shortcut: 'Ctrl+A', onClick: selectAll },
+            ] as { icon: string; label: string; shortcut?: string; onClick: () => void }[]
+          ).map((item) => (
+            <button
+              key={item.label}
+              role="menuitem"
+              onClick={item.onClick}
+              className="flex w-full items-center gap-3 px-3 py-1.5 text-left text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <span className="material-icons-round text-base text-gray-500 dark:text-gray-400">{item.icon}</span>
+              <span className="flex-1">{item.label}</span>
+              {item.shortcut && <span className="text-xs text-gray-400">{item.shortcut}</span>}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
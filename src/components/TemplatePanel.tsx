@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, useRef, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { createTemplate, getResultLetterhead } from '@/lib/templates';
+import type { EnhancedExtractedTable } from '@/lib/tableExtractor';
+import type { ColumnType, ConversionResult, ExtractionTemplate } from '@/lib/types';
+
+interface TemplatePanelProps {
+  result: ConversionResult;
+  templates: ExtractionTemplate[];
+  suggestedTemplateId?: string | null;
+  onApply: (template: ExtractionTemplate) => void;
+  onSave: (template: ExtractionTemplate) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const COLUMN_TYPE_OPTIONS: { value: ColumnType | ''; label: string }[] = [
+  { value: '', label: 'Auto' },
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'date', label: 'Date' },
+];
+
+const inputClass =
+  'w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-1.5 text-sm text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-green-200 dark:focus:ring-green-800';
+
+/**
+ * Dialog for saving the current regions and column layout as a template, and for
+ * applying, deleting, importing and exporting saved templates
+ */
+export function TemplatePanel({
+  result,
+  templates,
+  suggestedTemplateId,
+  onApply,
+  onSave,
+  onDelete,
+  onImport,
+  onExport,
+  onClose,
+}: TemplatePanelProps) {
+  // The form starts from the first table: its header becomes the column names it skips over
+  const firstTable = result.tables[0] as EnhancedExtractedTable | undefined;
+  const columnCount = firstTable ? Math.max(...firstTable.rows.map((row) => row.length)) : 0;
+
+  const [name, setName] = useState('');
+  const [skipRows, setSkipRows] = useState(firstTable?.metadata?.headerRowCount ?? 0);
+  const [repeatLastPage, setRepeatLastPage] = useState(true);
+  const [columnNames, setColumnNames] = useState<string[]>(() =>
+    Array.from({ length: columnCount }, (_, col) => firstTable?.headerRow?.[col] ?? '')
+  );
+  // Types already set by hand in the preview carry over
+  const [columnTypes, setColumnTypes] = useState<(ColumnType | null)[]>(() =>
+    Array.from({ length: columnCount }, (_, col) => firstTable?.metadata?.columnFormats?.[col]?.type ?? null)
+  );
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const regionCount = result.tableRegions?.length ?? 0;
+  const hasLetterhead = getResultLetterhead(result).length > 0;
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || regionCount === 0) return;
+    onSave(createTemplate(name, result, { skipRows, columnNames, columnTypes }, repeatLastPage));
+    setName('');
+  };
+
+  const sortedTemplates = [...templates].sort((a, b) =>
+    a.id === suggestedTemplateId ? -1 : b.id === suggestedTemplateId ? 1 : a.name.localeCompare(b.name)
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="template-panel-title"
+        onClick={(e) => e.stopPropagation()}
+        className="flex max-h-[90vh] w-full max-w-2xl flex-col overflow-hidden rounded-2xl bg-white dark:bg-gray-800 shadow-xl"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 px-5 py-4">
+          <div className="flex items-center gap-2">
+            <span className="material-icons-round text-green-600 text-xl">bookmarks</span>
+            <h2 id="template-panel-title" className="font-semibold text-gray-900 dark:text-white">
+              Extraction Templates
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="flex items-center rounded-lg p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-6 overflow-y-auto px-5 py-4">
+          {/* Saved templates */}
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Saved templates</h3>
+              <div className="flex items-center gap-1">
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onImport(file);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="flex items-center gap-1 rounded-lg px-2 py-1 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <span className="material-icons-round text-base">upload</span>
+                  Import
+                </button>
+                <button
+                  onClick={onExport}
+                  disabled={templates.length === 0}
+                  className="flex items-center gap-1 rounded-lg px-2 py-1 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  <span className="material-icons-round text-base">download</span>
+                  Export
+                </button>
+              </div>
+            </div>
+
+            {sortedTemplates.length === 0 ? (
+              <p className="rounded-lg bg-gray-50 dark:bg-gray-900 px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+                No templates yet. Save the current layout below to reuse it on next month&apos;s statement.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700 rounded-lg border border-gray-100 dark:border-gray-700">
+                {sortedTemplates.map((template) => {
+                  const isSuggested = template.id === suggestedTemplateId;
+                  return (
+                    <li
+                      key={template.id}
+                      className={cn('flex items-center gap-3 px-4 py-2.5', isSuggested && 'bg-green-50 dark:bg-green-900/20')}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                          {template.name}
+                          {isSuggested && (
+                            <span className="ml-2 rounded-full bg-green-600 px-2 py-0.5 text-xs font-semibold text-white">
+                              Matches this PDF
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {template.regions.length} region{template.regions.length !== 1 ? 's' : ''}
+                          {template.repeatLastPage && ', repeats on later pages'}
+                          {template.fingerprint.length === 0 && ' · applied by hand only'}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        onClick={() => onApply(template)}
+                        className="gap-1 rounded-lg bg-green-600 hover:bg-green-700 text-white"
+                      >
+                        <span className="material-icons-round text-base">play_arrow</span>
+                        Apply
+                      </Button>
+                      <button
+                        onClick={() => onDelete(template.id)}
+                        aria-label={`Delete ${template.name}`}
+                        className="flex items-center rounded-lg p-1 text-gray-400 hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/20"
+                      >
+                        <span className="material-icons-round text-xl">delete</span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+
+          {/* Save current layout */}
+          <form onSubmit={handleSave} className="space-y-3">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Save this layout</h3>
+            {regionCount === 0 ? (
+              <p className="rounded-lg bg-gray-50 dark:bg-gray-900 px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+                There are no table regions to save. Mark the tables in the region editor first.
+              </p>
+            ) : (
+              <>
+                <div className="grid gap-3 sm:grid-cols-[1fr_auto]">
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Template name, e.g. First Bank statement"
+                    aria-label="Template name"
+                    className={inputClass}
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                    Skip first
+                    <input
+                      type="number"
+                      min={0}
+                      value={skipRows}
+                      onChange={(e) => setSkipRows(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                      className={cn(inputClass, 'w-16')}
+                    />
+                    rows
+                  </label>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={repeatLastPage}
+                    onChange={(e) => setRepeatLastPage(e.target.checked)}
+                    className="h-4 w-4 rounded accent-green-600"
+                  />
+                  Use the last page&apos;s regions on every later page
+                </label>
+
+                {columnCount > 0 && (
+                  <div className="space-y-1.5">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Column names replace the skipped rows as the header. Leave a type on Auto to detect it.
+                    </p>
+                    {columnNames.map((columnName, col) => (
+                      <div key={col} className="grid grid-cols-[2rem_1fr_8rem] items-center gap-2">
+                        <span className="text-center font-mono text-xs text-gray-400">{col + 1}</span>
+                        <input
+                          type="text"
+                          value={columnName}
+                          onChange={(e) =>
+                            setColumnNames((prev) => prev.map((value, i) => (i === col ? e.target.value : value)))
+                          }
+                          placeholder={`Column ${col + 1}`}
+                          aria-label={`Column ${col + 1} name`}
+                          className={inputClass}
+                        />
+                        <select
+                          value={columnTypes[col] ?? ''}
+                          onChange={(e) =>
+                            setColumnTypes((prev) =>
+                              prev.map((value, i) => (i === col ? ((e.target.value || null) as ColumnType | null) : value))
+                            )
+                          }
+                          aria-label={`Column ${col + 1} type`}
+                          className={inputClass}
+                        >
+                          {COLUMN_TYPE_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {!hasLetterhead && (
+                  <p className="text-xs text-amber-600 dark:text-amber-400">
+                    No letterhead was found above the tables, so this template won&apos;t be suggested automatically.
+                  </p>
+                )}
+
+                <Button
+                  type="submit"
+                  disabled={!name.trim()}
+                  className="gap-2 rounded-xl bg-green-600 hover:bg-green-700 text-white font-semibold"
+                >
+                  <span className="material-icons-round text-xl">bookmark_add</span>
+                  Save Template
+                </Button>
+              </>
+            )}
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
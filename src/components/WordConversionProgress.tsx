@@ -1,6 +1,7 @@
 'use client';
 
 import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
 interface WordConversionProgressProps {
@@ -8,6 +9,7 @@ interface WordConversionProgressProps {
   progress: number;
   currentStep: string;
   fileName: string | null;
+  onCancel?: () => void;
 }
 
 const STEPS = [
@@ -21,6 +23,7 @@ export function WordConversionProgress({
   progress,
   currentStep,
   fileName,
+  onCancel,
 }: WordConversionProgressProps) {
   const currentStepIndex = STEPS.findIndex((s) => s.key === status);
 
@@ -92,6 +95,20 @@ export function WordConversionProgress({
           );
         })}
       </div>
+
+      {onCancel && (
+        <div className="flex justify-center">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            className="gap-2 rounded-xl px-5 font-semibold border-gray-200 dark:border-gray-700"
+          >
+            <span className="material-icons-round text-lg">close</span>
+            Cancel
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
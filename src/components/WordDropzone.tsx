@@ -3,15 +3,25 @@
 import { useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { cn } from '@/lib/utils';
+import { PasswordPrompt, type PasswordRequest } from '@/components/PasswordPrompt';
 
 interface WordDropzoneProps {
   onFileSelect: (file: File) => void;
   disabled?: boolean;
+  passwordRequest?: PasswordRequest | null; // Set when the dropped PDF is encrypted
+  onPasswordSubmit?: (password: string) => void;
+  onPasswordCancel?: () => void;
 }
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
-export function WordDropzone({ onFileSelect, disabled }: WordDropzoneProps) {
+export function WordDropzone({
+  onFileSelect,
+  disabled,
+  passwordRequest,
+  onPasswordSubmit,
+  onPasswordCancel,
+}: WordDropzoneProps) {
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
       if (acceptedFiles.length > 0) {
@@ -37,6 +47,17 @@ export function WordDropzone({ onFileSelect, disabled }: WordDropzoneProps) {
       : 'Please upload a PDF file.'
     : null;
 
+  if (passwordRequest && onPasswordSubmit && onPasswordCancel) {
+    return (
+      <PasswordPrompt
+        request={passwordRequest}
+        onSubmit={onPasswordSubmit}
+        onCancel={onPasswordCancel}
+        theme={'blue'}
+      />
+    );
+  }
+
   return (
     <div className="w-full">
       {/* Header Info */}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import { PdfPasswordError } from '@/lib/pdfParser';
+import { convertPdfInWorker } from '@/lib/conversionWorker';
+import { generateExcelZip, generateBatchWorkbook, downloadBlob, type ExcelExportOptions } from '@/lib/excelGenerator';
+import { downloadDataExport } from '@/lib/dataExporter';
+import type { ConversionResult } from '@/lib/types';
+
+export type BatchItemStatus = 'queued' | 'processing' | 'complete' | 'error';
+
+export interface BatchItem {
+  id: number;
+  file: File;
+  fileName: string;
+  status: BatchItemStatus;
+  progress: number;
+  currentStep: string;
+  result: ConversionResult | null;
+  error: string | null;
+}
+
+/**
+ * Convert many PDFs one after another. Files are processed strictly in sequence -
+ * pdf.js and OCR are memory hungry, and a month-end folder can hold dozens of statements.
+ */
+export function useBatchConversion() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  // Mirror of items for the queue loop, which runs across many renders
+  const itemsRef = useRef<BatchItem[]>([]);
+  const isRunningRef = useRef(false);
+  const nextIdRef = useRef(1);
+
+  const updateItems = useCallback((updater: (items: BatchItem[]) => BatchItem[]) => {
+    itemsRef.current = updater(itemsRef.current);
+    setItems(itemsRef.current);
+  }, []);
+
+  const updateItem = useCallback(
+    (id: number, changes: Partial<BatchItem>) => {
+      updateItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+    },
+    [updateItems]
+  );
+
+  const processItem = useCallback(
+    async (item: BatchItem) => {
+      updateItem(item.id, { status: 'processing', progress: 2, currentStep: 'Reading file...', error: null });
+
+      try {
+        const arrayBuffer = await item.file.arrayBuffer();
+        const result = await convertPdfInWorker(
+          arrayBuffer,
+          { mode: 'auto', outputFormat: 'excel' },
+          { onProgress: (progress, currentStep) => updateItem(item.id, { progress, currentStep }) }
+        );
+        updateItem(item.id, { status: 'complete', progress: 100, currentStep: 'Conversion complete!', result });
+      } catch (error) {
+        const message =
+          error instanceof PdfPasswordError
+            ? 'This PDF is password-protected - convert it on its own to enter the password'
+            : error instanceof Error
+            ? error.message
+            : 'An unexpected error occurred';
+        updateItem(item.id, { status: 'error', progress: 0, currentStep: '', error: message });
+      }
+    },
+    [updateItem]
+  );
+
+  const runQueue = useCallback(async () => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+
+    try {
+      let next = itemsRef.current.find((item) => item.status === 'queued');
+      while (next) {
+        await processItem(next);
+        next = itemsRef.current.find((item) => item.status === 'queued');
+      }
+    } finally {
+      isRunningRef.current = false;
+    }
+  }, [processItem]);
+
+  const addFiles = useCallback(
+    (files: File[]) => {
+      const newItems: BatchItem[] = files.map((file) => ({
+        id: nextIdRef.current++,
+        file,
+        fileName: file.name,
+        status: 'queued',
+        progress: 0,
+        currentStep: 'Waiting...',
+        result: null,
+        error: null,
+      }));
+      updateItems((current) => [...current, ...newItems]);
+      runQueue();
+    },
+    [updateItems, runQueue]
+  );
+
+  const retry = useCallback(
+    (id: number) => {
+      updateItem(id, { status: 'queued', progress: 0, currentStep: 'Waiting...', error: null, result: null });
+      runQueue();
+    },
+    [updateItem, runQueue]
+  );
+
+  const remove = useCallback(
+    (id: number) => {
+      updateItems((current) => current.filter((item) => item.id !== id));
+    },
+    [updateItems]
+  );
+
+  const clear = useCallback(() => {
+    updateItems(() => []);
+  }, [updateItems]);
+
+  const getCompletedEntries = useCallback(
+    () =>
+      itemsRef.current
+        .filter((item) => item.status === 'complete' && item.result)
+        .map((item) => ({ fileName: item.fileName, result: item.result as ConversionResult })),
+    []
+  );
+
+  const downloadZip = useCallback(
+    async (options: ExcelExportOptions = {}) => {
+      const entries = getCompletedEntries();
+      if (entries.length === 0) return;
+
+      setIsExporting(true);
+      try {
+        const blob = await generateExcelZip(entries, undefined, options);
+        downloadDataExport({ blob, fileName: `batch-${new Date().toISOString().slice(0, 10)}.zip` });
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [getCompletedEntries]
+  );
+
+  const downloadCombinedWorkbook = useCallback(
+    async (options: ExcelExportOptions = {}) => {
+      const entries = getCompletedEntries();
+      if (entries.length === 0) return;
+
+      setIsExporting(true);
+      try {
+        // The workbook is built synchronously - let the exporting state paint first
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        const blob = generateBatchWorkbook(entries, undefined, options);
+        downloadBlob(blob, `batch-${new Date().toISOString().slice(0, 10)}.xlsx`);
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [getCompletedEntries]
+  );
+
+  const completedCount = items.filter((item) => item.status === 'complete').length;
+  const failedCount = items.filter((item) => item.status === 'error').length;
+  const isProcessing = items.some((item) => item.status === 'processing' || item.status === 'queued');
+
+  return {
+    items,
+    completedCount,
+    failedCount,
+    isProcessing,
+    isExporting,
+    addFiles,
+    retry,
+    remove,
+    clear,
+    downloadZip,
+    downloadCombinedWorkbook,
+  };
+}
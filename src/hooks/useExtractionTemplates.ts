@@ -0,0 +1,58 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { loadTemplates, storeTemplates, exportTemplates, importTemplates } from '@/lib/templates';
+import { downloadBlob } from '@/lib/excelGenerator';
+import type { ExtractionTemplate } from '@/lib/types';
+
+/**
+ * Saved extraction templates, kept in browser storage and shared across conversions
+ */
+export function useExtractionTemplates() {
+  // Templates only appear after a conversion, so reading storage on first render can't cause a hydration mismatch
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>(() =>
+    typeof window === 'undefined' ? [] : loadTemplates()
+  );
+
+  const updateTemplates = useCallback((updater: (templates: ExtractionTemplate[]) => ExtractionTemplate[]) => {
+    setTemplates((current) => {
+      const next = updater(current);
+      storeTemplates(next);
+      return next;
+    });
+  }, []);
+
+  const saveTemplate = useCallback(
+    (template: ExtractionTemplate) => {
+      updateTemplates((current) => [...current.filter((existing) => existing.id !== template.id), template]);
+    },
+    [updateTemplates]
+  );
+
+  const deleteTemplate = useCallback(
+    (id: string) => {
+      updateTemplates((current) => current.filter((template) => template.id !== id));
+    },
+    [updateTemplates]
+  );
+
+  /**
+   * Add the templates from an exported JSON file, replacing any with the same id.
+   * Resolves to the number imported; rejects with a readable Error for bad files.
+   */
+  const importFromFile = useCallback(
+    async (file: File) => {
+      const imported = importTemplates(await file.text());
+      const importedIds = new Set(imported.map((template) => template.id));
+      updateTemplates((current) => [...current.filter((template) => !importedIds.has(template.id)), ...imported]);
+      return imported.length;
+    },
+    [updateTemplates]
+  );
+
+  const exportToFile = useCallback(() => {
+    downloadBlob(exportTemplates(templates), 'extraction-templates.json');
+  }, [templates]);
+
+  return { templates, saveTemplate, deleteTemplate, importFromFile, exportToFile };
+}
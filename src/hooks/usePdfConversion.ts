@@ -1,11 +1,30 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { parsePdf, extractTextByPage, extractDocumentStructure } from '@/lib/pdfParser';
-import { extractTables } from '@/lib/tableExtractor';
+import { useState, useCallback, useRef } from 'react';
+import { openPdfSession, PdfPasswordError } from '@/lib/pdfParser';
+import { convertPdfInWorker, isAbortError } from '@/lib/conversionWorker';
 import { generateExcel, downloadBlob } from '@/lib/excelGenerator';
 import { generateDocFromResult, downloadDocBlob } from '@/lib/docGenerator';
-import type { ConversionState, ConversionMode, ConversionResult, OutputFormat } from '@/lib/types';
+import { generateDataExport, downloadDataExport } from '@/lib/dataExporter';
+import type { NumberLocale } from '@/lib/numberFormat';
+import type {
+  ConversionResult,
+  ConversionState,
+  ConversionMode,
+  ConvertFileOptions,
+  ExtractionTemplate,
+  OutputFormat,
+  PageRegion,
+} from '@/lib/types';
+
+const MAX_UNDO_STEPS = 100;
+
+interface EditHistory {
+  past: ConversionResult[]; // Most recent last
+  future: ConversionResult[]; // Next redo first
+}
+
+const emptyHistory: EditHistory = { past: [], future: [] };
 
 const initialState: ConversionState = {
   status: 'idle',
@@ -20,13 +39,53 @@ const initialState: ConversionState = {
 export function usePdfConversion() {
   const [state, setState] = useState<ConversionState>(initialState);
   const [arrayBufferCache, setArrayBufferCache] = useState<ArrayBuffer | null>(null);
+  // File awaiting a password - kept in memory only so the user can retry
+  const pendingFileRef = useRef<{
+    file: File;
+    mode: ConversionMode;
+    outputFormat: OutputFormat;
+    pages?: number[];
+    regions?: PageRegion[];
+    template?: ExtractionTemplate;
+    numberLocale: NumberLocale;
+  } | null>(null);
+  // The file and options behind the current result, so its tables can be re-read from edited regions
+  const lastConversionRef = useRef<{
+    file: File;
+    mode: ConversionMode;
+    outputFormat: OutputFormat;
+    password?: string;
+    pages?: number[];
+    regions?: PageRegion[];
+    template?: ExtractionTemplate;
+  } | null>(null);
+  // Opt-in: write dates and numbers as real Excel values (kept across conversions)
+  const [typedExport, setTypedExport] = useState(false);
+  // Decimal convention amounts are read with (kept across conversions)
+  const [numberLocale, setNumberLocale] = useState<NumberLocale>('auto');
+  // Hand edits to the result made in the preview
+  const [history, setHistory] = useState<EditHistory>(emptyHistory);
+  // Aborts the in-flight conversion (and its worker)
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const updateProgress = useCallback((progress: number, currentStep: string) => {
     setState((prev) => ({ ...prev, progress, currentStep }));
   }, []);
 
   const convert = useCallback(
-    async (file: File, mode: ConversionMode = 'auto', outputFormat: OutputFormat = 'excel') => {
+    async (
+      file: File,
+      mode: ConversionMode = 'auto',
+      outputFormat: OutputFormat = 'excel',
+      { password, pages, regions, template, numberLocale: locale = numberLocale }: ConvertFileOptions = {}
+    ) => {
+      pendingFileRef.current = null;
+      lastConversionRef.current = null;
+      setHistory(emptyHistory);
+      abortControllerRef.current?.abort();
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
       setState({
         status: 'reading',
         progress: 0,
@@ -43,49 +102,23 @@ export function usePdfConversion() {
         const arrayBuffer = await file.arrayBuffer();
         setArrayBufferCache(arrayBuffer);
 
-        // Clone ArrayBuffer for each PDF.js operation to avoid detached buffer errors
-        // PDF.js can transfer ownership of the buffer, making it unusable for subsequent operations
-        const cloneBuffer = (buffer: ArrayBuffer) => buffer.slice(0);
-
-        // Parse PDF
-        setState((prev) => ({ ...prev, status: 'parsing' }));
-        const textItems = await parsePdf(cloneBuffer(arrayBuffer), updateProgress);
-
-        // Extract document structure for DOC conversion
-        let documentStructure = undefined;
-        if (outputFormat === 'doc') {
-          updateProgress(50, 'Analyzing document structure...');
-          documentStructure = await extractDocumentStructure(cloneBuffer(arrayBuffer), updateProgress);
-        }
-
-        // Determine extraction mode
-        setState((prev) => ({ ...prev, status: 'extracting' }));
-        let result: ConversionResult;
-
-        if (mode === 'text') {
-          // Force text extraction
-          updateProgress(55, 'Extracting text content...');
-          const textContent = await extractTextByPage(cloneBuffer(arrayBuffer), updateProgress);
-          result = { tables: [], textContent, mode: 'text', documentStructure };
-        } else {
-          // Try table extraction first
-          const tables = extractTables(textItems, updateProgress);
-
-          if (tables.length > 0 || mode === 'tables') {
-            result = { tables, textContent: [], mode: 'tables', documentStructure };
-          } else {
-            // Fallback to text extraction for auto mode
-            updateProgress(70, 'No tables found, extracting text...');
-            const textContent = await extractTextByPage(cloneBuffer(arrayBuffer), updateProgress);
-            result = { tables: [], textContent, mode: 'text', documentStructure };
+        const result = await convertPdfInWorker(
+          arrayBuffer,
+          { mode, outputFormat, password, pages, regions, template, numberLocale: locale },
+          {
+            signal: abortController.signal,
+            onProgress: updateProgress,
+            onStatus: (status) => setState((prev) => ({ ...prev, status })),
+            onPartial: (partial) => {
+              if (partial.stage === 'tables' && partial.tables.length > 0) {
+                const count = partial.tables.length;
+                updateProgress(80, `Found ${count} table${count !== 1 ? 's' : ''}, finishing up...`);
+              }
+            },
           }
-        }
-
-        // Check if we have any data
-        if (result.tables.length === 0 && result.textContent.length === 0) {
-          throw new Error('No extractable content found in this PDF');
-        }
+        );
 
+        lastConversionRef.current = { file, mode, outputFormat, password, pages, regions, template };
         setState({
           status: 'complete',
           progress: 100,
@@ -96,6 +129,25 @@ export function usePdfConversion() {
           outputFormat,
         });
       } catch (error) {
+        // cancel() has already reset the state
+        if (isAbortError(error)) return;
+
+        if (error instanceof PdfPasswordError) {
+          // Hold on to the file so the password prompt can retry without a re-upload
+          pendingFileRef.current = { file, mode, outputFormat, pages, regions, template, numberLocale: locale };
+          setState({
+            status: 'password-required',
+            progress: 0,
+            currentStep: '',
+            result: null,
+            error: null,
+            fileName: file.name,
+            outputFormat,
+            passwordIncorrect: error.reason === 'incorrect',
+          });
+          return;
+        }
+
         const message = error instanceof Error ? error.message : 'An unexpected error occurred';
         setState({
           status: 'error',
@@ -106,16 +158,137 @@ export function usePdfConversion() {
           fileName: file.name,
           outputFormat,
         });
+      } finally {
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+        }
       }
     },
-    [updateProgress]
+    [updateProgress, numberLocale]
   );
 
-  const download = useCallback(async () => {
-    if (!state.result || !state.fileName) return;
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setState(initialState);
+    setArrayBufferCache(null);
+    pendingFileRef.current = null;
+    lastConversionRef.current = null;
+    setHistory(emptyHistory);
+  }, []);
+
+  const submitPassword = useCallback(
+    (password: string) => {
+      const pending = pendingFileRef.current;
+      if (!pending) return;
+      return convert(pending.file, pending.mode, pending.outputFormat, {
+        password,
+        pages: pending.pages,
+        regions: pending.regions,
+        template: pending.template,
+        numberLocale: pending.numberLocale,
+      });
+    },
+    [convert]
+  );
+
+  /**
+   * Re-read the tables of the last conversion from regions edited by hand.
+   * A template used for that conversion keeps shaping the columns.
+   */
+  const applyRegions = useCallback(
+    (regions: PageRegion[]) => {
+      const last = lastConversionRef.current;
+      if (!last) return;
+      const pages = [...new Set(regions.map((region) => region.page))];
+      return convert(last.file, 'tables', last.outputFormat, {
+        password: last.password,
+        pages,
+        regions,
+        template: last.template,
+      });
+    },
+    [convert]
+  );
+
+  /**
+   * Re-convert the last file with a saved template in place of table detection
+   */
+  const applyTemplate = useCallback(
+    (template: ExtractionTemplate) => {
+      const last = lastConversionRef.current;
+      if (!last) return;
+      return convert(last.file, 'tables', last.outputFormat, { password: last.password, pages: last.pages, template });
+    },
+    [convert]
+  );
+
+  /**
+   * Switch the decimal convention and re-read the last file's tables with it.
+   * Amounts are parsed during extraction, so hand edits to the current result are dropped.
+   */
+  const changeNumberLocale = useCallback(
+    (locale: NumberLocale) => {
+      setNumberLocale(locale);
+      const last = lastConversionRef.current;
+      if (!last) return;
+      return convert(last.file, last.mode, last.outputFormat, {
+        password: last.password,
+        pages: last.pages,
+        regions: last.regions,
+        template: last.template,
+        numberLocale: locale,
+      });
+    },
+    [convert]
+  );
+
+  /**
+   * Open the converted PDF for rendering on the main thread (e.g. in the region editor).
+   * The caller owns the session and must destroy it.
+   */
+  const openSourceSession = useCallback(() => {
+    if (!arrayBufferCache) return Promise.reject(new Error('No PDF loaded'));
+    return openPdfSession(arrayBufferCache.slice(0), { password: lastConversionRef.current?.password });
+  }, [arrayBufferCache]);
+
+  /**
+   * Apply a hand edit to the result. Edits that return the same result are not recorded.
+   */
+  const editResult = useCallback(
+    (edit: (result: ConversionResult) => ConversionResult) => {
+      const current = state.result;
+      if (!current || state.status !== 'complete') return;
+
+      const edited = edit(current);
+      if (edited === current) return;
+
+      setHistory((prev) => ({ past: [...prev.past, current].slice(-MAX_UNDO_STEPS), future: [] }));
+      setState((prev) => ({ ...prev, result: edited }));
+    },
+    [state.result, state.status]
+  );
+
+  const undo = useCallback(() => {
+    const previous = history.past[history.past.length - 1];
+    if (!previous || !state.result) return;
+    setHistory({ past: history.past.slice(0, -1), future: [state.result, ...history.future] });
+    setState((prev) => ({ ...prev, result: previous }));
+  }, [history, state.result]);
+
+  const redo = useCallback(() => {
+    const next = history.future[0];
+    if (!next || !state.result) return;
+    setHistory({ past: [...history.past, state.result], future: history.future.slice(1) });
+    setState((prev) => ({ ...prev, result: next }));
+  }, [history, state.result]);
+
+  // Resolves to whether the file was made - a failure is reported through the error state
+  const download = useCallback(async (): Promise<boolean> => {
+    if (!state.result || !state.fileName) return false;
 
     const format = state.outputFormat;
-    const formatLabel = format === 'excel' ? 'Excel' : 'Word';
+    const formatLabel = format === 'excel' ? 'Excel' : format === 'doc' ? 'Word' : format.toUpperCase();
 
     setState((prev) => ({
       ...prev,
@@ -125,33 +298,57 @@ export function usePdfConversion() {
 
     try {
       if (format === 'excel') {
-        const blob = generateExcel(state.result, state.fileName, updateProgress);
+        const blob = generateExcel(state.result, state.fileName, updateProgress, { typedCells: typedExport });
         downloadBlob(blob, state.fileName);
-      } else {
+      } else if (format === 'doc') {
         const blob = await generateDocFromResult(state.result, state.fileName, updateProgress);
         downloadDocBlob(blob, state.fileName);
+      } else {
+        const dataExport = await generateDataExport(state.result, format, state.fileName, updateProgress);
+        downloadDataExport(dataExport);
       }
       setState((prev) => ({ ...prev, status: 'complete', currentStep: 'Download started!' }));
+      return true;
     } catch (error) {
       const message = error instanceof Error ? error.message : `Failed to generate ${formatLabel} file`;
       setState((prev) => ({ ...prev, status: 'error', error: message }));
+      return false;
     }
-  }, [state.result, state.fileName, state.outputFormat, updateProgress]);
+  }, [state.result, state.fileName, state.outputFormat, typedExport, updateProgress]);
 
   const setOutputFormat = useCallback((format: OutputFormat) => {
     setState((prev) => ({ ...prev, outputFormat: format }));
   }, []);
 
   const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     setState(initialState);
     setArrayBufferCache(null);
+    pendingFileRef.current = null;
+    lastConversionRef.current = null;
+    setHistory(emptyHistory);
   }, []);
 
   return {
     ...state,
     convert,
+    submitPassword,
+    applyRegions,
+    applyTemplate,
+    openSourceSession,
+    cancel,
+    editResult,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
     download,
     reset,
     setOutputFormat,
+    typedExport,
+    setTypedExport,
+    numberLocale,
+    changeNumberLocale,
   };
 }
@@ -1,11 +1,19 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { parsePdf, extractDocumentStructure } from '@/lib/pdfParser';
+import { useState, useCallback, useRef } from 'react';
+import { PdfPasswordError, openPdfSession } from '@/lib/pdfParser';
+import { extractDocumentStructureInWorker, isAbortError } from '@/lib/conversionWorker';
 import { generateDocFromStructure, downloadDocBlob } from '@/lib/docGenerator';
-import type { DocumentStructure } from '@/lib/types';
+import type { ConvertFileOptions, DocumentStructure } from '@/lib/types';
 
-type WordConversionStatus = 'idle' | 'reading' | 'parsing' | 'generating' | 'complete' | 'error';
+type WordConversionStatus =
+  | 'idle'
+  | 'reading'
+  | 'parsing'
+  | 'generating'
+  | 'complete'
+  | 'password-required'
+  | 'error';
 
 interface WordConversionState {
   status: WordConversionStatus;
@@ -14,6 +22,7 @@ interface WordConversionState {
   documentStructure: DocumentStructure | null;
   error: string | null;
   fileName: string | null;
+  passwordIncorrect?: boolean;
 }
 
 const initialState: WordConversionState = {
@@ -28,13 +37,26 @@ const initialState: WordConversionState = {
 export function useWordConversion() {
   const [state, setState] = useState<WordConversionState>(initialState);
   const [blobCache, setBlobCache] = useState<Blob | null>(null);
+  const [tableOfContents, setTableOfContents] = useState(false);
+  const [runningHeaders, setRunningHeaders] = useState(true);
+  // The converted PDF, kept for the side-by-side source view
+  const [sourceCache, setSourceCache] = useState<{ arrayBuffer: ArrayBuffer; password?: string } | null>(null);
+  // File awaiting a password - kept in memory only so the user can retry
+  const pendingFileRef = useRef<{ file: File; pages?: number[] } | null>(null);
+  // Aborts the in-flight conversion (and its worker)
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const updateProgress = useCallback((progress: number, currentStep: string) => {
     setState((prev) => ({ ...prev, progress, currentStep }));
   }, []);
 
   const convert = useCallback(
-    async (file: File) => {
+    async (file: File, { password, pages }: ConvertFileOptions = {}) => {
+      pendingFileRef.current = null;
+      abortControllerRef.current?.abort();
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
       setState({
         status: 'reading',
         progress: 0,
@@ -49,14 +71,15 @@ export function useWordConversion() {
         updateProgress(5, 'Reading file...');
         const arrayBuffer = await file.arrayBuffer();
 
-        // Clone buffer for PDF.js operations
-        const cloneBuffer = (buffer: ArrayBuffer) => buffer.slice(0);
-
         // Parse PDF to get document structure directly
         setState((prev) => ({ ...prev, status: 'parsing' }));
         updateProgress(15, 'Analyzing document structure...');
 
-        const documentStructure = await extractDocumentStructure(cloneBuffer(arrayBuffer), updateProgress);
+        const documentStructure = await extractDocumentStructureInWorker(
+          arrayBuffer,
+          { password, pages },
+          { signal: abortController.signal, onProgress: updateProgress }
+        );
 
         if (!documentStructure || documentStructure.elements.length === 0) {
           throw new Error('No extractable content found in this PDF');
@@ -67,7 +90,10 @@ export function useWordConversion() {
         updateProgress(60, 'Creating Word document...');
 
         const blob = await generateDocFromStructure(documentStructure, file.name, updateProgress);
+        // Word generation runs on this thread and can't be interrupted - drop the result instead
+        if (abortController.signal.aborted) return;
         setBlobCache(blob);
+        setSourceCache({ arrayBuffer, password });
 
         setState({
           status: 'complete',
@@ -78,6 +104,24 @@ export function useWordConversion() {
           fileName: file.name,
         });
       } catch (error) {
+        // cancel() has already reset the state
+        if (isAbortError(error)) return;
+
+        if (error instanceof PdfPasswordError) {
+          // Hold on to the file so the password prompt can retry without a re-upload
+          pendingFileRef.current = { file, pages };
+          setState({
+            status: 'password-required',
+            progress: 0,
+            currentStep: '',
+            documentStructure: null,
+            error: null,
+            fileName: file.name,
+            passwordIncorrect: error.reason === 'incorrect',
+          });
+          return;
+        }
+
         const message = error instanceof Error ? error.message : 'An unexpected error occurred';
         setState({
           status: 'error',
@@ -87,26 +131,83 @@ export function useWordConversion() {
           error: message,
           fileName: file.name,
         });
+      } finally {
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+        }
       }
     },
     [updateProgress]
   );
 
-  const download = useCallback(async () => {
-    if (!blobCache || !state.fileName) return;
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setState(initialState);
+    setBlobCache(null);
+    setSourceCache(null);
+    pendingFileRef.current = null;
+  }, []);
+
+  const submitPassword = useCallback(
+    (password: string) => {
+      const pending = pendingFileRef.current;
+      if (!pending) return;
+      return convert(pending.file, { password, pages: pending.pages });
+    },
+    [convert]
+  );
 
-    downloadDocBlob(blobCache, state.fileName);
-  }, [blobCache, state.fileName]);
+  // Resolves to whether the file was made - a failure is reported through the error state
+  const download = useCallback(async (): Promise<boolean> => {
+    if (!blobCache || !state.fileName) return false;
+
+    try {
+      // The document made during conversion uses the default options - build another when they differ
+      const blob =
+        (tableOfContents || !runningHeaders) && state.documentStructure
+          ? await generateDocFromStructure(state.documentStructure, state.fileName, undefined, {
+              tableOfContents,
+              runningHeaders,
+            })
+          : blobCache;
+      downloadDocBlob(blob, state.fileName);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to generate Word document';
+      setState((prev) => ({ ...prev, status: 'error', error: message }));
+      return false;
+    }
+  }, [blobCache, state.documentStructure, state.fileName, tableOfContents, runningHeaders]);
+
+  /**
+   * Open the converted PDF for rendering on the main thread. The caller owns the session and must destroy it.
+   */
+  const openSourceSession = useCallback(() => {
+    if (!sourceCache) return Promise.reject(new Error('No PDF loaded'));
+    return openPdfSession(sourceCache.arrayBuffer.slice(0), { password: sourceCache.password });
+  }, [sourceCache]);
 
   const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     setState(initialState);
     setBlobCache(null);
+    setSourceCache(null);
+    pendingFileRef.current = null;
   }, []);
 
   return {
     ...state,
     convert,
+    submitPassword,
+    cancel,
     download,
+    tableOfContents,
+    setTableOfContents,
+    runningHeaders,
+    setRunningHeaders,
+    openSourceSession,
     reset,
   };
 }
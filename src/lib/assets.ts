@@ -0,0 +1,11 @@
+// Static assets (the pdf.js worker and the OCR engine) are always served from our own
+// origin so the app works offline and no document data or request leaves the intranet.
+// Set NEXT_PUBLIC_ASSET_BASE_PATH when they are hosted under a sub-path, e.g. "/tools/convert".
+const ASSET_BASE_PATH = (process.env.NEXT_PUBLIC_ASSET_BASE_PATH || '').replace(/\/+$/, '');
+
+/**
+ * URL for a file in public/, honouring the configured asset base path
+ */
+export function assetUrl(path: string): string {
+  return `${ASSET_BASE_PATH}/${path.replace(/^\/+/, '')}`;
+}
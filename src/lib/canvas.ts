@@ -0,0 +1,74 @@
+// Inside the conversion worker there is no document, so canvases have to be OffscreenCanvas
+export type DrawingCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+interface CanvasAndContext {
+  canvas: OffscreenCanvas | null;
+  context: OffscreenCanvasRenderingContext2D | null;
+}
+
+/**
+ * Create a canvas on the main thread or in a Web Worker.
+ * Returns null where neither is available (server-side rendering).
+ */
+export function createCanvas(width: number, height: number): DrawingCanvas | null {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  return null;
+}
+
+export function getContext2d(canvas: DrawingCanvas): DrawingContext | null {
+  return canvas.getContext('2d') as DrawingContext | null;
+}
+
+/**
+ * Encode a canvas as base64 PNG data (without the data: URL prefix)
+ */
+export async function canvasToPngBase64(canvas: DrawingCanvas): Promise<string> {
+  if ('toDataURL' in canvas) {
+    return canvas.toDataURL('image/png').split(',')[1];
+  }
+
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  // Build the binary string in chunks - spreading a large image in one call overflows the stack
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * pdf.js canvas factory for rendering without a document. pdf.js's default
+ * factory creates its scratch canvases through document.createElement.
+ */
+export const offscreenCanvasFactory = {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  },
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number) {
+    if (!canvasAndContext.canvas) return;
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  },
+
+  destroy(canvasAndContext: CanvasAndContext) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  },
+};
@@ -0,0 +1,72 @@
+import { toDelimitedText } from './dataExporter';
+
+export type CopyFormat = 'grid' | 'csv' | 'markdown';
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Rows as an HTML table. Styles are inline because email clients drop style sheets.
+ */
+export function toHtmlTable(rows: string[][], headerRowCount = 0): string {
+  const numCols = Math.max(0, ...rows.map((row) => row.length));
+  const cellStyle = 'border:1px solid #d1d5db;padding:4px 8px';
+
+  const body = rows
+    .map((row, rowIndex) => {
+      const tag = rowIndex < headerRowCount ? 'th' : 'td';
+      const cells = Array.from(
+        { length: numCols },
+        (_, col) => `<${tag} style="${cellStyle}">${escapeHtml(row[col] || '')}</${tag}>`
+      );
+      return `<tr>${cells.join('')}</tr>`;
+    })
+    .join('');
+
+  return `<table style="border-collapse:collapse">${body}</table>`;
+}
+
+// Pipes would end the cell and line breaks the row
+function encodeMarkdownCell(cell: string): string {
+  return (cell || '').replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Rows as a GitHub-flavoured Markdown table. Markdown tables always have a header,
+ * so the first row is used as one.
+ */
+export function toMarkdownTable(rows: string[][]): string {
+  if (rows.length === 0) return '';
+  const numCols = Math.max(1, ...rows.map((row) => row.length));
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: numCols }, (_, col) => encodeMarkdownCell(row[col])).join(' | ')} |`;
+
+  return [line(rows[0]), `|${' --- |'.repeat(numCols)}`, ...rows.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Copy rows to the clipboard. 'grid' writes TSV plus an HTML table, so pasting into a
+ * spreadsheet or an email keeps the cells; the other formats are plain text only.
+ */
+export async function copyRowsToClipboard(rows: string[][], format: CopyFormat, headerRowCount = 0): Promise<void> {
+  if (format === 'csv') {
+    return navigator.clipboard.writeText(toDelimitedText(rows, 'csv'));
+  }
+  if (format === 'markdown') {
+    return navigator.clipboard.writeText(toMarkdownTable(rows));
+  }
+
+  const text = toDelimitedText(rows, 'tsv');
+  // Older browsers can only write plain text
+  if (typeof ClipboardItem === 'undefined' || !navigator.clipboard.write) {
+    return navigator.clipboard.writeText(text);
+  }
+
+  await navigator.clipboard.write([
+    new ClipboardItem({
+      'text/plain': new Blob([text], { type: 'text/plain' }),
+      'text/html': new Blob([toHtmlTable(rows, headerRowCount)], { type: 'text/html' }),
+    }),
+  ]);
+}
@@ -0,0 +1,140 @@
+import { parseNumber, type DecimalSeparator } from './numberFormat';
+import type { ColumnFormat, DateFormat } from './types';
+
+export interface ParsedDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  format: DateFormat; // Layout the value was written in
+}
+
+// Date patterns recognised by the column type detector, with the format that mirrors each
+const DATE_PATTERNS: { pattern: RegExp; format: DateFormat }[] = [
+  { pattern: /^(\d{1,2})[\/\-]([a-z]{3})[\/\-](\d{2,4})$/i, format: 'dd-mmm-yyyy' }, // 24-Dec-2025
+  { pattern: /^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})$/, format: 'dd/mm/yyyy' }, // 24/12/2025
+  { pattern: /^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})$/, format: 'yyyy-mm-dd' }, // 2025-12-24
+];
+const SLASH_DATE_PATTERN = DATE_PATTERNS[1].pattern;
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Decide whether slash dates in a column are day-first (24/12/2025) or month-first (12/24/2025).
+ * Day-first is assumed unless some value only makes sense month-first.
+ */
+export function isDayFirstColumn(values: string[]): boolean {
+  return !values.some((value) => {
+    const match = value.trim().match(SLASH_DATE_PATTERN);
+    return match !== null && parseInt(match[2], 10) > 12 && parseInt(match[1], 10) <= 12;
+  });
+}
+
+/**
+ * Parse a date in any format the column detector recognises. Impossible dates like 31/02 give null.
+ */
+export function parseDate(value: string, dayFirst: boolean): ParsedDate | null {
+  const text = value.trim();
+
+  for (const { pattern, format } of DATE_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    let year: number;
+    let month: number;
+    let day: number;
+
+    if (format === 'yyyy-mm-dd') {
+      [year, month, day] = [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+    } else if (format === 'dd-mmm-yyyy') {
+      day = parseInt(match[1], 10);
+      month = MONTH_NAMES.indexOf(match[2].toLowerCase()) + 1;
+      year = parseInt(match[3], 10);
+    } else {
+      const first = parseInt(match[1], 10);
+      const second = parseInt(match[2], 10);
+      [day, month] = dayFirst ? [first, second] : [second, first];
+      year = parseInt(match[3], 10);
+    }
+
+    // Two-digit years: 00-49 are 2000s, 50-99 are 1900s
+    if (year < 100) {
+      year += year < 50 ? 2000 : 1900;
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+
+    return { year, month, day, format: dayFirst || format !== 'dd/mm/yyyy' ? format : 'mm/dd/yyyy' };
+  }
+
+  return null;
+}
+
+export function formatDate(date: Pick<ParsedDate, 'year' | 'month' | 'day'>, format: DateFormat): string {
+  const dd = String(date.day).padStart(2, '0');
+  const mm = String(date.month).padStart(2, '0');
+  const yyyy = String(date.year);
+
+  switch (format) {
+    case 'mm/dd/yyyy':
+      return `${mm}/${dd}/${yyyy}`;
+    case 'yyyy-mm-dd':
+      return `${yyyy}-${mm}-${dd}`;
+    case 'dd-mmm-yyyy': {
+      const monthName = MONTH_NAMES[date.month - 1];
+      return `${dd}-${monthName[0].toUpperCase()}${monthName.slice(1)}-${yyyy}`;
+    }
+    default:
+      return `${dd}/${mm}/${yyyy}`;
+  }
+}
+
+/**
+ * Write a number with thousands grouping in the table's own convention: 1,234.50 or 1.234,50
+ */
+export function formatNumber(value: number, decimals: number, decimalSeparator: DecimalSeparator = '.'): string {
+  const [whole, fraction] = Math.abs(value).toFixed(decimals).split('.');
+  const groupSeparator = decimalSeparator === '.' ? ',' : '.';
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, groupSeparator);
+  return `${value < 0 ? '-' : ''}${grouped}${fraction ? decimalSeparator + fraction : ''}`;
+}
+
+/**
+ * Excel number format for a column of amounts, with a fixed number of decimal places
+ */
+export function getExcelNumberFormat(decimals: number, currencySymbol?: string | null): string {
+  return `${currencySymbol ?? ''}#,##0${decimals > 0 ? `.${'0'.repeat(decimals)}` : ''}`;
+}
+
+/**
+ * Rewrite a cell's text to match a column format, for output that stays text (Word tables).
+ * Values that don't parse as the column's type are returned unchanged.
+ */
+export function formatCellText(
+  value: string,
+  format: ColumnFormat,
+  decimalSeparator: DecimalSeparator,
+  dayFirst = true
+): string {
+  if (!value.trim()) return value;
+
+  if (format.type === 'date') {
+    const date = format.dateFormat ? parseDate(value, dayFirst) : null;
+    return date && format.dateFormat ? formatDate(date, format.dateFormat) : value;
+  }
+
+  if (format.type === 'number' || format.type === 'currency') {
+    const parsed = parseNumber(value, decimalSeparator);
+    if (!parsed) return value;
+
+    const text = formatNumber(parsed.value, format.decimals ?? parsed.decimals, decimalSeparator);
+    if (parsed.percent) return `${text}%`;
+    if (format.type === 'currency' && format.currencySymbol) {
+      return text.startsWith('-') ? `-${format.currencySymbol}${text.slice(1)}` : `${format.currencySymbol}${text}`;
+    }
+    return text;
+  }
+
+  return value;
+}
@@ -0,0 +1,193 @@
+import type { SourceBox } from './types';
+
+const ROW_TOLERANCE = 5; // Y-coordinate tolerance for grouping boxes into rows
+const MIN_GUTTER_WIDTH = 10; // Narrower runs of white space are just word or cell spacing
+const MIN_COLUMN_SHARE = 0.2; // Each column is at least this share of the text width
+// Rows allowed to cross a gutter (a title or figure spanning the columns), as a share of all rows
+const MAX_CROSSING_SHARE = 0.15;
+const MIN_COLUMN_ROWS = 4;
+const MIN_ITEMS = 20; // Pages with less text than this are never split
+// Prose fills its column in one run; table rows break into cells with wide gaps between them
+const SEGMENT_GAP = 20;
+const MIN_SINGLE_SEGMENT_SHARE = 0.8;
+const MIN_COLUMN_FILL = 0.5;
+
+/**
+ * A vertical strip of white space between two columns of text, in PDF points
+ */
+export interface Gutter {
+  left: number;
+  right: number;
+}
+
+/**
+ * A run of items to read in one go: either full-width rows, or the part of a multi-column
+ * stretch that falls in one column
+ */
+export interface LayoutBlock<T> {
+  items: T[];
+  column: number | null; // Column index, or null for rows spanning the page
+  columnCount: number;
+  left: number; // Text edges of the block's column (the whole text width for spanning rows)
+  right: number;
+}
+
+interface LayoutRow<T> {
+  y: number;
+  entries: { item: T; box: SourceBox }[];
+}
+
+/**
+ * Find the gutters of a multi-column page layout. Only white space that runs down most of
+ * the page between columns of prose counts - the gaps between table columns don't, since
+ * table rows are broken into separate cells rather than filling their column.
+ */
+export function findColumnGutters(boxes: SourceBox[]): Gutter[] {
+  if (boxes.length < MIN_ITEMS) return [];
+
+  const textLeft = Math.min(...boxes.map((box) => box.left));
+  const textRight = Math.max(...boxes.map((box) => box.right));
+  const minColumnWidth = (textRight - textLeft) * MIN_COLUMN_SHARE;
+  const rows = groupIntoRows(boxes.map((box) => ({ item: box, box })));
+  const maxCrossing = Math.max(1, Math.floor(rows.length * MAX_CROSSING_SHARE));
+
+  // How many rows have text at each x position
+  const start = Math.floor(textLeft);
+  const coverage = new Array<number>(Math.ceil(textRight) - start + 1).fill(0);
+  rows.forEach((row) => {
+    const covered = new Set<number>();
+    row.entries.forEach(({ box }) => {
+      for (let x = Math.floor(box.left); x < Math.ceil(box.right); x++) covered.add(x - start);
+    });
+    covered.forEach((index) => coverage[index]++);
+  });
+
+  const gutters: Gutter[] = [];
+  let runStart: number | null = null;
+  coverage.forEach((count, index) => {
+    const isOpen = count <= maxCrossing && index < coverage.length - 1;
+    if (isOpen && runStart === null) runStart = index;
+    if (!isOpen && runStart !== null) {
+      const gutter = { left: start + runStart, right: start + index };
+      if (
+        gutter.right - gutter.left >= MIN_GUTTER_WIDTH &&
+        gutter.left - textLeft >= minColumnWidth &&
+        textRight - gutter.right >= minColumnWidth &&
+        (gutters.length === 0 || gutter.left - gutters[gutters.length - 1].right >= minColumnWidth)
+      ) {
+        gutters.push(gutter);
+      }
+      runStart = null;
+    }
+  });
+
+  return gutters.length > 0 && columnsHoldProse(rows, gutters) ? gutters : [];
+}
+
+/**
+ * Split a page's items into blocks in reading order: top to bottom, and within each stretch
+ * of the page laid out in columns, each column top to bottom before the next.
+ */
+export function splitIntoReadingOrder<T>(items: T[], boxOf: (item: T) => SourceBox, gutters: Gutter[]): LayoutBlock<T>[] {
+  const entries = items.map((item) => ({ item, box: boxOf(item) }));
+  const textLeft = Math.min(...entries.map(({ box }) => box.left));
+  const textRight = Math.max(...entries.map(({ box }) => box.right));
+  if (gutters.length === 0) {
+    return items.length > 0 ? [{ items, column: null, columnCount: 1, left: textLeft, right: textRight }] : [];
+  }
+
+  const columnCount = gutters.length + 1;
+  const blocks: LayoutBlock<T>[] = [];
+  let section: LayoutRow<T>[] = [];
+
+  const flushSection = () => {
+    const columns = Array.from({ length: columnCount }, () => [] as { item: T; box: SourceBox }[]);
+    section.forEach((row) => row.entries.forEach((entry) => columns[getColumnIndex(entry.box, gutters)].push(entry)));
+    columns.forEach((columnEntries, column) => {
+      if (columnEntries.length === 0) return;
+      blocks.push({
+        items: columnEntries.map(({ item }) => item),
+        column,
+        columnCount,
+        left: Math.min(...columnEntries.map(({ box }) => box.left)),
+        right: Math.max(...columnEntries.map(({ box }) => box.right)),
+      });
+    });
+    section = [];
+  };
+
+  groupIntoRows(entries).forEach((row) => {
+    if (!row.entries.some(({ box }) => crossesGutter(box, gutters))) {
+      section.push(row);
+      return;
+    }
+    flushSection();
+    blocks.push({
+      items: row.entries.map(({ item }) => item),
+      column: null,
+      columnCount: 1,
+      left: textLeft,
+      right: textRight,
+    });
+  });
+  flushSection();
+
+  return blocks;
+}
+
+function groupIntoRows<T>(entries: { item: T; box: SourceBox }[]): LayoutRow<T>[] {
+  const rows: LayoutRow<T>[] = [];
+  [...entries]
+    .sort((a, b) => a.box.bottom - b.box.bottom)
+    .forEach((entry) => {
+      const current = rows[rows.length - 1];
+      if (current && Math.abs(entry.box.bottom - current.y) <= ROW_TOLERANCE) {
+        current.entries.push(entry);
+      } else {
+        rows.push({ y: entry.box.bottom, entries: [entry] });
+      }
+    });
+  return rows;
+}
+
+function crossesGutter(box: SourceBox, gutters: Gutter[]): boolean {
+  return gutters.some((gutter) => box.left < gutter.right && box.right > gutter.left);
+}
+
+function getColumnIndex(box: SourceBox, gutters: Gutter[]): number {
+  const center = (box.left + box.right) / 2;
+  const index = gutters.findIndex((gutter) => center < gutter.left);
+  return index === -1 ? gutters.length : index;
+}
+
+// Each column must read like running text: mostly unbroken lines that span most of its width
+function columnsHoldProse<T>(rows: LayoutRow<T>[], gutters: Gutter[]): boolean {
+  const columnCount = gutters.length + 1;
+
+  for (let column = 0; column < columnCount; column++) {
+    const lines = rows
+      .filter((row) => !row.entries.some(({ box }) => crossesGutter(box, gutters)))
+      .map((row) =>
+        row.entries
+          .map(({ box }) => box)
+          .filter((box) => getColumnIndex(box, gutters) === column)
+          .sort((a, b) => a.left - b.left)
+      )
+      .filter((boxes) => boxes.length > 0);
+    if (lines.length < MIN_COLUMN_ROWS) return false;
+
+    const singleSegment = lines.filter((boxes) =>
+      boxes.every((box, i) => i === 0 || box.left - boxes[i - 1].right <= SEGMENT_GAP)
+    ).length;
+    if (singleSegment < lines.length * MIN_SINGLE_SEGMENT_SHARE) return false;
+
+    const columnLeft = Math.min(...lines.map((boxes) => boxes[0].left));
+    const columnRight = Math.max(...lines.map((boxes) => Math.max(...boxes.map((box) => box.right))));
+    const widths = lines
+      .map((boxes) => Math.max(...boxes.map((box) => box.right)) - boxes[0].left)
+      .sort((a, b) => a - b);
+    if (widths[Math.floor(widths.length / 2)] < (columnRight - columnLeft) * MIN_COLUMN_FILL) return false;
+  }
+
+  return true;
+}
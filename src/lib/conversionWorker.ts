@@ -0,0 +1,146 @@
+import { PdfPasswordError, type ExtractOptions } from './pdfParser';
+import type { ConvertOptions } from './converter';
+import type { ConversionResult, ConversionStatus, DocumentStructure } from './types';
+import type { ConversionJob, JobResult, PartialResult, SerializedError, WorkerRequest, WorkerResponse } from './workerProtocol';
+
+export interface WorkerJobCallbacks {
+  signal?: AbortSignal; // Aborting terminates the worker and rejects with an AbortError
+  onProgress?: (progress: number, step: string) => void;
+  onStatus?: (status: Extract<ConversionStatus, 'parsing' | 'extracting'>) => void;
+  onPartial?: (partial: PartialResult) => void;
+}
+
+let nextJobId = 1;
+// One warm worker is kept between jobs so pdf.js and OCR don't start cold every time
+let idleWorker: Worker | null = null;
+
+function acquireWorker(): Worker {
+  const worker = idleWorker ?? new Worker(new URL('../workers/conversion.worker.ts', import.meta.url));
+  idleWorker = null;
+  return worker;
+}
+
+function releaseWorker(worker: Worker) {
+  if (idleWorker) {
+    worker.terminate();
+  } else {
+    idleWorker = worker;
+  }
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Conversion cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function deserializeError(error: SerializedError): Error {
+  if (error.passwordReason) {
+    return new PdfPasswordError(error.passwordReason);
+  }
+  const result = new Error(error.message);
+  result.name = error.name;
+  return result;
+}
+
+/**
+ * Post one job to a conversion worker and settle with its result.
+ * Progress, status and partial results are forwarded as they arrive.
+ */
+function runJob(job: ConversionJob, arrayBuffer: ArrayBuffer, callbacks: WorkerJobCallbacks): Promise<JobResult> {
+  const { signal, onProgress, onStatus, onPartial } = callbacks;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const id = nextJobId++;
+    const worker = acquireWorker();
+
+    const cleanup = () => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress, message.step);
+          break;
+        case 'status':
+          onStatus?.(message.status);
+          break;
+        case 'partial':
+          onPartial?.(message.partial);
+          break;
+        case 'result':
+          cleanup();
+          releaseWorker(worker);
+          resolve(message.result);
+          break;
+        case 'error':
+          cleanup();
+          releaseWorker(worker);
+          reject(deserializeError(message.error));
+          break;
+      }
+    };
+
+    // The worker script itself failed (e.g. it could not be loaded) - don't reuse it
+    const handleError = (event: ErrorEvent) => {
+      cleanup();
+      worker.terminate();
+      reject(new Error(event.message || 'The conversion worker stopped unexpectedly'));
+    };
+
+    // pdf.js has no way to stop mid-page, so cancelling throws the whole worker away
+    const handleAbort = () => {
+      cleanup();
+      worker.terminate();
+      reject(createAbortError());
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    signal?.addEventListener('abort', handleAbort);
+
+    // Transfer a copy so the caller keeps a usable buffer
+    const buffer = arrayBuffer.slice(0);
+    const request: WorkerRequest = { id, job, arrayBuffer: buffer };
+    worker.postMessage(request, [buffer]);
+  });
+}
+
+/**
+ * Run convertPdf in a Web Worker so large PDFs don't freeze the page
+ */
+export async function convertPdfInWorker(
+  arrayBuffer: ArrayBuffer,
+  options: ConvertOptions = {},
+  callbacks: WorkerJobCallbacks = {}
+): Promise<ConversionResult> {
+  const jobResult = await runJob({ kind: 'convert', options }, arrayBuffer, callbacks);
+  if (jobResult.kind !== 'convert') throw new Error('Unexpected worker response');
+  return jobResult.result;
+}
+
+/**
+ * Run extractDocumentStructure in a Web Worker
+ */
+export async function extractDocumentStructureInWorker(
+  arrayBuffer: ArrayBuffer,
+  options: ExtractOptions = {},
+  callbacks: WorkerJobCallbacks = {}
+): Promise<DocumentStructure> {
+  const jobResult = await runJob({ kind: 'document-structure', options }, arrayBuffer, callbacks);
+  if (jobResult.kind !== 'document-structure') throw new Error('Unexpected worker response');
+  return jobResult.documentStructure;
+}
@@ -0,0 +1,124 @@
+import {
+  openPdfSession,
+  parsePdf,
+  extractTextByPage,
+  extractDocumentStructure,
+  extractRulingLines,
+  extractLinks,
+} from './pdfParser';
+import { extractTables, extractTablesFromRegions, detectPageRegions } from './tableExtractor';
+import { resolveTemplateRegions } from './templates';
+import { splitRunningText } from './runningText';
+import type {
+  ConversionMode,
+  ConversionResult,
+  ConversionStatus,
+  ExtractionTemplate,
+  OutputFormat,
+  PageRegion,
+} from './types';
+import type { NumberLocale } from './numberFormat';
+import type { PartialResult } from './workerProtocol';
+
+export interface ConvertOptions {
+  mode?: ConversionMode;
+  outputFormat?: OutputFormat;
+  password?: string;
+  pages?: number[]; // Only these pages are parsed; every page when omitted
+  regions?: PageRegion[]; // Hand-drawn table regions - skips table detection entirely
+  template?: ExtractionTemplate; // Saved regions and column layout, used instead of detection
+  numberLocale?: NumberLocale; // Decimal convention for amounts ('auto' detects it per table)
+}
+
+/**
+ * Run the full PDF extraction pipeline on one file: parse text, pick up document
+ * structure for Word output, then extract tables (falling back to plain text).
+ * Hand-drawn regions or a saved template replace table detection when given.
+ * The PDF is loaded once and every pass reads from the same session.
+ * Throws PdfPasswordError for encrypted files and an Error when nothing could be extracted.
+ * onPartial receives each stage's output as soon as it is ready.
+ */
+export async function convertPdf(
+  arrayBuffer: ArrayBuffer,
+  options: ConvertOptions = {},
+  onProgress?: (progress: number, step: string) => void,
+  onStatus?: (status: Extract<ConversionStatus, 'parsing' | 'extracting'>) => void,
+  onPartial?: (partial: PartialResult) => void
+): Promise<ConversionResult> {
+  const { mode = 'auto', outputFormat = 'excel', password, pages, template, numberLocale } = options;
+
+  // Parse PDF
+  onStatus?.('parsing');
+  onProgress?.(5, 'Loading PDF document...');
+  // pdf.js takes ownership of the buffer it is given - hand it a copy so the caller's stays usable
+  const session = await openPdfSession(arrayBuffer.slice(0), { password });
+
+  try {
+    // Running headers, footers and page numbers would otherwise turn up as stray rows and letterhead
+    const running = splitRunningText(await parsePdf(session, onProgress, { pages }));
+    const textItems = running.body;
+
+    // Extract document structure for DOC conversion
+    let documentStructure = undefined;
+    if (outputFormat === 'doc') {
+      onProgress?.(50, 'Analyzing document structure...');
+      documentStructure = await extractDocumentStructure(session, onProgress, { pages });
+      onPartial?.({ stage: 'document-structure', documentStructure });
+    }
+
+    // Determine extraction mode
+    onStatus?.('extracting');
+    let result: ConversionResult;
+    // Edited regions win over the template's own, but the template still shapes the columns
+    const regions = options.regions ?? (template && resolveTemplateRegions(template, session.numPages, pages));
+
+    if (regions) {
+      // The user marked the tables themselves, so read exactly those areas
+      const tables = extractTablesFromRegions(textItems, regions, onProgress, {
+        layout: template?.layout,
+        numberLocale,
+      });
+      onPartial?.({ stage: 'tables', tables });
+      result = { tables, textContent: [], mode: 'tables', documentStructure, tableRegions: regions };
+    } else if (mode === 'text') {
+      // Force text extraction
+      onProgress?.(55, 'Extracting text content...');
+      const textContent = await extractTextByPage(session, onProgress, { pages });
+      result = { tables: [], textContent, mode: 'text', documentStructure };
+    } else {
+      // Try table extraction first, using drawn cell borders where the PDF has them
+      const rulingLines = await extractRulingLines(session, onProgress, { pages });
+      const tables = extractTables(textItems, onProgress, rulingLines, { numberLocale });
+      onPartial?.({ stage: 'tables', tables });
+      // Kept so the region editor can start from what detection found
+      const tableRegions = detectPageRegions(textItems, rulingLines);
+
+      if (tables.length > 0 || mode === 'tables') {
+        result = { tables, textContent: [], mode: 'tables', documentStructure, tableRegions };
+      } else {
+        // Fallback to text extraction for auto mode
+        onProgress?.(70, 'No tables found, extracting text...');
+        const textContent = await extractTextByPage(session, onProgress, { pages });
+        result = { tables: [], textContent, mode: 'text', documentStructure, tableRegions };
+      }
+    }
+
+    // Check if we have any data
+    if (result.tables.length === 0 && result.textContent.length === 0) {
+      throw new Error('No extractable content found in this PDF');
+    }
+
+    // A letterhead repeated on every page is a running header now - templates still match on it
+    if (running.header.length > 0) result.runningHeader = running.header;
+
+    // Cells under a link annotation become hyperlinks in the spreadsheet
+    if (result.tables.length > 0) {
+      const links = await extractLinks(session, { pages });
+      if (links.length > 0) result.links = links;
+    }
+
+    return result;
+  } finally {
+    await session.destroy();
+  }
+}
@@ -0,0 +1,149 @@
+import JSZip from 'jszip';
+import type { ConversionResult, ExtractedTable } from './types';
+import type { EnhancedExtractedTable } from './tableExtractor';
+
+export type DataFormat = 'csv' | 'tsv' | 'json';
+
+export interface DataExport {
+  blob: Blob;
+  fileName: string; // Download name, with the extension for the format (or .zip)
+}
+
+const MIME_TYPES: Record<DataFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  tsv: 'text/tab-separated-values;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+};
+
+/**
+ * Export extracted tables as plain data for downstream scripts.
+ * CSV/TSV produce one file per table - several tables are bundled into a zip.
+ * JSON produces one document holding every table with its metadata.
+ */
+export async function generateDataExport(
+  result: ConversionResult,
+  format: DataFormat,
+  fileName: string,
+  onProgress?: (progress: number, step: string) => void
+): Promise<DataExport> {
+  const baseName = fileName.replace(/\.pdf$/i, '');
+
+  if (format === 'json') {
+    onProgress?.(85, 'Building JSON document...');
+    const json = JSON.stringify(buildJsonDocument(result, fileName), null, 2);
+    onProgress?.(100, 'Complete!');
+    return { blob: new Blob([json], { type: MIME_TYPES.json }), fileName: `${baseName}.json` };
+  }
+
+  const sheets = getDelimitedSheets(result);
+
+  if (sheets.length === 1) {
+    onProgress?.(90, `Writing ${format.toUpperCase()} file...`);
+    const text = toDelimitedText(sheets[0].rows, format);
+    onProgress?.(100, 'Complete!');
+    return { blob: new Blob([text], { type: MIME_TYPES[format] }), fileName: `${baseName}.${format}` };
+  }
+
+  // One file per table, zipped together
+  const zip = new JSZip();
+  sheets.forEach((sheet, index) => {
+    onProgress?.(80 + Math.floor((index / sheets.length) * 10), `Writing table ${index + 1}...`);
+    zip.file(`${sheet.name}.${format}`, toDelimitedText(sheet.rows, format));
+  });
+
+  onProgress?.(92, 'Creating zip archive...');
+  const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  onProgress?.(100, 'Complete!');
+
+  return { blob, fileName: `${baseName}-${format}.zip` };
+}
+
+/**
+ * Rows to write for each table (or the page text when no tables were found)
+ */
+function getDelimitedSheets(result: ConversionResult): { name: string; rows: string[][] }[] {
+  if (result.mode === 'tables' && result.tables.length > 0) {
+    const padWidth = String(result.tables.length).length;
+    return result.tables.map((table, index) => ({
+      name: `table-${String(index + 1).padStart(padWidth, '0')}-${pageLabel(table)}`,
+      rows: table.rows,
+    }));
+  }
+
+  return [
+    {
+      name: 'content',
+      rows: [['Page', 'Content'], ...result.textContent.map((item) => [String(item.page), item.content])],
+    },
+  ];
+}
+
+function pageLabel(table: ExtractedTable): string {
+  const pages = table.pageNumbers || [table.pageNumber];
+  return pages.length > 1 ? `p${pages[0]}-${pages[pages.length - 1]}` : `p${table.pageNumber}`;
+}
+
+/**
+ * Write rows as CSV or TSV, padding short rows so every line has the same number of cells
+ */
+export function toDelimitedText(rows: string[][], format: 'csv' | 'tsv'): string {
+  const numCols = Math.max(0, ...rows.map((row) => row.length));
+  const encodeCell = format === 'csv' ? encodeCsvCell : encodeTsvCell;
+
+  return rows
+    .map((row) => {
+      const cells = [...row];
+      while (cells.length < numCols) cells.push('');
+      return cells.map(encodeCell).join(format === 'csv' ? ',' : '\t');
+    })
+    .join('\r\n');
+}
+
+// RFC 4180: quote cells containing the delimiter, quotes or line breaks, doubling inner quotes
+function encodeCsvCell(cell: string): string {
+  const text = cell || '';
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// TSV has no quoting - tabs and line breaks inside a cell become spaces
+function encodeTsvCell(cell: string): string {
+  return (cell || '').replace(/[\t\r\n]+/g, ' ');
+}
+
+function buildJsonDocument(result: ConversionResult, fileName: string) {
+  return {
+    source: fileName,
+    exportedAt: new Date().toISOString(),
+    mode: result.mode,
+    tables: result.tables.map((table, index) => {
+      const enhanced = table as EnhancedExtractedTable;
+      const metadata = 'metadata' in enhanced ? enhanced.metadata : null;
+      const headerRowCount = metadata?.headerRowCount ?? 0;
+
+      return {
+        index: index + 1,
+        source: table.source,
+        pageNumber: table.pageNumber,
+        pageNumbers: table.pageNumbers || [table.pageNumber],
+        letterhead: table.letterhead || [],
+        headers: enhanced.headerRow ?? null,
+        headerStructure: enhanced.headerStructure ?? null,
+        // Data rows only - the header rows are in headers/headerStructure
+        rows: table.rows.slice(headerRowCount),
+        metadata,
+      };
+    }),
+    textContent: result.textContent,
+  };
+}
+
+export function downloadDataExport(dataExport: DataExport): void {
+  const url = URL.createObjectURL(dataExport.blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = dataExport.fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -12,9 +12,21 @@ import {
   convertInchesToTwip,
   Packer,
   ImageRun,
+  Header,
+  Footer,
+  PageNumber,
+  SectionType,
+  TableOfContents,
+  PageBreak,
+  ExternalHyperlink,
+  InternalHyperlink,
+  Bookmark,
+  type IRunOptions,
+  type ParagraphChild,
 } from 'docx';
-import type { DocumentStructure, DocumentElement, ConversionResult } from './types';
+import type { DocumentStructure, DocumentElement, ConversionResult, TextLink } from './types';
 import type { EnhancedExtractedTable } from './tableExtractor';
+import { formatCellText, isDayFirstColumn } from './columnFormat';
 
 // Document styling constants
 const FONTS = {
@@ -40,6 +52,15 @@ const SPACING = {
   lineSpacing: 276,  // 1.15 line spacing (240 = single)
 };
 
+// Word heading styles for subheadings, by level (2 and deeper - outline entries can nest past what Word has)
+const SUBHEADING_LEVELS = [
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
 const COLORS = {
   title: '1E3A5F',
   heading: '2C5282',
@@ -48,20 +69,35 @@ const COLORS = {
   tableHeaderText: 'FFFFFF',
   tableBorder: 'CBD5E1',
   tableAltRow: 'F1F5F9',
+  link: '0563C1',
 };
 
+export interface DocExportOptions {
+  // Start with a table of contents built from the headings, filled in by Word when the file opens
+  tableOfContents?: boolean;
+  // Turn the PDF's running headers, footers and page numbers into Word headers and footers (on unless false)
+  runningHeaders?: boolean;
+}
+
 export async function generateDocFromStructure(
   structure: DocumentStructure,
   fileName: string,
-  onProgress?: (progress: number, step: string) => void
+  onProgress?: (progress: number, step: string) => void,
+  options: DocExportOptions = {}
 ): Promise<Blob> {
   onProgress?.(80, 'Creating Word document...');
 
-  const children: (Paragraph | Table)[] = [];
+  const sections: ContentSection[] = [];
+  const anchors = createLinkAnchors(structure.elements);
 
   // Add document title if present
   if (structure.title) {
-    children.push(createTitleParagraph(structure.title));
+    addToSection(sections, 1, createTitleParagraph(structure.title));
+  }
+
+  const deepestHeading = getDeepestHeadingLevel(structure.elements);
+  if (options.tableOfContents && deepestHeading > 0) {
+    createTableOfContents(deepestHeading).forEach((child) => addToSection(sections, 1, child));
   }
 
   // Process each element
@@ -72,13 +108,15 @@ export async function generateDocFromStructure(
       onProgress?.(progress, 'Formatting document...');
     }
 
+    const columns = element.columns ?? 1;
+
     // Handle different element types
     if (element.type === 'table' && element.tableData) {
       // Add table element
       const table = createTableFromData(element.tableData.rows, element.tableData.hasHeader);
-      children.push(table);
+      addToSection(sections, columns, table);
       // Add spacing after table
-      children.push(new Paragraph({
+      addToSection(sections, columns, new Paragraph({
         children: [],
         spacing: { after: SPACING.afterParagraph * 2 },
       }));
@@ -86,17 +124,19 @@ export async function generateDocFromStructure(
       // Add image element
       const imageParagraph = await createImageParagraph(element.imageData);
       if (imageParagraph) {
-        children.push(imageParagraph);
+        addToSection(sections, columns, imageParagraph);
       }
     } else {
-      const paragraph = elementToParagraph(element);
+      const paragraph = elementToParagraph(element, anchors);
       if (paragraph) {
-        children.push(paragraph);
+        addToSection(sections, columns, paragraph);
       }
     }
   }
 
   const doc = new Document({
+    // Asks Word to fill in the table of contents' entries and page numbers on open
+    features: options.tableOfContents ? { updateFields: true } : undefined,
     styles: {
       default: {
         document: {
@@ -107,21 +147,7 @@ export async function generateDocFromStructure(
         },
       },
     },
-    sections: [
-      {
-        properties: {
-          page: {
-            margin: {
-              top: convertInchesToTwip(1),
-              right: convertInchesToTwip(1),
-              bottom: convertInchesToTwip(1),
-              left: convertInchesToTwip(1),
-            },
-          },
-        },
-        children,
-      },
-    ],
+    sections: createSections(sections, options.runningHeaders === false ? undefined : structure),
   });
 
   onProgress?.(95, 'Generating document file...');
@@ -235,31 +261,34 @@ export async function generateDocFromResult(
 
   // If we have document structure AND no tables, use structure for better formatting
   // (Tables are already added above, so only use structure for text-mode documents)
+  let sections: ContentSection[] = [{ columns: 1, children }];
   if (result.documentStructure && result.mode !== 'tables') {
-    // Clear and rebuild with proper structure for text documents
-    children.length = 0;
+    // Rebuild with proper structure for text documents
+    sections = [];
+    const anchors = createLinkAnchors(result.documentStructure.elements);
 
     if (result.documentStructure.title) {
-      children.push(createTitleParagraph(result.documentStructure.title));
+      addToSection(sections, 1, createTitleParagraph(result.documentStructure.title));
     }
 
     for (const element of result.documentStructure.elements) {
+      const columns = element.columns ?? 1;
       if (element.type === 'table' && element.tableData) {
         const table = createTableFromData(element.tableData.rows, element.tableData.hasHeader);
-        children.push(table);
-        children.push(new Paragraph({
+        addToSection(sections, columns, table);
+        addToSection(sections, columns, new Paragraph({
           children: [],
           spacing: { after: SPACING.afterParagraph * 2 },
         }));
       } else if (element.type === 'image' && element.imageData) {
         const imageParagraph = await createImageParagraph(element.imageData);
         if (imageParagraph) {
-          children.push(imageParagraph);
+          addToSection(sections, columns, imageParagraph);
         }
       } else {
-        const paragraph = elementToParagraph(element);
+        const paragraph = elementToParagraph(element, anchors);
         if (paragraph) {
-          children.push(paragraph);
+          addToSection(sections, columns, paragraph);
         }
       }
     }
@@ -276,21 +305,7 @@ export async function generateDocFromResult(
         },
       },
     },
-    sections: [
-      {
-        properties: {
-          page: {
-            margin: {
-              top: convertInchesToTwip(1),
-              right: convertInchesToTwip(1),
-              bottom: convertInchesToTwip(1),
-              left: convertInchesToTwip(1),
-            },
-          },
-        },
-        children,
-      },
-    ],
+    sections: createSections(sections, result.mode !== 'tables' ? result.documentStructure : undefined),
   });
 
   onProgress?.(95, 'Generating document file...');
@@ -302,6 +317,107 @@ export async function generateDocFromResult(
   return blob;
 }
 
+// Deepest Word heading level the elements use (0 when there are no headings)
+function getDeepestHeadingLevel(elements: DocumentElement[]): number {
+  return elements.reduce((deepest, element) => {
+    if (element.type === 'heading') return Math.max(deepest, 1);
+    if (element.type === 'subheading') return Math.max(deepest, Math.min(element.level ?? 2, 6));
+    return deepest;
+  }, 0);
+}
+
+/**
+ * A contents page: a heading (kept out of the contents itself) and a TOC field over the
+ * heading styles in use. Word builds the entries and page numbers when it updates the field.
+ */
+function createTableOfContents(deepestHeading: number): (Paragraph | TableOfContents)[] {
+  return [
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: 'Contents',
+          font: FONTS.heading,
+          size: FONT_SIZES.heading1,
+          color: COLORS.heading,
+          bold: true,
+        }),
+      ],
+      spacing: {
+        before: SPACING.beforeHeading,
+        after: SPACING.afterHeading,
+      },
+    }),
+    new TableOfContents('Contents', {
+      hyperlink: true,
+      headingStyleRange: `1-${deepestHeading}`,
+    }),
+    new Paragraph({ children: [new PageBreak()] }),
+  ];
+}
+
+// A run of content sharing one column layout
+interface ContentSection {
+  columns: number;
+  children: (Paragraph | Table | TableOfContents)[];
+}
+
+function addToSection(sections: ContentSection[], columns: number, child: Paragraph | Table | TableOfContents): void {
+  const current = sections[sections.length - 1];
+  if (current && current.columns === columns) {
+    current.children.push(child);
+  } else {
+    sections.push({ columns, children: [child] });
+  }
+}
+
+/**
+ * One Word section per run of content, keeping multi-column stretches of the PDF in columns.
+ * Later sections continue on the same page and inherit the first one's header and footer.
+ */
+function createSections(sections: ContentSection[], structure?: DocumentStructure) {
+  return (sections.length > 0 ? sections : [{ columns: 1, children: [] }]).map((section, index) => ({
+    properties: {
+      type: index > 0 ? SectionType.CONTINUOUS : undefined,
+      column: section.columns > 1 ? { count: section.columns, space: convertInchesToTwip(0.3) } : undefined,
+      page: {
+        margin: {
+          top: convertInchesToTwip(1),
+          right: convertInchesToTwip(1),
+          bottom: convertInchesToTwip(1),
+          left: convertInchesToTwip(1),
+        },
+      },
+    },
+    ...(index === 0 && structure ? createRunningText(structure) : {}),
+    children: section.children,
+  }));
+}
+
+/**
+ * Word headers and footers from the PDF's running text, with live page number fields
+ */
+function createRunningText(structure: DocumentStructure): { headers?: { default: Header }; footers?: { default: Footer } } {
+  const toParagraph = (line: string) =>
+    new Paragraph({
+      children: [
+        new TextRun({
+          children: line
+            .split(/(\{page\}|\{pages\})/)
+            .filter(Boolean)
+            .map((part) => (part === '{page}' ? PageNumber.CURRENT : part === '{pages}' ? PageNumber.TOTAL_PAGES : part)),
+          size: FONT_SIZES.small,
+          color: COLORS.body,
+        }),
+      ],
+      alignment: AlignmentType.CENTER,
+    });
+
+  return {
+    headers: structure.header?.length ? { default: new Header({ children: structure.header.map(toParagraph) }) } : undefined,
+    footers: structure.footer?.length ? { default: new Footer({ children: structure.footer.map(toParagraph) }) } : undefined,
+  };
+}
+
 function createTitleParagraph(title: string): Paragraph {
   return new Paragraph({
     children: [
@@ -322,7 +438,7 @@ function createTitleParagraph(title: string): Paragraph {
   });
 }
 
-function elementToParagraph(element: DocumentElement): Paragraph | null {
+function elementToParagraph(element: DocumentElement, anchors?: LinkAnchors): Paragraph | null {
   if (element.type === 'whitespace') {
     return new Paragraph({
       children: [],
@@ -347,15 +463,12 @@ function elementToParagraph(element: DocumentElement): Paragraph | null {
   switch (element.type) {
     case 'title':
       return new Paragraph({
-        children: [
-          new TextRun({
-            text: element.content,
-            font: FONTS.heading,
-            size: FONT_SIZES.title,
-            color: COLORS.title,
-            bold: true,
-          }),
-        ],
+        children: createContentRuns(element, anchors, {
+          font: FONTS.heading,
+          size: FONT_SIZES.title,
+          color: COLORS.title,
+          bold: true,
+        }),
         heading: HeadingLevel.TITLE,
         alignment: getAlignment(),
         spacing: {
@@ -366,15 +479,12 @@ function elementToParagraph(element: DocumentElement): Paragraph | null {
 
     case 'heading':
       return new Paragraph({
-        children: [
-          new TextRun({
-            text: element.content,
-            font: FONTS.heading,
-            size: FONT_SIZES.heading1,
-            color: COLORS.heading,
-            bold: true,
-          }),
-        ],
+        children: createContentRuns(element, anchors, {
+          font: FONTS.heading,
+          size: FONT_SIZES.heading1,
+          color: COLORS.heading,
+          bold: true,
+        }),
         heading: HeadingLevel.HEADING_1,
         alignment: getAlignment(),
         spacing: {
@@ -385,16 +495,13 @@ function elementToParagraph(element: DocumentElement): Paragraph | null {
 
     case 'subheading':
       return new Paragraph({
-        children: [
-          new TextRun({
-            text: element.content,
-            font: FONTS.heading,
-            size: FONT_SIZES.heading2,
-            color: COLORS.heading,
-            bold: true,
-          }),
-        ],
-        heading: HeadingLevel.HEADING_2,
+        children: createContentRuns(element, anchors, {
+          font: FONTS.heading,
+          size: FONT_SIZES.heading2,
+          color: COLORS.heading,
+          bold: true,
+        }),
+        heading: SUBHEADING_LEVELS[Math.min(Math.max((element.level ?? 2) - 2, 0), SUBHEADING_LEVELS.length - 1)],
         alignment: getAlignment(),
         spacing: {
           before: SPACING.beforeHeading,
@@ -404,16 +511,13 @@ function elementToParagraph(element: DocumentElement): Paragraph | null {
 
     case 'bullet':
       return new Paragraph({
-        children: [
-          new TextRun({
-            text: element.content,
-            font: FONTS.body,
-            size: FONT_SIZES.body,
-            color: COLORS.body,
-            bold: element.isBold,
-            italics: element.isItalic,
-          }),
-        ],
+        children: createContentRuns(element, anchors, {
+          font: FONTS.body,
+          size: FONT_SIZES.body,
+          color: COLORS.body,
+          bold: element.isBold,
+          italics: element.isItalic,
+        }),
         bullet: {
           level: (element.level || 1) - 1,
         },
@@ -430,16 +534,13 @@ function elementToParagraph(element: DocumentElement): Paragraph | null {
 
     case 'numbered':
       return new Paragraph({
-        children: [
-          new TextRun({
-            text: element.content,
-            font: FONTS.body,
-            size: FONT_SIZES.body,
-            color: COLORS.body,
-            bold: element.isBold,
-            italics: element.isItalic,
-          }),
-        ],
+        children: createContentRuns(element, anchors, {
+          font: FONTS.body,
+          size: FONT_SIZES.body,
+          color: COLORS.body,
+          bold: element.isBold,
+          italics: element.isItalic,
+        }),
         numbering: {
           reference: 'default-numbering',
           level: (element.level || 1) - 1,
@@ -458,16 +559,13 @@ function elementToParagraph(element: DocumentElement): Paragraph | null {
     case 'paragraph':
     default:
       return new Paragraph({
-        children: [
-          new TextRun({
-            text: element.content,
-            font: FONTS.body,
-            size: FONT_SIZES.body,
-            color: COLORS.body,
-            bold: element.isBold,
-            italics: element.isItalic,
-          }),
-        ],
+        children: createContentRuns(element, anchors, {
+          font: FONTS.body,
+          size: FONT_SIZES.body,
+          color: COLORS.body,
+          bold: element.isBold,
+          italics: element.isItalic,
+        }),
         alignment: getAlignment(),
         indent: element.indent
           ? { left: convertInchesToTwip(0.5 * element.indent) }
@@ -481,6 +579,84 @@ function elementToParagraph(element: DocumentElement): Paragraph | null {
   }
 }
 
+/**
+ * The element's text as runs, with its linked parts as hyperlinks. Wrapped in a bookmark when
+ * a link elsewhere in the document lands on this element.
+ */
+function createContentRuns(element: DocumentElement, anchors: LinkAnchors | undefined, run: IRunOptions): ParagraphChild[] {
+  const { content } = element;
+  const runs: ParagraphChild[] = [];
+  let cursor = 0;
+
+  element.links?.forEach((link) => {
+    const start = content.indexOf(link.text, cursor);
+    const anchor = anchors?.targets.get(link);
+    if (start === -1 || !link.text || (!link.url && !anchor)) return;
+
+    if (start > cursor) runs.push(new TextRun({ ...run, text: content.slice(cursor, start) }));
+    const linkRun = new TextRun({ ...run, text: link.text, color: COLORS.link, underline: {} });
+    runs.push(
+      link.url
+        ? new ExternalHyperlink({ link: link.url, children: [linkRun] })
+        : new InternalHyperlink({ anchor: anchor!, children: [linkRun] })
+    );
+    cursor = start + link.text.length;
+  });
+  if (cursor < content.length || runs.length === 0) runs.push(new TextRun({ ...run, text: content.slice(cursor) }));
+
+  const bookmark = anchors?.bookmarks.get(element);
+  return bookmark ? [new Bookmark({ id: bookmark, children: runs })] : runs;
+}
+
+// Bookmarks for links that jump within the document: the name of each element a link lands
+// on, and the bookmark each link points at
+interface LinkAnchors {
+  bookmarks: Map<DocumentElement, string>;
+  targets: Map<TextLink, string>;
+}
+
+/**
+ * Resolve links within the PDF to the text they land on: on the target page, the element
+ * nearest the top of the linked view, or the page's first when the link doesn't set one.
+ * Links to pages that weren't extracted stay plain text.
+ */
+function createLinkAnchors(elements: DocumentElement[]): LinkAnchors {
+  const anchors: LinkAnchors = { bookmarks: new Map(), targets: new Map() };
+
+  elements.forEach((element) => {
+    element.links?.forEach((link) => {
+      if (link.url || link.page === undefined) return;
+      const landing = findLinkLanding(elements, link.page, link.y);
+      if (!landing) return;
+
+      // Names starting with an underscore are hidden bookmarks in Word
+      if (!anchors.bookmarks.has(landing)) anchors.bookmarks.set(landing, `_Link${anchors.bookmarks.size + 1}`);
+      anchors.targets.set(link, anchors.bookmarks.get(landing)!);
+    });
+  });
+
+  return anchors;
+}
+
+function findLinkLanding(elements: DocumentElement[], page: number, y?: number): DocumentElement | undefined {
+  const candidates = elements.filter(
+    (element) =>
+      element.page === page &&
+      element.type !== 'table' &&
+      element.type !== 'image' &&
+      element.type !== 'whitespace' &&
+      element.content.trim()
+  );
+  if (y === undefined) return candidates[0];
+
+  const distance = (element: DocumentElement) =>
+    element.sourceBoxes?.length ? Math.abs(Math.min(...element.sourceBoxes.map((box) => box.top)) - y) : Infinity;
+  return candidates.reduce<DocumentElement | undefined>(
+    (best, element) => (!best || distance(element) < distance(best) ? element : best),
+    undefined
+  );
+}
+
 function createTableFromData(rows: string[][], hasHeader?: boolean): Table {
   const tableRows = rows.map((rowData, rowIndex) => {
     const isHeaderRow = rowIndex === 0 && hasHeader;
@@ -600,24 +776,55 @@ function createFormattedTable(table: ConversionResult['tables'][0]): Table {
   const enhancedTable = table as EnhancedExtractedTable;
   const hasHeader = enhancedTable.metadata?.hasDetectedHeader ?? true;
 
-  const rows = table.rows.map((rowData, rowIndex) => {
-    const isHeaderRow = rowIndex === 0 && hasHeader;
-    const isAlternateRow = !isHeaderRow && rowIndex % 2 === 1;
+  const headerStructure = enhancedTable.headerStructure ?? null;
+  const headerRowCount = headerStructure?.rowCount ?? (hasHeader ? 1 : 0);
+
+  // Columns formatted by hand in the preview show their values in that format, amounts right-aligned
+  const metadata = enhancedTable.metadata;
+  const columnFormats = (metadata?.columnFormats ?? []).map((format, col) =>
+    format
+      ? {
+          ...format,
+          type: metadata.columnTypes[col],
+          currencySymbol: metadata.columnCurrencySymbols[col] ?? undefined,
+          dayFirst: isDayFirstColumn(table.rows.slice(headerRowCount).map((row) => row[col] || '')),
+        }
+      : null
+  );
 
-    const cells = rowData.map((cellText) => {
+  const rows = table.rows.map((rowData, rowIndex) => {
+    const isHeaderRow = rowIndex < headerRowCount;
+    const isAlternateRow = !isHeaderRow && (rowIndex - Math.max(headerRowCount, 1)) % 2 === 0;
+
+    // Grouped header rows only carry the cells that start on them; docx fills
+    // in the continuation cells for columnSpan/rowSpan itself
+    const cellSpecs = headerStructure && isHeaderRow
+      ? headerStructure.cells
+          .filter((cell) => cell.row === rowIndex)
+          .sort((a, b) => a.col - b.col)
+          .map((cell) => ({ text: cell.text, columnSpan: cell.colSpan, rowSpan: cell.rowSpan }))
+      : rowData.map((text) => ({ text, columnSpan: 1, rowSpan: 1 }));
+
+    const cells = cellSpecs.map(({ text: cellText, columnSpan, rowSpan }, col) => {
+      const format = isHeaderRow ? null : columnFormats[col];
       return new TableCell({
+        columnSpan: columnSpan > 1 ? columnSpan : undefined,
+        rowSpan: rowSpan > 1 ? rowSpan : undefined,
         children: [
           new Paragraph({
             children: [
               new TextRun({
-                text: cellText || '',
+                text: format
+                  ? formatCellText(cellText || '', format, metadata.decimalSeparator, format.dayFirst)
+                  : cellText || '',
                 font: FONTS.body,
                 size: isHeaderRow ? FONT_SIZES.body : FONT_SIZES.small,
                 color: isHeaderRow ? COLORS.tableHeaderText : COLORS.body,
                 bold: isHeaderRow,
               }),
             ],
-            alignment: AlignmentType.LEFT,
+            alignment:
+              format?.type === 'number' || format?.type === 'currency' ? AlignmentType.RIGHT : AlignmentType.LEFT,
             spacing: {
               before: 60,
               after: 60,
@@ -1,6 +1,10 @@
 import XLSX from 'xlsx-js-style';
-import type { ConversionResult } from './types';
-import type { EnhancedExtractedTable } from './tableExtractor';
+import JSZip from 'jszip';
+import type { ConversionResult, DateFormat, LinkTarget, PdfLink } from './types';
+import type { EnhancedExtractedTable, HeaderStructure } from './tableExtractor';
+import { parseNumber, type DecimalSeparator } from './numberFormat';
+import { getExcelNumberFormat, isDayFirstColumn, parseDate } from './columnFormat';
+import { findCellLink } from './links';
 
 // Professional color palette
 const COLORS = {
@@ -26,8 +30,19 @@ const COLORS = {
   // Text mode
   textHeaderBg: '0D47A1',        // Dark blue for text mode
   pageColumnBg: 'E3F2FD',        // Light blue for page column
+
+  // Hyperlinks
+  link: '0563C1',                // Excel's own hyperlink blue
 };
 
+const EXCEL_EPOCH_OFFSET = 25569; // Days between Excel's 1899-12-30 epoch and 1970-01-01
+const MS_PER_DAY = 86400000;
+
+export interface ExcelExportOptions {
+  // Write date and number columns as real Excel values instead of the text shown in the PDF
+  typedCells?: boolean;
+}
+
 // Style factory functions
 function createHeaderStyle(columnType?: string) {
   const accentColor = columnType === 'number' ? COLORS.numberAccent
@@ -196,208 +211,155 @@ function createLetterheadStyle() {
   };
 }
 
+// Title row above each table in a combined batch sheet
+function createTableTitleStyle() {
+  return {
+    font: {
+      bold: true,
+      sz: 12,
+      name: 'Calibri',
+      color: { rgb: COLORS.headerBg }
+    },
+    alignment: {
+      horizontal: 'left',
+      vertical: 'center'
+    },
+    border: {
+      bottom: { style: 'medium', color: { rgb: COLORS.headerBg } },
+    },
+  };
+}
+
 export function generateExcel(
   result: ConversionResult,
   fileName: string,
-  onProgress?: (progress: number, step: string) => void
+  onProgress?: (progress: number, step: string) => void,
+  options: ExcelExportOptions = {}
 ): Blob {
   onProgress?.(80, 'Creating Excel workbook...');
 
   const workbook = XLSX.utils.book_new();
 
   if (result.mode === 'tables' && result.tables.length > 0) {
-    // Add each table as a separate sheet - with letterhead at top
+    const sheetNames = result.tables.map((table, index) => {
+      const pages = table.pageNumbers || [table.pageNumber];
+      const pageLabel = pages.length > 1 ? `P${pages[0]}-${pages[pages.length - 1]}` : `P${table.pageNumber}`;
+      return `Table ${index + 1} (${pageLabel})`.slice(0, 31);
+    });
+    // Links to another page of the PDF jump to the sheet holding that page's table
+    const pageSheets = new Map<number, string>();
     result.tables.forEach((table, index) => {
-      onProgress?.(80 + Math.floor((index / result.tables.length) * 15), `Styling table ${index + 1}...`);
-
-      const enhancedTable = table as EnhancedExtractedTable;
-      const hasMetadata = 'metadata' in enhancedTable;
-      const metadata = hasMetadata ? enhancedTable.metadata : null;
-      const hasHeader = metadata?.hasDetectedHeader ?? false;
-
-      // Get letterhead rows (if any)
-      const letterhead = table.letterhead || [];
-      const letterheadCount = letterhead.length;
-
-      // Get the number of columns from the data
-      const numCols = Math.max(...table.rows.map(r => r.length));
-
-      // Build sheet data - letterhead first, then table data
-      const sheetData: (string | number)[][] = [];
-
-      // Add letterhead rows first (each as a single cell spanning conceptually)
-      letterhead.forEach((text) => {
-        const row: string[] = [text];
-        // Fill remaining columns with empty strings
-        while (row.length < numCols) {
-          row.push('');
-        }
-        sheetData.push(row);
-      });
-
-      // Add table data
-      table.rows.forEach((row) => {
-        // Ensure each row has the same number of columns
-        const normalizedRow = [...row];
-        while (normalizedRow.length < numCols) {
-          normalizedRow.push('');
-        }
-        sheetData.push(normalizedRow);
+      (table.pageNumbers || [table.pageNumber]).forEach((page) => {
+        if (!pageSheets.has(page)) pageSheets.set(page, sheetNames[index]);
       });
+    });
 
-      const worksheet = XLSX.utils.aoa_to_sheet(sheetData);
-      const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
-
-      // Add merge cells for letterhead rows (span all columns)
-      const merges: XLSX.Range[] = [];
-      for (let i = 0; i < letterheadCount; i++) {
-        if (numCols > 1) {
-          merges.push({
-            s: { r: i, c: 0 },
-            e: { r: i, c: numCols - 1 }
-          });
-        }
-      }
-      if (merges.length > 0) {
-        worksheet['!merges'] = merges;
-      }
-
-      // Style all rows
-      for (let row = 0; row <= range.e.r; row++) {
-        const isLetterheadRow = row < letterheadCount;
-        const dataRowIndex = row - letterheadCount;
-        const isTableHeaderRow = !isLetterheadRow && dataRowIndex === 0 && hasHeader;
-        const isEvenDataRow = !isLetterheadRow && (dataRowIndex - (hasHeader ? 1 : 0)) % 2 === 0;
-
-        for (let col = 0; col < numCols; col++) {
-          const cellRef = XLSX.utils.encode_cell({ r: row, c: col });
-          let cell = worksheet[cellRef];
-
-          // Create cell if it doesn't exist
-          if (!cell) {
-            worksheet[cellRef] = { v: '', t: 's' };
-            cell = worksheet[cellRef];
-          }
+    // Add each table as a separate sheet - with letterhead at top
+    result.tables.forEach((table, index) => {
+      onProgress?.(80 + Math.floor((index / result.tables.length) * 15), `Styling table ${index + 1}...`);
 
-          if (isLetterheadRow) {
-            // Style letterhead rows
-            cell.s = createLetterheadStyle();
-          } else {
-            const columnType = metadata?.columnTypes?.[col];
-
-            if (isTableHeaderRow) {
-              cell.s = createHeaderStyle(columnType);
-            } else {
-              cell.s = createDataCellStyle(isEvenDataRow, columnType);
-
-              // Format currency ONLY if a currency symbol was actually detected in the PDF
-              if (columnType === 'currency') {
-                const currencySymbol = metadata?.columnCurrencySymbols?.[col];
-
-                // Only apply currency formatting if a currency symbol was actually detected
-                if (currencySymbol) {
-                  const value = cell.v;
-                  if (typeof value === 'string' && value.trim()) {
-                    // Remove all currency symbols and formatting to get the numeric value
-                    const numValue = parseFloat(value.replace(/[₦$€£,\s]/g, ''));
-                    if (!isNaN(numValue)) {
-                      cell.v = numValue;
-                      cell.t = 'n';
-
-                      // Apply the detected currency format
-                      if (currencySymbol === '₦') {
-                        cell.z = '₦#,##0.00'; // Naira format
-                      } else if (currencySymbol === '€') {
-                        cell.z = '€#,##0.00'; // Euro format
-                      } else if (currencySymbol === '£') {
-                        cell.z = '£#,##0.00'; // Pound format
-                      } else if (currencySymbol === '$') {
-                        cell.z = '$#,##0.00'; // Dollar format
-                      }
-                    }
-                  }
-                }
-                // If no currency symbol detected, leave the cell as-is (original text)
-              }
-              // For regular numbers without currency symbols, leave them exactly as they appear
-              // Do NOT convert or add any formatting - preserve the original representation
-            }
-          }
-        }
-      }
+      const worksheet = XLSX.utils.aoa_to_sheet([]);
+      writeTable(worksheet, table, 0, options, { links: result.links, pageSheets });
 
       // Calculate and set column widths based on actual data (including letterhead)
+      const letterhead = table.letterhead || [];
       const allRows = [...letterhead.map(text => [text]), ...table.rows];
       const colWidths = calculateColumnWidths(allRows as string[][]);
       worksheet['!cols'] = colWidths.map((w) => ({
         wch: Math.min(Math.max(w + 4, 10), 60) // Slightly wider max for letterhead
       }));
 
-      // Set row heights
-      const rowHeights: XLSX.RowInfo[] = [];
-      // Letterhead rows
-      for (let i = 0; i < letterheadCount; i++) {
-        rowHeights[i] = { hpt: 22 }; // Letterhead row height
-      }
-      // Table header row
-      if (hasHeader && letterheadCount >= 0) {
-        rowHeights[letterheadCount] = { hpt: 26 }; // Header row after letterhead
-      }
-      worksheet['!rows'] = rowHeights;
-
       // Sheet name with table info
-      const sheetName = `Table ${index + 1} (P${table.pageNumber})`.slice(0, 31);
-      XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+      XLSX.utils.book_append_sheet(workbook, worksheet, sheetNames[index]);
     });
 
   } else if (result.textContent.length > 0) {
     // Text mode with enhanced styling
     onProgress?.(85, 'Creating styled text content sheet...');
+    XLSX.utils.book_append_sheet(workbook, createTextSheet(result), 'PDF_Content');
+  }
 
-    const data: (string | number)[][] = [
-      ['Page', 'Content'],
-      ...result.textContent.map((item) => [item.page, item.content]),
-    ];
+  return writeWorkbook(workbook, onProgress);
+}
 
-    const worksheet = XLSX.utils.aoa_to_sheet(data);
-    const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+/**
+ * Build one workbook for a batch of converted PDFs, with a sheet per file.
+ * A file's tables are stacked on its sheet, each under a title row naming where it came from.
+ */
+export function generateBatchWorkbook(
+  entries: { fileName: string; result: ConversionResult }[],
+  onProgress?: (progress: number, step: string) => void,
+  options: ExcelExportOptions = {}
+): Blob {
+  onProgress?.(80, 'Creating combined workbook...');
 
-    // Style all cells
-    for (let row = range.s.r; row <= range.e.r; row++) {
-      for (let col = range.s.c; col <= range.e.c; col++) {
-        const cellRef = XLSX.utils.encode_cell({ r: row, c: col });
-        const cell = worksheet[cellRef];
+  const workbook = XLSX.utils.book_new();
+  const usedSheetNames = new Set<string>();
 
-        if (cell) {
-          if (row === 0) {
-            // Header row
-            cell.s = createTextModeHeaderStyle();
-          } else {
-            const isEven = row % 2 === 0;
-            if (col === 0) {
-              // Page number column
-              cell.s = createPageCellStyle(isEven);
-            } else {
-              // Content column
-              cell.s = createContentCellStyle(isEven);
-            }
-          }
-        }
-      }
+  entries.forEach(({ fileName, result }, index) => {
+    onProgress?.(80 + Math.floor((index / entries.length) * 15), `Adding ${fileName}...`);
+
+    let worksheet: XLSX.WorkSheet;
+
+    if (result.mode === 'tables' && result.tables.length > 0) {
+      worksheet = XLSX.utils.aoa_to_sheet([]);
+      const allRows: string[][] = [];
+      let nextRow = 0;
+
+      result.tables.forEach((table) => {
+        XLSX.utils.sheet_add_aoa(worksheet, [[table.source]], { origin: nextRow });
+        worksheet[XLSX.utils.encode_cell({ r: nextRow, c: 0 })].s = createTableTitleStyle();
+        allRows.push([table.source], ...(table.letterhead || []).map((text) => [text]), ...table.rows);
+
+        // Leave a blank row between tables
+        nextRow = writeTable(worksheet, table, nextRow + 1, options, { links: result.links }) + 1;
+      });
+
+      worksheet['!cols'] = calculateColumnWidths(allRows).map((w) => ({
+        wch: Math.min(Math.max(w + 4, 10), 60)
+      }));
+    } else {
+      worksheet = createTextSheet(result);
     }
 
-    // Set column widths - Page column narrow, Content column wide
-    worksheet['!cols'] = [
-      { wch: 8 },   // Page column
-      { wch: 100 }, // Content column
-    ];
+    XLSX.utils.book_append_sheet(workbook, worksheet, getUniqueSheetName(fileName, usedSheetNames));
+  });
+
+  return writeWorkbook(workbook, onProgress);
+}
 
-    // Set row heights
-    worksheet['!rows'] = [{ hpt: 28 }]; // Header row
+/**
+ * Convert each PDF in a batch to its own workbook and bundle them into one zip
+ */
+export async function generateExcelZip(
+  entries: { fileName: string; result: ConversionResult }[],
+  onProgress?: (progress: number, step: string) => void,
+  options: ExcelExportOptions = {}
+): Promise<Blob> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  entries.forEach(({ fileName, result }, index) => {
+    onProgress?.(Math.floor((index / entries.length) * 90), `Creating workbook for ${fileName}...`);
+
+    // Two PDFs with the same name (from different folders) mustn't overwrite each other
+    const baseName = fileName.replace(/\.pdf$/i, '');
+    let entryName = `${baseName}.xlsx`;
+    for (let suffix = 2; usedNames.has(entryName.toLowerCase()); suffix++) {
+      entryName = `${baseName} (${suffix}).xlsx`;
+    }
+    usedNames.add(entryName.toLowerCase());
 
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'PDF_Content');
-  }
+    zip.file(entryName, generateExcel(result, fileName, undefined, options));
+  });
 
+  onProgress?.(92, 'Creating zip archive...');
+  const blob = await zip.generateAsync({ type: 'blob' });
+  onProgress?.(100, 'Complete!');
+  return blob;
+}
+
+function writeWorkbook(workbook: XLSX.WorkBook, onProgress?: (progress: number, step: string) => void): Blob {
   onProgress?.(95, 'Generating Excel file...');
 
   // Generate the Excel file
@@ -413,6 +375,311 @@ export function generateExcel(
   });
 }
 
+// The PDF's link annotations, and the sheet each page's table is on for links within the PDF
+interface TableLinks {
+  links?: PdfLink[];
+  pageSheets?: Map<number, string>;
+}
+
+/**
+ * Write a table (letterhead, header rows and data) into a worksheet starting at startRow,
+ * with styles, merges, typed values and hyperlinks. Returns the row after the table.
+ */
+function writeTable(
+  worksheet: XLSX.WorkSheet,
+  table: ConversionResult['tables'][0],
+  startRow: number,
+  options: ExcelExportOptions,
+  { links = [], pageSheets }: TableLinks = {}
+): number {
+  const enhancedTable = table as EnhancedExtractedTable;
+  const hasMetadata = 'metadata' in enhancedTable;
+  const metadata = hasMetadata ? enhancedTable.metadata : null;
+  const hasHeader = metadata?.hasDetectedHeader ?? false;
+  const headerStructure = hasMetadata ? enhancedTable.headerStructure : null;
+  const headerRowCount = headerStructure?.rowCount ?? (hasHeader ? 1 : 0);
+  const decimalSeparator = metadata?.decimalSeparator ?? '.';
+
+  // Get letterhead rows (if any)
+  const letterhead = table.letterhead || [];
+  const letterheadCount = letterhead.length;
+
+  // Get the number of columns from the data
+  const numCols = Math.max(...table.rows.map(r => r.length));
+
+  // Build sheet data - letterhead first, then table data
+  const sheetData: (string | number)[][] = [];
+
+  // Add letterhead rows first (each as a single cell spanning conceptually)
+  letterhead.forEach((text) => {
+    const row: string[] = [text];
+    // Fill remaining columns with empty strings
+    while (row.length < numCols) {
+      row.push('');
+    }
+    sheetData.push(row);
+  });
+
+  // Header rows come from the header structure so spanned labels sit in the top-left cell of their merge
+  const headerGrid = headerStructure ? buildHeaderGrid(headerStructure, numCols) : null;
+
+  // Add table data
+  table.rows.forEach((row, rowIndex) => {
+    // Ensure each row has the same number of columns
+    const normalizedRow = headerGrid && rowIndex < headerGrid.length ? [...headerGrid[rowIndex]] : [...row];
+    while (normalizedRow.length < numCols) {
+      normalizedRow.push('');
+    }
+    sheetData.push(normalizedRow);
+  });
+
+  XLSX.utils.sheet_add_aoa(worksheet, sheetData, { origin: startRow });
+
+  // Columns formatted by hand in the preview are always written as real values
+  const columnFormats = metadata?.columnFormats || [];
+
+  // Slash dates are read day-first unless the column shows they can't be
+  const dayFirstColumns = (metadata?.columnTypes || []).map((type, col) =>
+    type === 'date' && (options.typedCells || columnFormats[col])
+      ? isDayFirstColumn(table.rows.slice(headerRowCount).map((row) => row[col] || ''))
+      : true
+  );
+
+  // Add merge cells for letterhead rows (span all columns)
+  const merges: XLSX.Range[] = [];
+  for (let i = 0; i < letterheadCount; i++) {
+    if (numCols > 1) {
+      merges.push({
+        s: { r: startRow + i, c: 0 },
+        e: { r: startRow + i, c: numCols - 1 }
+      });
+    }
+  }
+  // Merge grouped header cells across the columns (and header rows) they span
+  headerStructure?.cells.forEach((cell) => {
+    if (cell.rowSpan > 1 || cell.colSpan > 1) {
+      merges.push({
+        s: { r: startRow + letterheadCount + cell.row, c: cell.col },
+        e: { r: startRow + letterheadCount + cell.row + cell.rowSpan - 1, c: cell.col + cell.colSpan - 1 }
+      });
+    }
+  });
+  if (merges.length > 0) {
+    worksheet['!merges'] = [...(worksheet['!merges'] || []), ...merges];
+  }
+
+  // Style all rows
+  for (let offset = 0; offset < sheetData.length; offset++) {
+    const row = startRow + offset;
+    const isLetterheadRow = offset < letterheadCount;
+    const dataRowIndex = offset - letterheadCount;
+    const isTableHeaderRow = !isLetterheadRow && dataRowIndex < headerRowCount;
+    const isEvenDataRow = !isLetterheadRow && (dataRowIndex - headerRowCount) % 2 === 0;
+
+    for (let col = 0; col < numCols; col++) {
+      const cellRef = XLSX.utils.encode_cell({ r: row, c: col });
+      let cell = worksheet[cellRef];
+
+      // Create cell if it doesn't exist
+      if (!cell) {
+        worksheet[cellRef] = { v: '', t: 's' };
+        cell = worksheet[cellRef];
+      }
+
+      if (isLetterheadRow) {
+        // Style letterhead rows
+        cell.s = createLetterheadStyle();
+      } else {
+        const columnType = metadata?.columnTypes?.[col];
+        const columnFormat = columnFormats[col] ?? null;
+
+        if (isTableHeaderRow) {
+          cell.s = createHeaderStyle(columnType);
+        } else {
+          cell.s = createDataCellStyle(isEvenDataRow, columnType);
+
+          // Format currency ONLY if a currency symbol was actually detected in the PDF
+          if (columnType === 'currency') {
+            const currencySymbol = metadata?.columnCurrencySymbols?.[col];
+
+            // Only apply currency formatting if a currency symbol was actually detected
+            if (currencySymbol) {
+              const value = cell.v;
+              if (typeof value === 'string' && value.trim()) {
+                // Handles (5,000.00), 5,000.00 DR, trailing minus and 1.234,56
+                const parsed = parseNumber(value, decimalSeparator);
+                if (parsed) {
+                  cell.v = parsed.value;
+                  cell.t = 'n';
+
+                  // Two decimal places unless the column sets its own
+                  cell.z = getExcelNumberFormat(columnFormat?.decimals ?? 2, currencySymbol);
+                }
+              }
+            }
+            // If no currency symbol detected, leave the cell as-is (original text)
+          } else if ((options.typedCells || columnFormat) && typeof cell.v === 'string' && cell.v.trim()) {
+            // Typed export: real dates and numbers so the sheet can be sorted and used in formulas
+            const typed = columnType === 'date'
+              ? parseDateCell(cell.v, dayFirstColumns[col] ?? true, columnFormat?.dateFormat)
+              : columnType === 'number'
+              ? parseNumberCell(cell.v, decimalSeparator, columnFormat?.decimals)
+              : null;
+            if (typed) {
+              cell.v = typed.value;
+              cell.t = 'n';
+              cell.z = typed.format;
+            }
+          }
+          // Otherwise leave numbers and dates exactly as they appear
+          // Do NOT convert or add any formatting - preserve the original representation
+        }
+
+        // Cells whose text sat under a link annotation in the PDF
+        const target = findCellLink(table.cellSources?.[dataRowIndex]?.[col] ?? [], links);
+        const hyperlink = target && getHyperlink(target, pageSheets);
+        if (hyperlink) {
+          cell.l = { Target: hyperlink, Tooltip: target.url ?? `Page ${target.page}` };
+          cell.s = { ...cell.s, font: { ...cell.s.font, color: { rgb: COLORS.link }, underline: true } };
+        }
+      }
+    }
+  }
+
+  // Set row heights
+  const rowHeights: XLSX.RowInfo[] = worksheet['!rows'] || [];
+  // Letterhead rows
+  for (let i = 0; i < letterheadCount; i++) {
+    rowHeights[startRow + i] = { hpt: 22 }; // Letterhead row height
+  }
+  // Table header rows
+  for (let i = 0; i < headerRowCount; i++) {
+    rowHeights[startRow + letterheadCount + i] = { hpt: 26 }; // Header rows after letterhead
+  }
+  worksheet['!rows'] = rowHeights;
+
+  return startRow + sheetData.length;
+}
+
+// Where a cell's hyperlink goes: the web address, or the sheet with the linked page's table
+function getHyperlink(target: LinkTarget, pageSheets?: Map<number, string>): string | null {
+  if (target.url) return target.url;
+  const sheetName = target.page !== undefined ? pageSheets?.get(target.page) : undefined;
+  return sheetName ? `#'${sheetName.replace(/'/g, "''")}'!A1` : null;
+}
+
+function createTextSheet(result: ConversionResult): XLSX.WorkSheet {
+  const data: (string | number)[][] = [
+    ['Page', 'Content'],
+    ...result.textContent.map((item) => [item.page, item.content]),
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+
+  // Style all cells
+  for (let row = range.s.r; row <= range.e.r; row++) {
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const cellRef = XLSX.utils.encode_cell({ r: row, c: col });
+      const cell = worksheet[cellRef];
+
+      if (cell) {
+        if (row === 0) {
+          // Header row
+          cell.s = createTextModeHeaderStyle();
+        } else {
+          const isEven = row % 2 === 0;
+          if (col === 0) {
+            // Page number column
+            cell.s = createPageCellStyle(isEven);
+          } else {
+            // Content column
+            cell.s = createContentCellStyle(isEven);
+          }
+        }
+      }
+    }
+  }
+
+  // Set column widths - Page column narrow, Content column wide
+  worksheet['!cols'] = [
+    { wch: 8 },   // Page column
+    { wch: 100 }, // Content column
+  ];
+
+  // Set row heights
+  worksheet['!rows'] = [{ hpt: 28 }]; // Header row
+
+  return worksheet;
+}
+
+/**
+ * Sheet names must be unique, at most 31 characters, and can't contain : \\ / ? * [ ]
+ */
+function getUniqueSheetName(fileName: string, usedNames: Set<string>): string {
+  const baseName = fileName.replace(/\.pdf$/i, '').replace(/[:\\/?*[\]]/g, '_').trim() || 'Sheet';
+
+  let name = baseName.slice(0, 31);
+  for (let suffix = 2; usedNames.has(name.toLowerCase()); suffix++) {
+    const tag = ` (${suffix})`;
+    name = baseName.slice(0, 31 - tag.length) + tag;
+  }
+
+  usedNames.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Lay out header cells on a rows x columns grid, with each label in the
+ * top-left position of the area it spans
+ */
+function buildHeaderGrid(headerStructure: HeaderStructure, numCols: number): string[][] {
+  const grid: string[][] = Array.from({ length: headerStructure.rowCount }, () =>
+    new Array(numCols).fill('')
+  );
+  headerStructure.cells.forEach((cell) => {
+    if (cell.row < grid.length && cell.col < numCols) {
+      grid[cell.row][cell.col] = cell.text;
+    }
+  });
+  return grid;
+}
+
+/**
+ * Parse a date in any format the column detector recognises into an Excel date serial.
+ * The cell shows the format it was written in unless the column sets one.
+ */
+function parseDateCell(
+  value: string,
+  dayFirst: boolean,
+  dateFormat?: DateFormat
+): { value: number; format: string } | null {
+  const date = parseDate(value, dayFirst);
+  if (!date) return null;
+
+  const timestamp = Date.UTC(date.year, date.month - 1, date.day);
+  return { value: timestamp / MS_PER_DAY + EXCEL_EPOCH_OFFSET, format: dateFormat ?? date.format };
+}
+
+/**
+ * Parse a plain number ("1,234.50", "(12)", "7.5%", "1.234,56") into a numeric value with a matching
+ * format. The decimal places are the ones written unless the column sets them.
+ */
+function parseNumberCell(
+  value: string,
+  decimalSeparator: DecimalSeparator,
+  decimalPlaces?: number
+): { value: number; format: string } | null {
+  const parsed = parseNumber(value, decimalSeparator);
+  if (!parsed) return null;
+
+  const places = decimalPlaces ?? parsed.decimals;
+  const decimals = places > 0 ? `.${'0'.repeat(places)}` : '';
+  if (parsed.percent) {
+    return { value: parsed.value / 100, format: `0${decimals}%` };
+  }
+  return { value: parsed.value, format: parsed.grouped ? `#,##0${decimals}` : `0${decimals}` };
+}
 
 function calculateColumnWidths(rows: string[][]): number[] {
   if (rows.length === 0) return [];
@@ -0,0 +1,394 @@
+import type { RulingLine, SourceBox, TextItem } from './types';
+import { textItemBox } from './sourceBoxes';
+
+// Ruling line detection constants
+const AXIS_TOLERANCE = 1; // Max drift (pt) for a segment to still count as horizontal/vertical
+const MIN_RULING_LENGTH = 8; // Ignore tiny strokes (tick marks, underlines of single characters)
+const MAX_FILLED_RULE_THICKNESS = 3; // Thin filled rectangles are drawn borders, thicker ones are shading
+const EDGE_TOLERANCE = 3; // Lines within this distance are treated as the same grid edge
+const MIN_GRID_ROWS = 2;
+const MIN_GRID_COLS = 2;
+
+/**
+ * The subset of pdf.js OPS codes we need to walk an operator list.
+ * Passed in by the caller so this module doesn't have to load pdf.js itself.
+ */
+export interface PathOps {
+  save: number;
+  restore: number;
+  transform: number;
+  moveTo: number;
+  lineTo: number;
+  curveTo: number;
+  curveTo2: number;
+  curveTo3: number;
+  closePath: number;
+  rectangle: number;
+  stroke: number;
+  closeStroke: number;
+  fill: number;
+  eoFill: number;
+  fillStroke: number;
+  eoFillStroke: number;
+  closeFillStroke: number;
+  closeEOFillStroke: number;
+  endPath: number;
+  constructPath: number;
+  paintFormXObjectBegin: number;
+  paintFormXObjectEnd: number;
+}
+
+export interface LatticeGrid {
+  page: number;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  rowEdges: number[]; // Sorted y-positions of horizontal rules (top to bottom)
+  colEdges: number[]; // Sorted x-positions of vertical rules (left to right)
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+interface PathSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+interface PathRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function multiplyMatrix(m: Matrix, n: number[]): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function applyMatrix(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/**
+ * Walk a page's operator list and collect the horizontal and vertical
+ * line segments it paints (stroked paths, stroked rectangles and thin
+ * filled rectangles). Coordinates are converted to the same top-left
+ * origin used by TextItem.
+ */
+export function parseRulingLines(
+  fnArray: number[],
+  argsArray: unknown[][],
+  ops: PathOps,
+  pageHeight: number,
+  pageNum: number
+): RulingLine[] {
+  const lines: RulingLine[] = [];
+  const stack: Matrix[] = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+  let segments: PathSegment[] = [];
+  let rects: PathRect[] = [];
+  // Current point and the start of its subpath, in device space
+  let current: [number, number] = [0, 0];
+  let subpathStart: [number, number] | null = null;
+
+  // Closing a subpath draws a segment back to where it started (the fourth side of a box)
+  const closeSubpath = () => {
+    if (!subpathStart) return;
+    if (current[0] !== subpathStart[0] || current[1] !== subpathStart[1]) {
+      segments.push({ x1: current[0], y1: current[1], x2: subpathStart[0], y2: subpathStart[1] });
+    }
+    current = subpathStart;
+  };
+
+  const addLine = (x1: number, y1: number, x2: number, y2: number) => {
+    // Flip to top-left origin
+    const top1 = pageHeight - y1;
+    const top2 = pageHeight - y2;
+
+    if (Math.abs(top1 - top2) <= AXIS_TOLERANCE && Math.abs(x2 - x1) >= MIN_RULING_LENGTH) {
+      const y = (top1 + top2) / 2;
+      lines.push({ page: pageNum, orientation: 'horizontal', x1: Math.min(x1, x2), y1: y, x2: Math.max(x1, x2), y2: y });
+    } else if (Math.abs(x1 - x2) <= AXIS_TOLERANCE && Math.abs(top2 - top1) >= MIN_RULING_LENGTH) {
+      const x = (x1 + x2) / 2;
+      lines.push({ page: pageNum, orientation: 'vertical', x1: x, y1: Math.min(top1, top2), x2: x, y2: Math.max(top1, top2) });
+    }
+  };
+
+  const flushPath = (mode: 'stroke' | 'fill' | 'discard') => {
+    if (mode === 'stroke') {
+      segments.forEach((s) => addLine(s.x1, s.y1, s.x2, s.y2));
+      rects.forEach((r) => {
+        addLine(r.x, r.y, r.x + r.width, r.y);
+        addLine(r.x, r.y + r.height, r.x + r.width, r.y + r.height);
+        addLine(r.x, r.y, r.x, r.y + r.height);
+        addLine(r.x + r.width, r.y, r.x + r.width, r.y + r.height);
+      });
+    } else if (mode === 'fill') {
+      // Many generators draw cell borders as thin filled rectangles
+      rects.forEach((r) => {
+        if (Math.abs(r.height) <= MAX_FILLED_RULE_THICKNESS) {
+          const y = r.y + r.height / 2;
+          addLine(r.x, y, r.x + r.width, y);
+        } else if (Math.abs(r.width) <= MAX_FILLED_RULE_THICKNESS) {
+          const x = r.x + r.width / 2;
+          addLine(x, r.y, x, r.y + r.height);
+        }
+      });
+    }
+    segments = [];
+    rects = [];
+    subpathStart = null;
+  };
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const fn = fnArray[i];
+    const args = argsArray[i];
+
+    if (fn === ops.save) {
+      stack.push(ctm);
+    } else if (fn === ops.restore) {
+      ctm = stack.pop() || ctm;
+    } else if (fn === ops.transform) {
+      ctm = multiplyMatrix(ctm, args as number[]);
+    } else if (fn === ops.paintFormXObjectBegin) {
+      stack.push(ctm);
+      const matrix = args?.[0] as number[] | null;
+      if (matrix) ctm = multiplyMatrix(ctm, matrix);
+    } else if (fn === ops.paintFormXObjectEnd) {
+      ctm = stack.pop() || ctm;
+    } else if (fn === ops.constructPath) {
+      const pathOps = args[0] as number[];
+      const coords = args[1] as number[];
+      let j = 0;
+
+      pathOps.forEach((op) => {
+        if (op === ops.rectangle) {
+          const [x, y, w, h] = coords.slice(j, j + 4);
+          j += 4;
+          const [dx1, dy1] = applyMatrix(ctm, x, y);
+          const [dx2, dy2] = applyMatrix(ctm, x + w, y + h);
+          rects.push({
+            x: Math.min(dx1, dx2),
+            y: Math.min(dy1, dy2),
+            width: Math.abs(dx2 - dx1),
+            height: Math.abs(dy2 - dy1),
+          });
+        } else if (op === ops.moveTo) {
+          current = applyMatrix(ctm, coords[j], coords[j + 1]);
+          subpathStart = current;
+          j += 2;
+        } else if (op === ops.lineTo) {
+          const next = applyMatrix(ctm, coords[j], coords[j + 1]);
+          j += 2;
+          segments.push({ x1: current[0], y1: current[1], x2: next[0], y2: next[1] });
+          current = next;
+        } else if (op === ops.curveTo) {
+          // Curves are never table rules - just track the end point
+          current = applyMatrix(ctm, coords[j + 4], coords[j + 5]);
+          j += 6;
+        } else if (op === ops.curveTo2 || op === ops.curveTo3) {
+          current = applyMatrix(ctm, coords[j + 2], coords[j + 3]);
+          j += 4;
+        } else if (op === ops.closePath) {
+          closeSubpath();
+        }
+      });
+    } else if (
+      fn === ops.stroke ||
+      fn === ops.closeStroke ||
+      fn === ops.fillStroke ||
+      fn === ops.eoFillStroke ||
+      fn === ops.closeFillStroke ||
+      fn === ops.closeEOFillStroke
+    ) {
+      if (fn === ops.closeStroke || fn === ops.closeFillStroke || fn === ops.closeEOFillStroke) closeSubpath();
+      flushPath('stroke');
+    } else if (fn === ops.fill || fn === ops.eoFill) {
+      flushPath('fill');
+    } else if (fn === ops.endPath) {
+      flushPath('discard');
+    }
+  }
+
+  return mergeCollinearLines(lines);
+}
+
+/**
+ * Join collinear segments that touch or overlap (borders are often drawn cell by cell)
+ */
+function mergeCollinearLines(lines: RulingLine[]): RulingLine[] {
+  const merged: RulingLine[] = [];
+
+  (['horizontal', 'vertical'] as const).forEach((orientation) => {
+    const isHorizontal = orientation === 'horizontal';
+    const sorted = lines
+      .filter((l) => l.orientation === orientation)
+      .sort((a, b) =>
+        isHorizontal ? a.y1 - b.y1 || a.x1 - b.x1 : a.x1 - b.x1 || a.y1 - b.y1
+      );
+
+    let current: RulingLine | null = null;
+    sorted.forEach((line) => {
+      if (current) {
+        const sameAxis = isHorizontal
+          ? Math.abs(line.y1 - current.y1) <= AXIS_TOLERANCE
+          : Math.abs(line.x1 - current.x1) <= AXIS_TOLERANCE;
+        const touches = isHorizontal
+          ? line.x1 <= current.x2 + EDGE_TOLERANCE
+          : line.y1 <= current.y2 + EDGE_TOLERANCE;
+
+        if (sameAxis && touches) {
+          if (isHorizontal) current.x2 = Math.max(current.x2, line.x2);
+          else current.y2 = Math.max(current.y2, line.y2);
+          return;
+        }
+      }
+      current = { ...line };
+      merged.push(current);
+    });
+  });
+
+  return merged;
+}
+
+function linesIntersect(h: RulingLine, v: RulingLine): boolean {
+  return (
+    v.x1 >= h.x1 - EDGE_TOLERANCE &&
+    v.x1 <= h.x2 + EDGE_TOLERANCE &&
+    h.y1 >= v.y1 - EDGE_TOLERANCE &&
+    h.y1 <= v.y2 + EDGE_TOLERANCE
+  );
+}
+
+/**
+ * Collapse nearby positions into single edges
+ */
+function uniqueEdges(positions: number[]): number[] {
+  const sorted = [...positions].sort((a, b) => a - b);
+  const edges: number[] = [];
+  sorted.forEach((pos) => {
+    if (edges.length === 0 || pos - edges[edges.length - 1] > EDGE_TOLERANCE) {
+      edges.push(pos);
+    }
+  });
+  return edges;
+}
+
+/**
+ * Build cell grids from a page's ruling lines.
+ * Lines are grouped into connected networks (every horizontal rule in a
+ * network crosses at least one vertical rule and vice versa); each network
+ * with enough rows and columns becomes a grid.
+ */
+export function detectLatticeGrids(lines: RulingLine[]): LatticeGrid[] {
+  const horizontals = lines.filter((l) => l.orientation === 'horizontal');
+  const verticals = lines.filter((l) => l.orientation === 'vertical');
+  if (horizontals.length < MIN_GRID_ROWS + 1 || verticals.length < MIN_GRID_COLS + 1) return [];
+
+  // Union-find over all lines, joining every crossing horizontal/vertical pair
+  const all = [...horizontals, ...verticals];
+  const parent = all.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  horizontals.forEach((h, hi) => {
+    verticals.forEach((v, vi) => {
+      if (linesIntersect(h, v)) {
+        parent[find(hi)] = find(horizontals.length + vi);
+      }
+    });
+  });
+
+  const networks = new Map<number, RulingLine[]>();
+  all.forEach((line, i) => {
+    const root = find(i);
+    const group = networks.get(root) || [];
+    group.push(line);
+    networks.set(root, group);
+  });
+
+  const grids: LatticeGrid[] = [];
+
+  networks.forEach((network) => {
+    const rowEdges = uniqueEdges(network.filter((l) => l.orientation === 'horizontal').map((l) => l.y1));
+    const colEdges = uniqueEdges(network.filter((l) => l.orientation === 'vertical').map((l) => l.x1));
+
+    // A grid of N rows needs N+1 horizontal edges
+    if (rowEdges.length < MIN_GRID_ROWS + 1 || colEdges.length < MIN_GRID_COLS + 1) return;
+
+    grids.push({
+      page: network[0].page,
+      left: colEdges[0],
+      top: rowEdges[0],
+      right: colEdges[colEdges.length - 1],
+      bottom: rowEdges[rowEdges.length - 1],
+      rowEdges,
+      colEdges,
+    });
+  });
+
+  return grids.sort((a, b) => a.top - b.top);
+}
+
+/**
+ * Check whether a text item's centre falls inside a grid (or any box with the same edges)
+ */
+export function isItemInGrid(
+  item: TextItem,
+  grid: Pick<LatticeGrid, 'left' | 'top' | 'right' | 'bottom'>
+): boolean {
+  const centerX = item.x + item.width / 2;
+  const centerY = item.y - item.height / 2;
+  return centerX >= grid.left && centerX <= grid.right && centerY >= grid.top && centerY <= grid.bottom;
+}
+
+function findCellIndex(edges: number[], position: number): number {
+  for (let i = 0; i < edges.length - 1; i++) {
+    if (position >= edges[i] && position < edges[i + 1]) return i;
+  }
+  return edges.length - 2;
+}
+
+/**
+ * Assign text items to the cells of a grid, returning each cell's text and the boxes it came from.
+ * Items are placed by their centre point; text within a cell is joined in
+ * reading order (top to bottom, left to right).
+ */
+export function assignItemsToGrid(
+  items: TextItem[],
+  grid: LatticeGrid
+): { rows: string[][]; sources: SourceBox[][][] } {
+  const numRows = grid.rowEdges.length - 1;
+  const numCols = grid.colEdges.length - 1;
+  const cellItems: TextItem[][][] = Array.from({ length: numRows }, () =>
+    Array.from({ length: numCols }, () => [] as TextItem[])
+  );
+
+  items.forEach((item) => {
+    if (!isItemInGrid(item, grid)) return;
+    const row = findCellIndex(grid.rowEdges, item.y - item.height / 2);
+    const col = findCellIndex(grid.colEdges, item.x + item.width / 2);
+    cellItems[row][col].push(item);
+  });
+
+  const rows = cellItems.map((row) =>
+    row.map((cell) =>
+      cell
+        .sort((a, b) => (Math.abs(a.y - b.y) > AXIS_TOLERANCE * 3 ? a.y - b.y : a.x - b.x))
+        .map((item) => item.str)
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+    )
+  );
+  return { rows, sources: cellItems.map((row) => row.map((cell) => cell.map(textItemBox))) };
+}
@@ -0,0 +1,81 @@
+import type { LinkTarget, PdfLink, SourceBox, TextLink } from './types';
+
+const LINK_SLACK = 2; // Link areas are often drawn a little tighter than the text they cover (pt)
+
+/**
+ * The parts of a line's text that sit under link annotations. Where a link covers only part
+ * of an item, the linked words are estimated from how far along the item the link starts and
+ * ends. Neighbouring items under the same link are joined into one span, as the line's text is.
+ */
+export function getLinkedText(items: { str: string; box: SourceBox }[], links: PdfLink[]): TextLink[] {
+  const spans: { text: string; link: PdfLink }[] = [];
+  if (links.length === 0) return [];
+  const leftToRight = [...links].sort((a, b) => a.left - b.left);
+
+  items.forEach(({ str, box }) => {
+    leftToRight.forEach((link) => {
+      const text = getCoveredText(str, box, link);
+      if (!text) return;
+
+      const previous = spans[spans.length - 1];
+      if (previous?.link === link) {
+        previous.text += ` ${text}`;
+      } else {
+        spans.push({ text, link });
+      }
+    });
+  });
+
+  return spans.map(({ text, link }) => ({ ...link.target, text: text.replace(/\s+/g, ' ').trim() }));
+}
+
+/**
+ * Where a table cell links to, when every text item it was read from sits under the same link
+ */
+export function findCellLink(sources: SourceBox[], links: PdfLink[]): LinkTarget | null {
+  if (sources.length === 0 || links.length === 0) return null;
+
+  const containing = sources.map((box) => links.find((link) => containsCenter(link, box)));
+  const first = containing[0];
+  return first && containing.every((link) => link && isSameTarget(link.target, first.target)) ? first.target : null;
+}
+
+function containsCenter(link: PdfLink, box: SourceBox): boolean {
+  const x = (box.left + box.right) / 2;
+  const y = (box.top + box.bottom) / 2;
+  return (
+    link.page === box.page &&
+    x >= link.left - LINK_SLACK &&
+    x <= link.right + LINK_SLACK &&
+    y >= link.top - LINK_SLACK &&
+    y <= link.bottom + LINK_SLACK
+  );
+}
+
+function isSameTarget(a: LinkTarget, b: LinkTarget): boolean {
+  return a.url === b.url && a.page === b.page && a.y === b.y;
+}
+
+// The words of an item the link covers, or '' when it misses the item
+function getCoveredText(str: string, box: SourceBox, link: PdfLink): string {
+  const width = box.right - box.left;
+  const centerY = (box.top + box.bottom) / 2;
+  if (link.page !== box.page || centerY < link.top - LINK_SLACK || centerY > link.bottom + LINK_SLACK) return '';
+  if (width <= 0 || link.right <= box.left || link.left >= box.right) return '';
+
+  // Character positions the link's edges fall at, snapped to the nearest word edges
+  const startShare = Math.max(link.left - LINK_SLACK - box.left, 0) / width;
+  const endShare = Math.min(link.right + LINK_SLACK - box.left, width) / width;
+  const wordStarts = [...str.matchAll(/\S+/g)].map((match) => match.index ?? 0);
+  const wordEnds = [...str.matchAll(/\S+/g)].map((match) => (match.index ?? 0) + match[0].length);
+  if (wordStarts.length === 0) return '';
+
+  const start = nearest(wordStarts, startShare * str.length);
+  const end = nearest(wordEnds, endShare * str.length);
+  // Trailing punctuation after a linked word is almost never part of the link
+  return end > start ? str.slice(start, end).replace(/[.,;:!?)]+$/, '') : '';
+}
+
+function nearest(positions: number[], target: number): number {
+  return positions.reduce((best, position) => (Math.abs(position - target) < Math.abs(best - target) ? position : best));
+}
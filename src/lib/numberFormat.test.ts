@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { detectDecimalSeparator, parseNumber, resolveDecimalSeparator } from './numberFormat';
+
+describe('parseNumber', () => {
+  it('reads grouped amounts with a decimal point', () => {
+    expect(parseNumber('1,234.56')).toMatchObject({ value: 1234.56, decimals: 2, grouped: true });
+  });
+
+  it('reads grouped amounts with a decimal comma', () => {
+    expect(parseNumber('1.234,56', ',')).toMatchObject({ value: 1234.56, decimals: 2, grouped: true });
+    expect(parseNumber('1 234 567,5', ',')).toMatchObject({ value: 1234567.5, grouped: true });
+  });
+
+  it('reads accounting negatives, trailing minus and DR/CR suffixes', () => {
+    expect(parseNumber('(5,000.00)')?.value).toBe(-5000);
+    expect(parseNumber('5,000.00-')?.value).toBe(-5000);
+    expect(parseNumber('5,000.00 DR')?.value).toBe(-5000);
+    expect(parseNumber('5,000.00 CR')?.value).toBe(5000);
+  });
+
+  it('picks up currency symbols and codes', () => {
+    expect(parseNumber('$1,200.00')).toMatchObject({ value: 1200, currencySymbol: '$' });
+    expect(parseNumber('NGN 450.00')).toMatchObject({ value: 450, currencySymbol: '₦' });
+    expect(parseNumber('-€3.50')).toMatchObject({ value: -3.5, currencySymbol: '€' });
+  });
+
+  it('keeps percentages undivided', () => {
+    expect(parseNumber('12.5%')).toMatchObject({ value: 12.5, percent: true });
+  });
+
+  it('rejects text and separators in the wrong convention', () => {
+    expect(parseNumber('Opening balance')).toBeNull();
+    expect(parseNumber('')).toBeNull();
+    expect(parseNumber('1.234,56')).toBeNull();
+  });
+});
+
+describe('detectDecimalSeparator', () => {
+  it('votes on the values whose shape gives the convention away', () => {
+    expect(detectDecimalSeparator(['1,234.56', '12.00', '1,234'])).toBe('.');
+    expect(detectDecimalSeparator(['1.234,56', '12,00', '1.234'])).toBe(',');
+  });
+
+  it('falls back to a decimal point when nothing is conclusive', () => {
+    expect(detectDecimalSeparator(['1,234', '500'])).toBe('.');
+  });
+});
+
+describe('resolveDecimalSeparator', () => {
+  it('lets a fixed locale override detection', () => {
+    expect(resolveDecimalSeparator('eu', ['1,234.56'])).toBe(',');
+    expect(resolveDecimalSeparator('en', ['1.234,56'])).toBe('.');
+    expect(resolveDecimalSeparator('auto', ['1.234,56'])).toBe(',');
+  });
+});
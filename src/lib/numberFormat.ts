@@ -0,0 +1,172 @@
+// Which character separates the decimal part: "1,234.56" uses '.', "1.234,56" uses ','
+export type DecimalSeparator = '.' | ',';
+
+// 'en' = 1,234.56, 'eu' = 1.234,56 (or 1 234,56), 'auto' = decide from the values themselves
+export type NumberLocale = 'auto' | 'en' | 'eu';
+
+export interface ParsedNumber {
+  value: number;
+  decimals: number; // Digits after the decimal separator, as written
+  grouped: boolean; // Written with thousands separators
+  percent: boolean; // Written with a trailing % (value is NOT divided by 100)
+  currencySymbol: string | null;
+}
+
+// Checked in order - the first symbol found wins. Codes are normalised to their symbol.
+const CURRENCY_PATTERNS: { symbol: string; pattern: RegExp }[] = [
+  { symbol: '₦', pattern: /₦/ },
+  { symbol: '₦', pattern: /NGN/i },
+  { symbol: '₦', pattern: /=N=/ },
+  { symbol: '$', pattern: /\$/ },
+  { symbol: '$', pattern: /USD/i },
+  { symbol: '€', pattern: /€/ },
+  { symbol: '€', pattern: /EUR/i },
+  { symbol: '£', pattern: /£/ },
+  { symbol: '£', pattern: /GBP/i },
+];
+const CURRENCY_MARKERS = /₦|NGN|=N=|\$|USD|€|EUR|£|GBP/gi;
+
+// Debit/credit markers used on statements: "5,000.00 DR" is money going out
+const DEBIT_CREDIT_SUFFIX = /\s*(DR|CR)\.?$/i;
+// A space (regular, non-breaking or narrow no-break) used as a thousands separator: "1 234 567"
+const SPACE_GROUPING = /(\d)[\s\u00A0\u202F](?=\d{3}(?:\D|$))/g;
+
+// Unambiguous shapes for each convention, used to auto-detect the decimal separator
+const POINT_DECIMAL_SHAPES = [/^\d{1,3}(,\d{3})+\.\d+$/, /^\d{1,3}(,\d{3}){2,}$/, /^\d+\.(\d{1,2}|\d{4,})$/];
+const COMMA_DECIMAL_SHAPES = [/^\d{1,3}(\.\d{3})+,\d+$/, /^\d{1,3}(\.\d{3}){2,}$/, /^\d+,(\d{1,2}|\d{4,})$/];
+
+interface NumericParts {
+  body: string;
+  negative: boolean;
+  percent: boolean;
+  currencySymbol: string | null;
+  spaceGrouped: boolean;
+}
+
+/**
+ * Find the currency symbol (or code) used in a single value
+ */
+export function currencySymbolOf(value: string): string | null {
+  const match = CURRENCY_PATTERNS.find(({ pattern }) => pattern.test(value));
+  return match ? match.symbol : null;
+}
+
+/**
+ * Find the currency used in a column. Naira is checked first, then dollar, euro and pound.
+ */
+export function detectCurrencySymbol(values: string[]): string | null {
+  for (const { symbol, pattern } of CURRENCY_PATTERNS) {
+    if (values.some((v) => pattern.test(v))) {
+      return symbol;
+    }
+  }
+  return null;
+}
+
+/**
+ * Strip currency, sign and accounting markers off a value, leaving the bare digits and separators.
+ * Handles "-5", "5-", "(5)", "5 DR", "₦5", "-$5" and "$-5".
+ */
+function splitNumericParts(value: string): NumericParts | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  const currencySymbol = currencySymbolOf(text);
+  text = text.replace(CURRENCY_MARKERS, '').trim();
+
+  let negative = false;
+
+  const debitCredit = text.match(DEBIT_CREDIT_SUFFIX);
+  if (debitCredit) {
+    negative = debitCredit[1].toUpperCase() === 'DR';
+    text = text.slice(0, debitCredit.index).trim();
+  }
+
+  // Accounting negatives: (5,000.00)
+  const parenthesised = text.match(/^\((.*)\)$/);
+  if (parenthesised) {
+    negative = true;
+    text = parenthesised[1].trim();
+  }
+
+  const percent = text.endsWith('%');
+  if (percent) {
+    text = text.slice(0, -1).trim();
+  }
+
+  if (/^[-−]/.test(text)) {
+    negative = true;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  } else if (/[-−]$/.test(text)) {
+    // Trailing minus, common in older ledger exports: 5,000.00-
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const trimmed = text.trim();
+  const body = trimmed.replace(SPACE_GROUPING, '$1');
+  if (!/^[\d.,']+$/.test(body) || !/\d/.test(body)) return null;
+
+  return { body, negative, percent, currencySymbol, spaceGrouped: body !== trimmed };
+}
+
+/**
+ * Parse a number written in either convention, including accounting negatives,
+ * DR/CR suffixes and currency symbols or codes
+ */
+export function parseNumber(value: string, decimalSeparator: DecimalSeparator = '.'): ParsedNumber | null {
+  const parts = splitNumericParts(value);
+  if (!parts) return null;
+
+  const groupChars = decimalSeparator === '.' ? ",'" : ".'";
+  const escapedDecimal = decimalSeparator === '.' ? '\\.' : ',';
+  const shape = new RegExp(`^(\\d+(?:[${groupChars}]\\d{3})*)(?:${escapedDecimal}(\\d*))?$|^${escapedDecimal}(\\d+)$`);
+  const match = parts.body.match(shape);
+  if (!match) return null;
+
+  const whole = match[1] ?? '0';
+  const fraction = match[2] ?? match[3] ?? '';
+  const digits = whole.replace(/[.,']/g, '');
+
+  const magnitude = parseFloat(fraction ? `${digits}.${fraction}` : digits);
+  if (!isFinite(magnitude)) return null;
+
+  return {
+    value: parts.negative ? -magnitude : magnitude,
+    decimals: fraction.length,
+    grouped: parts.spaceGrouped || digits.length !== whole.length,
+    percent: parts.percent,
+    currencySymbol: parts.currencySymbol,
+  };
+}
+
+/**
+ * Work out which decimal separator a set of values uses.
+ * Only values whose shape gives it away vote - "1,234" could be either.
+ * Falls back to '.' when nothing is conclusive.
+ */
+export function detectDecimalSeparator(values: string[]): DecimalSeparator {
+  let pointVotes = 0;
+  let commaVotes = 0;
+
+  values.forEach((value) => {
+    const parts = splitNumericParts(value);
+    if (!parts) return;
+
+    if (POINT_DECIMAL_SHAPES.some((shape) => shape.test(parts.body))) pointVotes++;
+    else if (COMMA_DECIMAL_SHAPES.some((shape) => shape.test(parts.body))) commaVotes++;
+  });
+
+  return commaVotes > pointVotes ? ',' : '.';
+}
+
+/**
+ * Turn a locale setting into the decimal separator to parse with
+ */
+export function resolveDecimalSeparator(locale: NumberLocale, values: string[]): DecimalSeparator {
+  if (locale === 'en') return '.';
+  if (locale === 'eu') return ',';
+  return detectDecimalSeparator(values);
+}
@@ -0,0 +1,119 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { Worker as TesseractWorker } from 'tesseract.js';
+import type { TextItem } from './types';
+import { createCanvas, getContext2d } from './canvas';
+import { assetUrl } from './assets';
+
+// OCR assets are copied into public/ocr by scripts/copy-ocr-assets.mjs,
+// so recognition never reaches out to a CDN
+const OCR_ASSET_PATH = assetUrl('ocr');
+const OCR_LANGUAGE = 'eng';
+const OCR_RENDER_SCALE = 2; // Render at 144 DPI - Tesseract is much less accurate at 72 DPI
+const MIN_WORD_CONFIDENCE = 30; // Drop words Tesseract is mostly guessing at (0-100 scale)
+
+// Lazy load a single shared Tesseract worker
+let ocrWorkerPromise: Promise<TesseractWorker> | null = null;
+
+async function getOcrWorker(): Promise<TesseractWorker> {
+  if (ocrWorkerPromise) return ocrWorkerPromise;
+
+  ocrWorkerPromise = (async () => {
+    const tesseract = await import('tesseract.js');
+    return tesseract.createWorker(OCR_LANGUAGE, tesseract.OEM.LSTM_ONLY, {
+      workerPath: `${OCR_ASSET_PATH}/worker.min.js`,
+      corePath: OCR_ASSET_PATH,
+      langPath: OCR_ASSET_PATH,
+      workerBlobURL: false,
+    });
+  })();
+
+  // Allow a later call to retry if the worker failed to start
+  ocrWorkerPromise.catch(() => {
+    ocrWorkerPromise = null;
+  });
+
+  return ocrWorkerPromise;
+}
+
+/**
+ * Check whether a page's text content has any real text on it.
+ * Scanned pages typically have no text layer at all, or only whitespace.
+ */
+export function hasTextLayer(items: { str?: string }[]): boolean {
+  return items.some((item) => item.str && item.str.trim());
+}
+
+/**
+ * Render a page to a canvas and run OCR on it.
+ * Recognised words are returned as ordinary TextItems in PDF user space
+ * (scale 1.0, y measured from the top of the page) so the table and
+ * document extractors can consume them unchanged.
+ */
+export async function recognizePage(page: PDFPageProxy, pageNum: number): Promise<TextItem[]> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  if (!canvas) return [];
+
+  const ctx = getContext2d(canvas);
+  if (!ctx) return [];
+
+  // pdf.js draws onto an OffscreenCanvas context just as it does onto a DOM one
+  await page.render({ canvasContext: ctx as CanvasRenderingContext2D, viewport }).promise;
+
+  const worker = await getOcrWorker();
+  const { data } = await worker.recognize(canvas, {}, { blocks: true });
+
+  const items: TextItem[] = [];
+
+  (data.blocks || []).forEach((block) => {
+    block.paragraphs.forEach((paragraph) => {
+      paragraph.lines.forEach((line) => {
+        line.words.forEach((word) => {
+          const text = word.text.trim();
+          if (!text || word.confidence < MIN_WORD_CONFIDENCE) return;
+
+          const x0 = word.bbox.x0 / OCR_RENDER_SCALE;
+          const x1 = word.bbox.x1 / OCR_RENDER_SCALE;
+          // Use the line baseline so words on the same line share a y-coordinate,
+          // matching how pdf.js positions text items
+          const baselineY = Math.max(line.baseline.y0, line.baseline.y1) || word.bbox.y1;
+          const height = (word.bbox.y1 - word.bbox.y0) / OCR_RENDER_SCALE;
+
+          items.push({
+            str: text,
+            x: x0,
+            y: baselineY / OCR_RENDER_SCALE,
+            width: x1 - x0,
+            height,
+            page: pageNum,
+            fontSize: line.rowAttributes?.rowHeight
+              ? line.rowAttributes.rowHeight / OCR_RENDER_SCALE
+              : height,
+            confidence: word.confidence,
+          });
+        });
+      });
+    });
+  });
+
+  // Release the canvas backing store right away - full-page renders are large
+  canvas.width = 0;
+  canvas.height = 0;
+
+  return items;
+}
+
+/**
+ * Shut down the shared OCR worker (frees the WASM heap and language data)
+ */
+export async function terminateOcrWorker(): Promise<void> {
+  if (!ocrWorkerPromise) return;
+  const pending = ocrWorkerPromise;
+  ocrWorkerPromise = null;
+  try {
+    const worker = await pending;
+    await worker.terminate();
+  } catch {
+    // Worker never started - nothing to clean up
+  }
+}
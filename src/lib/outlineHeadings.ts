@@ -0,0 +1,93 @@
+import type { DocumentElement } from './types';
+import type { OutlineEntry } from './pdfSession';
+
+const TEXT_TYPES: DocumentElement['type'][] = ['title', 'heading', 'subheading', 'paragraph', 'bullet', 'numbered'];
+// Outline titles often leave out the section number printed before the heading
+const SECTION_NUMBER_PATTERN = /^(?:\d+(?:\.\d+)*|[ivxlc]+|[a-z])\.?\s+/;
+
+/**
+ * Mark the lines the PDF's outline points to as headings, at the outline's depth. A heading
+ * wrapped over several lines is joined back into one element. When any entry matches, font-based
+ * headings the outline doesn't list are placed one level below its deepest entry; when none
+ * do, the elements are returned unchanged so the font heuristics stand.
+ */
+export function applyOutlineHeadings(elements: DocumentElement[], outline: OutlineEntry[]): DocumentElement[] {
+  const result = [...elements];
+  const matched = new Set<DocumentElement>();
+  let deepestLevel = 0;
+
+  outline.forEach((entry) => {
+    const target = normalizeHeadingText(entry.title);
+    if (entry.page === null || !target) return;
+
+    const match = findHeadingLines(result, entry, target, matched);
+    if (!match) return;
+
+    const lines = result.slice(match.start, match.end + 1);
+    const heading: DocumentElement = {
+      ...lines[0],
+      type: entry.level === 1 ? 'heading' : 'subheading',
+      level: entry.level,
+      content: lines.map((line) => line.content).join(' '),
+      indent: undefined,
+      sourceBoxes: lines.flatMap((line) => line.sourceBoxes ?? []),
+      links: lines.some((line) => line.links) ? lines.flatMap((line) => line.links ?? []) : undefined,
+    };
+    result.splice(match.start, lines.length, heading);
+    matched.add(heading);
+    deepestLevel = Math.max(deepestLevel, entry.level);
+  });
+
+  if (deepestLevel === 0) return elements;
+
+  return result.map((element) =>
+    (element.type === 'heading' || element.type === 'subheading') && !matched.has(element)
+      ? { ...element, type: 'subheading', level: deepestLevel + 1 }
+      : element
+  );
+}
+
+function normalizeHeadingText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}.]+/gu, ' ').trim();
+}
+
+function withoutSectionNumber(text: string): string {
+  return text.replace(SECTION_NUMBER_PATTERN, '');
+}
+
+// The run of lines on the entry's page that spells out its title. With several candidates,
+// the one nearest the outline's target position wins, else the first.
+function findHeadingLines(
+  elements: DocumentElement[],
+  entry: OutlineEntry,
+  target: string,
+  matched: Set<DocumentElement>
+): { start: number; end: number } | null {
+  const isCandidate = (element: DocumentElement | undefined): element is DocumentElement =>
+    !!element && element.page === entry.page && TEXT_TYPES.includes(element.type) && !matched.has(element);
+  const isPrefix = (text: string) => target.startsWith(text) || target.startsWith(withoutSectionNumber(text));
+  const isMatch = (text: string) => text === target || withoutSectionNumber(text) === target;
+
+  let best: { start: number; end: number; distance: number } | null = null;
+  for (let start = 0; start < elements.length; start++) {
+    const element = elements[start];
+    if (!isCandidate(element)) continue;
+
+    let text = normalizeHeadingText(element.content);
+    let end = start;
+    if (!text || !isPrefix(text)) continue;
+    while (!isMatch(text) && isCandidate(elements[end + 1])) {
+      const extended = `${text} ${normalizeHeadingText(elements[end + 1].content)}`;
+      if (!isPrefix(extended)) break;
+      text = extended;
+      end++;
+    }
+    if (!isMatch(text)) continue;
+
+    const top = element.sourceBoxes?.length ? Math.min(...element.sourceBoxes.map((box) => box.top)) : undefined;
+    const distance = entry.y !== undefined && top !== undefined ? Math.abs(top - entry.y) : start;
+    if (!best || distance < best.distance) best = { start, end, distance };
+  }
+
+  return best;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { formatPageRange, parsePageRange } from './pageRange';
+
+describe('parsePageRange', () => {
+  it('reads single pages and ranges into sorted, unique page numbers', () => {
+    expect(parsePageRange('7, 1-3, 2', 10)).toEqual({ pages: [1, 2, 3, 7], error: null });
+  });
+
+  it('runs open ranges to the first or last page', () => {
+    expect(parsePageRange('8-', 10).pages).toEqual([8, 9, 10]);
+    expect(parsePageRange('-2', 10).pages).toEqual([1, 2]);
+  });
+
+  it('accepts en and em dashes and ignores spaces', () => {
+    expect(parsePageRange('1 – 3,5—6', 10).pages).toEqual([1, 2, 3, 5, 6]);
+  });
+
+  it('rejects empty, malformed, backwards and out-of-range input', () => {
+    expect(parsePageRange(' , ', 10).error).toBe('Enter at least one page');
+    expect(parsePageRange('a-b', 10).error).toBe('"a-b" is not a page or range');
+    expect(parsePageRange('-', 10).error).toBe('"-" is not a page or range');
+    expect(parsePageRange('5-2', 10).error).toBe('"5-2" runs backwards');
+    expect(parsePageRange('0', 10).error).toBe('Pages start at 1');
+    expect(parsePageRange('4-12', 10).error).toBe('Page 12 is past the end (10 pages)');
+  });
+});
+
+describe('formatPageRange', () => {
+  it('writes runs of pages as ranges', () => {
+    expect(formatPageRange([11, 1, 2, 3, 7, 10, 12, 2])).toBe('1-3,7,10-12');
+  });
+
+  it('round-trips with parsePageRange', () => {
+    const pages = [2, 3, 4, 9];
+    expect(parsePageRange(formatPageRange(pages), 10).pages).toEqual(pages);
+  });
+});
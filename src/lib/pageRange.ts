@@ -0,0 +1,77 @@
+export type PageRangeResult = { pages: number[]; error: null } | { pages: null; error: string };
+
+/**
+ * Parse a page range expression such as "1-3,7,10-" into sorted page numbers.
+ * "10-" runs to the last page and "-3" starts from the first; spaces are ignored.
+ */
+export function parsePageRange(expression: string, numPages: number): PageRangeResult {
+  const tokens = expression
+    .replace(/[–—]/g, '-')
+    .split(',')
+    .map((token) => token.replace(/\s+/g, ''))
+    .filter(Boolean);
+
+  if (tokens.length === 0) {
+    return { pages: null, error: 'Enter at least one page' };
+  }
+
+  const selected = new Set<number>();
+
+  for (const token of tokens) {
+    const match = token.match(/^(\d*)(-?)(\d*)$/);
+    if (!match || (!match[1] && !match[3])) {
+      return { pages: null, error: `"${token}" is not a page or range` };
+    }
+
+    const [, startText, dash, endText] = match;
+    const start = startText ? parseInt(startText, 10) : 1;
+    const end = dash ? (endText ? parseInt(endText, 10) : numPages) : start;
+
+    if (start < 1 || end < 1) {
+      return { pages: null, error: 'Pages start at 1' };
+    }
+    if (start > numPages || end > numPages) {
+      return { pages: null, error: `Page ${Math.max(start, end)} is past the end (${numPages} pages)` };
+    }
+    if (start > end) {
+      return { pages: null, error: `"${token}" runs backwards` };
+    }
+
+    for (let page = start; page <= end; page++) {
+      selected.add(page);
+    }
+  }
+
+  return { pages: [...selected].sort((a, b) => a - b), error: null };
+}
+
+/**
+ * Write page numbers back as the shortest range expression: [1,2,3,7,10,11,12] -> "1-3,7,10-12"
+ */
+export function formatPageRange(pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const parts: string[] = [];
+
+  let index = 0;
+  while (index < sorted.length) {
+    const start = sorted[index];
+    let end = start;
+    while (sorted[index + 1] === end + 1) {
+      end = sorted[++index];
+    }
+    parts.push(start === end ? String(start) : `${start}-${end}`);
+    index++;
+  }
+
+  return parts.join(',');
+}
+
+/**
+ * The pages an extractor should visit: the selection limited to pages that exist, or every page
+ */
+export function resolvePageNumbers(pages: number[] | undefined, numPages: number): number[] {
+  if (!pages || pages.length === 0) {
+    return Array.from({ length: numPages }, (_, index) => index + 1);
+  }
+  return [...new Set(pages)].filter((page) => page >= 1 && page <= numPages).sort((a, b) => a - b);
+}
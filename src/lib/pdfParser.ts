@@ -1,26 +1,20 @@
-import type { TextItem, DocumentElement, DocumentStructure } from './types';
-
-interface PDFTextItem {
-  str: string;
-  transform: number[];
-  width: number;
-  height: number;
-  fontName?: string;
-}
-
-// Lazy load pdfjs-dist
-let pdfjsModule: typeof import('pdfjs-dist') | null = null;
-
-async function getPdfJs() {
-  if (pdfjsModule) return pdfjsModule;
-
-  const pdfjs = await import('pdfjs-dist');
-
-  // Set worker - use CDN for reliability
-  pdfjs.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.4.168/pdf.worker.min.mjs`;
-
-  pdfjsModule = pdfjs;
-  return pdfjs;
+import type { PDFOperatorList } from 'pdfjs-dist/types/src/display/api';
+import type { TextItem, DocumentElement, DocumentStructure, PdfLink, RulingLine, SourceBox } from './types';
+import { parseRulingLines } from './lattice';
+import { couldBeWrappedLine, mergeWrappedRows } from './wrappedRows';
+import { createCanvas, getContext2d, canvasToPngBase64 } from './canvas';
+import { getPdfJs, withPdfSession, type PDFTextItem, type PdfLoadOptions, type PdfSource } from './pdfSession';
+import { resolvePageNumbers } from './pageRange';
+import { findRunningText } from './runningText';
+import { findColumnGutters, splitIntoReadingOrder } from './columnLayout';
+import { applyOutlineHeadings } from './outlineHeadings';
+import { getLinkedText } from './links';
+
+export { PdfPasswordError, PdfWorkerError, openPdfSession } from './pdfSession';
+export type { OutlineEntry, PdfLoadOptions, PdfSession, PdfSource } from './pdfSession';
+
+export interface ExtractOptions extends PdfLoadOptions {
+  pages?: number[]; // 1-based pages to extract (every page when omitted) - other pages are never parsed
 }
 
 // Constants for document structure detection
@@ -37,173 +31,260 @@ const MIN_TABLE_ROWS = 2;
 const MIN_TABLE_COLS = 2;
 
 export async function parsePdf(
-  arrayBuffer: ArrayBuffer,
-  onProgress?: (progress: number, step: string) => void
+  source: PdfSource,
+  onProgress?: (progress: number, step: string) => void,
+  options: ExtractOptions = {}
 ): Promise<TextItem[]> {
   onProgress?.(5, 'Loading PDF document...');
 
-  const pdfjs = await getPdfJs();
-  const loadingTask = pdfjs.getDocument({ data: arrayBuffer });
-  const pdf = await loadingTask.promise;
+  return withPdfSession(source, options, async (pdf) => {
+    const textItems: TextItem[] = [];
+    const totalPages = pdf.numPages;
+    const pageNumbers = resolvePageNumbers(options.pages, totalPages);
 
-  const textItems: TextItem[] = [];
-  const totalPages = pdf.numPages;
+    for (const [index, pageNum] of pageNumbers.entries()) {
+      const progress = 10 + Math.floor(((index + 1) / pageNumbers.length) * 40);
+      onProgress?.(progress, `Extracting page ${pageNum} of ${totalPages}...`);
 
-  for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-    const progress = 10 + Math.floor((pageNum / totalPages) * 40);
-    onProgress?.(progress, `Extracting page ${pageNum} of ${totalPages}...`);
+      const page = await pdf.getPage(pageNum);
+      const viewport = page.getViewport({ scale: 1.0 });
+      const { items } = await pdf.getTextItems(pageNum, () =>
+        onProgress?.(progress, `Running OCR on scanned page ${pageNum} of ${totalPages}...`)
+      );
 
-    const page = await pdf.getPage(pageNum);
-    const viewport = page.getViewport({ scale: 1.0 });
-    const content = await page.getTextContent();
+      items.forEach((textItem) => {
+        if (textItem.str && textItem.str.trim()) {
+          // Calculate font size from transform matrix
+          const fontSize = Math.abs(textItem.transform[0]) || Math.abs(textItem.transform[3]) || 12;
+
+          textItems.push({
+            str: textItem.str,
+            x: textItem.transform[4],
+            y: viewport.height - textItem.transform[5],
+            width: textItem.width,
+            height: textItem.height || fontSize,
+            page: pageNum,
+            fontName: textItem.fontName,
+            fontSize: fontSize,
+            confidence: textItem.confidence,
+          });
+        }
+      });
+    }
 
-    content.items.forEach((item) => {
-      const textItem = item as PDFTextItem;
-      if (textItem.str && textItem.str.trim()) {
-        // Calculate font size from transform matrix
-        const fontSize = Math.abs(textItem.transform[0]) || Math.abs(textItem.transform[3]) || 12;
+    onProgress?.(50, 'PDF parsing complete');
+    return textItems;
+  });
+}
 
-        textItems.push({
-          str: textItem.str,
-          x: textItem.transform[4],
-          y: viewport.height - textItem.transform[5],
-          width: textItem.width,
-          height: textItem.height || fontSize,
-          page: pageNum,
-          fontName: textItem.fontName,
-          fontSize: fontSize,
-        });
+/**
+ * Collect the ruling lines (table borders and cell rules) painted on each page.
+ * Used by the table extractor's lattice mode.
+ */
+export async function extractRulingLines(
+  source: PdfSource,
+  onProgress?: (progress: number, step: string) => void,
+  options: ExtractOptions = {}
+): Promise<RulingLine[]> {
+  const pdfjs = await getPdfJs();
+
+  return withPdfSession(source, options, async (pdf) => {
+    const lines: RulingLine[] = [];
+    const totalPages = pdf.numPages;
+    const pageNumbers = resolvePageNumbers(options.pages, totalPages);
+
+    for (const pageNum of pageNumbers) {
+      onProgress?.(50, `Reading table borders on page ${pageNum} of ${totalPages}...`);
+
+      const page = await pdf.getPage(pageNum);
+      const viewport = page.getViewport({ scale: 1.0 });
+
+      try {
+        const operatorList = await pdf.getOperatorList(pageNum);
+        lines.push(
+          ...parseRulingLines(operatorList.fnArray, operatorList.argsArray, pdfjs.OPS, viewport.height, pageNum)
+        );
+      } catch (error) {
+        // Without vector graphics we simply fall back to text-gap detection for this page
+        console.warn(`Could not read graphics on page ${pageNum}:`, error);
       }
-    });
-  }
+    }
 
-  onProgress?.(50, 'PDF parsing complete');
-  return textItems;
+    return lines;
+  });
 }
 
 export async function extractDocumentStructure(
-  arrayBuffer: ArrayBuffer,
-  onProgress?: (progress: number, step: string) => void
+  source: PdfSource,
+  onProgress?: (progress: number, step: string) => void,
+  options: ExtractOptions = {}
 ): Promise<DocumentStructure> {
   onProgress?.(5, 'Loading PDF document...');
 
-  const pdfjs = await getPdfJs();
-  const loadingTask = pdfjs.getDocument({ data: arrayBuffer });
-  const pdf = await loadingTask.promise;
-
-  const elements: DocumentElement[] = [];
-  const totalPages = pdf.numPages;
-  let documentTitle: string | undefined;
-  let maxFontSize = 0;
-
-  // Track font names for bold/italic detection
-  const fontUsage = new Map<string, number>();
-
-  // First pass: analyze fonts and find max font size
-  const firstPage = await pdf.getPage(1);
-  const firstViewport = firstPage.getViewport({ scale: 1.0 });
-  const firstContent = await firstPage.getTextContent();
-
-  firstContent.items.forEach((item) => {
-    const textItem = item as PDFTextItem;
-    if (textItem.str && textItem.str.trim()) {
-      const fontSize = Math.abs(textItem.transform[0]) || Math.abs(textItem.transform[3]) || 12;
-      if (fontSize > maxFontSize) {
-        maxFontSize = fontSize;
-      }
-      // Track font usage
-      if (textItem.fontName) {
-        fontUsage.set(textItem.fontName, (fontUsage.get(textItem.fontName) || 0) + 1);
-      }
-    }
-  });
+  return withPdfSession(source, options, async (pdf) => {
+    const elements: DocumentElement[] = [];
+    const totalPages = pdf.numPages;
+    const pageNumbers = resolvePageNumbers(options.pages, totalPages);
+    let documentTitle: string | undefined;
+    let maxFontSize = 0;
 
-  // Second pass: extract all elements with enhanced structure detection
-  for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-    const progress = 10 + Math.floor((pageNum / totalPages) * 50);
-    onProgress?.(progress, `Analyzing page ${pageNum} of ${totalPages}...`);
+    // Track font names for bold/italic detection
+    const fontUsage = new Map<string, number>();
 
-    const page = await pdf.getPage(pageNum);
-    const viewport = page.getViewport({ scale: 1.0 });
-    const content = await page.getTextContent();
+    // First pass: analyze fonts and find max font size
+    const firstPageNum = pageNumbers[0] ?? 1;
+    const firstPageText = await pdf.getTextItems(firstPageNum, () =>
+      onProgress?.(8, `Running OCR on scanned page ${firstPageNum}...`)
+    );
 
-    // Group text items into lines
-    const lines = groupIntoLines(content.items as PDFTextItem[], viewport.height);
+    firstPageText.items.forEach((textItem) => {
+      if (textItem.str && textItem.str.trim()) {
+        const fontSize = Math.abs(textItem.transform[0]) || Math.abs(textItem.transform[3]) || 12;
+        if (fontSize > maxFontSize) {
+          maxFontSize = fontSize;
+        }
+        // Track font usage
+        if (textItem.fontName) {
+          fontUsage.set(textItem.fontName, (fontUsage.get(textItem.fontName) || 0) + 1);
+        }
+      }
+    });
 
-    // Detect tables in this page
-    const tableRegions = detectTableRegions(lines, viewport.width);
+    // Second pass: group every page into lines - running headers and footers only show up across pages
+    const pageLines = new Map<number, LineGroup[]>();
+    for (const [index, pageNum] of pageNumbers.entries()) {
+      const progress = 10 + Math.floor(((index + 1) / pageNumbers.length) * 25);
+      onProgress?.(progress, `Reading page ${pageNum} of ${totalPages}...`);
+
+      const page = await pdf.getPage(pageNum);
+      const viewport = page.getViewport({ scale: 1.0 });
+      // Cached by the session, so the first page comes straight from the first pass
+      const pageText = await pdf.getTextItems(pageNum, () =>
+        onProgress?.(progress, `Running OCR on scanned page ${pageNum} of ${totalPages}...`)
+      );
+      pageLines.set(pageNum, groupIntoReadingOrder(pageText.items, viewport.height, pageNum));
+    }
 
-    // Process lines, handling table regions specially
-    let lineIndex = 0;
-    while (lineIndex < lines.length) {
-      const line = lines[lineIndex];
+    const running = findRunningText(
+      [...pageLines.entries()].flatMap(([pageNum, lines]) =>
+        lines.map((line) => ({
+          page: pageNum,
+          y: line.y,
+          text: getLineText(line),
+          segments: 1 + getGapsBetweenItems(line.items).filter((gap) => gap > MIN_COL_GAP).length,
+          line,
+        }))
+      ),
+      totalPages
+    );
+    const runningLines = new Set([...running.lines].map(({ line }) => line));
+
+    // Third pass: extract the body of each page with enhanced structure detection
+    for (const [index, pageNum] of pageNumbers.entries()) {
+      const progress = 35 + Math.floor(((index + 1) / pageNumbers.length) * 25);
+      onProgress?.(progress, `Analyzing page ${pageNum} of ${totalPages}...`);
+
+      const page = await pdf.getPage(pageNum);
+      const viewport = page.getViewport({ scale: 1.0 });
+      const pageText = await pdf.getTextItems(pageNum);
+      const pageLinks = await pdf.getLinks(pageNum);
+
+      // Running headers and footers go to the document's header and footer instead
+      const lines = (pageLines.get(pageNum) ?? []).filter((line) => !runningLines.has(line));
+
+      // Detect tables in this page
+      const tableRegions = detectTableRegions(lines, viewport.width);
+
+      // Process lines, handling table regions specially
+      let lineIndex = 0;
+      while (lineIndex < lines.length) {
+        const line = lines[lineIndex];
+
+        // Check if this line is part of a table region
+        const tableRegion = tableRegions.find(
+          (region) => lineIndex >= region.startIndex && lineIndex <= region.endIndex
+        );
+
+        if (tableRegion && lineIndex === tableRegion.startIndex) {
+          // Extract table and add as single element
+          const tableLines = lines.slice(tableRegion.startIndex, tableRegion.endIndex + 1);
+          const tableRows = extractTableRows(tableLines, viewport.width);
+          if (tableRows.length >= MIN_TABLE_ROWS) {
+            elements.push({
+              type: 'table',
+              content: `Table (${tableRows.length} rows)`,
+              page: pageNum,
+              tableData: {
+                rows: tableRows,
+                hasHeader: detectTableHeader(tableRows),
+              },
+              columns: tableLines[0].column?.count,
+              sourceBoxes: tableLines.flatMap((tableLine) => tableLine.boxes),
+            });
+          }
+          lineIndex = tableRegion.endIndex + 1;
+          continue;
+        }
 
-      // Check if this line is part of a table region
-      const tableRegion = tableRegions.find(
-        (region) => lineIndex >= region.startIndex && lineIndex <= region.endIndex
-      );
+        // Skip lines that are part of an already-processed table
+        if (tableRegion) {
+          lineIndex++;
+          continue;
+        }
 
-      if (tableRegion && lineIndex === tableRegion.startIndex) {
-        // Extract table and add as single element
-        const tableRows = extractTableRows(lines.slice(tableRegion.startIndex, tableRegion.endIndex + 1), viewport.width);
-        if (tableRows.length >= MIN_TABLE_ROWS) {
-          elements.push({
-            type: 'table',
-            content: `Table (${tableRows.length} rows)`,
-            page: pageNum,
-            tableData: {
-              rows: tableRows,
-              hasHeader: detectTableHeader(tableRows),
-            },
-          });
+        // Process regular line
+        const element = classifyLine(line, maxFontSize, pageNum, viewport.width, fontUsage, pageLinks);
+
+        // Detect title (largest text on the first extracted page, usually at top)
+        if (pageNum === firstPageNum && lineIndex < 5 && element.type === 'title' && !documentTitle) {
+          documentTitle = element.content;
         }
-        lineIndex = tableRegion.endIndex + 1;
-        continue;
-      }
 
-      // Skip lines that are part of an already-processed table
-      if (tableRegion) {
+        elements.push(element);
         lineIndex++;
-        continue;
       }
 
-      // Process regular line
-      const element = classifyLine(line, maxFontSize, pageNum, viewport.width, fontUsage);
-
-      // Detect title (largest text on first page, usually at top)
-      if (pageNum === 1 && lineIndex < 5 && element.type === 'title' && !documentTitle) {
-        documentTitle = element.content;
+      // Extract images from page (a scanned page is itself one big image - its text came from OCR)
+      if (!pageText.isOcr) {
+        onProgress?.(progress + 2, `Extracting images from page ${pageNum}...`);
+        const images = await extractImagesFromPage(page, await pdf.getOperatorList(pageNum), pageNum);
+        elements.push(...images);
       }
-
-      elements.push(element);
-      lineIndex++;
     }
 
-    // Extract images from page
-    onProgress?.(progress + 2, `Extracting images from page ${pageNum}...`);
-    const images = await extractImagesFromPage(page, viewport, pageNum);
-    elements.push(...images);
-  }
+    // Headings listed in the PDF's outline take precedence over font sizes
+    const outlinedElements = applyOutlineHeadings(elements, await pdf.getOutline());
 
-  // Clean up elements - merge consecutive paragraphs, clean whitespace
-  const cleanedElements = cleanDocumentElements(elements);
+    // Clean up elements - merge consecutive paragraphs, clean whitespace
+    const cleanedElements = cleanDocumentElements(outlinedElements);
 
-  onProgress?.(75, 'Document structure extracted');
+    onProgress?.(75, 'Document structure extracted');
 
-  return {
-    title: documentTitle,
-    elements: cleanedElements,
-    pages: totalPages,
-  };
+    return {
+      title: documentTitle,
+      elements: cleanedElements,
+      pages: totalPages,
+      header: running.header.length > 0 ? running.header : undefined,
+      footer: running.footer.length > 0 ? running.footer : undefined,
+    };
+  });
 }
 
 interface LineGroup {
   y: number;
   items: PDFTextItem[];
+  boxes: SourceBox[]; // Where each item sits on the page
   avgFontSize: number;
   minX: number;
   maxX: number;
   fontNames: string[];
+  column?: LineColumn; // Set when the line sits in one column of a multi-column layout
+}
+
+interface LineColumn {
+  count: number;
+  left: number; // Text edges of the column
+  right: number;
 }
 
 interface TableRegion {
@@ -212,7 +293,31 @@ interface TableRegion {
   columnBoundaries: number[];
 }
 
-function groupIntoLines(items: PDFTextItem[], pageHeight: number): LineGroup[] {
+function getItemBox(item: PDFTextItem, pageHeight: number, page: number): SourceBox {
+  const y = pageHeight - item.transform[5];
+  const x = item.transform[4];
+  const fontSize = Math.abs(item.transform[0]) || Math.abs(item.transform[3]) || 12;
+  return { page, left: x, top: y - (item.height || fontSize), right: x + item.width, bottom: y };
+}
+
+/**
+ * Group a page's items into lines in reading order. Where the page is laid out in columns,
+ * each column is read top to bottom before the next, so lines side by side aren't joined.
+ */
+function groupIntoReadingOrder(items: PDFTextItem[], pageHeight: number, page: number): LineGroup[] {
+  const textItems = items.filter((item) => item.str && item.str.trim());
+  const boxOf = (item: PDFTextItem) => getItemBox(item, pageHeight, page);
+  const gutters = findColumnGutters(textItems.map(boxOf));
+
+  return splitIntoReadingOrder(textItems, boxOf, gutters).flatMap((block) => {
+    const lines = groupIntoLines(block.items, pageHeight, page);
+    if (block.column === null) return lines;
+    const column = { count: block.columnCount, left: block.left, right: block.right };
+    return lines.map((line) => ({ ...line, column }));
+  });
+}
+
+function groupIntoLines(items: PDFTextItem[], pageHeight: number, page: number): LineGroup[] {
   const sortedItems = [...items]
     .filter((item) => item.str && item.str.trim())
     .sort((a, b) => {
@@ -228,11 +333,13 @@ function groupIntoLines(items: PDFTextItem[], pageHeight: number): LineGroup[] {
     const y = pageHeight - item.transform[5];
     const x = item.transform[4];
     const fontSize = Math.abs(item.transform[0]) || Math.abs(item.transform[3]) || 12;
+    const box = getItemBox(item, pageHeight, page);
 
     if (!currentLine || Math.abs(y - currentLine.y) > ROW_TOLERANCE) {
       currentLine = {
         y,
         items: [item],
+        boxes: [box],
         avgFontSize: fontSize,
         minX: x,
         maxX: x + item.width,
@@ -241,6 +348,7 @@ function groupIntoLines(items: PDFTextItem[], pageHeight: number): LineGroup[] {
       lines.push(currentLine);
     } else {
       currentLine.items.push(item);
+      currentLine.boxes.push(box);
       currentLine.avgFontSize =
         (currentLine.avgFontSize * (currentLine.items.length - 1) + fontSize) / currentLine.items.length;
       currentLine.minX = Math.min(currentLine.minX, x);
@@ -251,9 +359,10 @@ function groupIntoLines(items: PDFTextItem[], pageHeight: number): LineGroup[] {
     }
   });
 
-  // Sort items within each line by x position
+  // Sort items within each line by x position (a box's left edge is its item's x, so they stay paired)
   lines.forEach((line) => {
     line.items.sort((a, b) => a.transform[4] - b.transform[4]);
+    line.boxes.sort((a, b) => a.left - b.left);
   });
 
   return lines;
@@ -273,6 +382,9 @@ function detectTableRegions(lines: LineGroup[], pageWidth: number): TableRegion[
         regionStart = i;
       }
       consecutiveTableRows++;
+    } else if (regionStart !== null && isWrappedLine(line, lines[i - 1], lines.slice(regionStart, i))) {
+      // A wrapped cell's second line - keep the region open so the table isn't split
+      continue;
     } else {
       if (regionStart !== null && consecutiveTableRows >= MIN_TABLE_ROWS) {
         // Detect column boundaries for this region
@@ -309,6 +421,15 @@ function detectTableRegions(lines: LineGroup[], pageWidth: number): TableRegion[
   return regions;
 }
 
+function isWrappedLine(line: LineGroup, previous: LineGroup, regionLines: LineGroup[]): boolean {
+  return couldBeWrappedLine(
+    { y: line.y, minX: line.minX, lineHeight: line.avgFontSize },
+    { y: previous.y, lineHeight: previous.avgFontSize },
+    detectColumnBoundaries(regionLines),
+    Math.max(...regionLines.map((l) => l.maxX))
+  );
+}
+
 function isLikelyTableRow(line: LineGroup, pageWidth: number): boolean {
   // Multiple items with gaps suggest table structure
   if (line.items.length < 2) return false;
@@ -323,6 +444,13 @@ function isLikelyTableRow(line: LineGroup, pageWidth: number): boolean {
   return hasSignificantGaps && wideEnough;
 }
 
+function getLineText(line: LineGroup): string {
+  return line.items
+    .map((item) => item.str)
+    .join(' ')
+    .trim();
+}
+
 function getGapsBetweenItems(items: PDFTextItem[]): number[] {
   if (items.length < 2) return [];
 
@@ -371,7 +499,7 @@ function detectColumnBoundaries(lines: LineGroup[]): number[] {
 function extractTableRows(lines: LineGroup[], pageWidth: number): string[][] {
   const columnBoundaries = detectColumnBoundaries(lines);
 
-  return lines.map((line) => {
+  const laidOutRows = lines.map((line) => {
     const cells: string[] = new Array(columnBoundaries.length).fill('');
 
     line.items.forEach((item) => {
@@ -408,8 +536,11 @@ function extractTableRows(lines: LineGroup[], pageWidth: number): string[][] {
       }
     });
 
-    return cells.map((cell) => cell.trim());
+    return { y: line.y, lineHeight: line.avgFontSize, cells: cells.map((cell) => cell.trim()) };
   });
+
+  // Fold wrapped description lines back into their row
+  return mergeWrappedRows(laidOutRows);
 }
 
 function detectTableHeader(rows: string[][]): boolean {
@@ -440,13 +571,12 @@ function getNumericRatio(row: string[]): number {
 
 async function extractImagesFromPage(
   page: any,
-  viewport: any,
+  operatorList: PDFOperatorList,
   pageNum: number
 ): Promise<DocumentElement[]> {
   const images: DocumentElement[] = [];
 
   try {
-    const operatorList = await page.getOperatorList();
     const ops = operatorList.fnArray;
     const args = operatorList.argsArray;
 
@@ -461,7 +591,7 @@ async function extractImagesFromPage(
             // Convert image data to base64
             const canvas = createCanvas(imgData.width, imgData.height);
             if (canvas) {
-              const ctx = canvas.getContext('2d');
+              const ctx = getContext2d(canvas);
               if (ctx) {
                 const imageDataObj = ctx.createImageData(imgData.width, imgData.height);
 
@@ -489,8 +619,7 @@ async function extractImagesFromPage(
                 }
 
                 ctx.putImageData(imageDataObj, 0, 0);
-                const dataUrl = canvas.toDataURL('image/png');
-                const base64Data = dataUrl.split(',')[1];
+                const base64Data = await canvasToPngBase64(canvas);
 
                 // Only add images that are reasonably sized (not tiny icons)
                 if (imgData.width > 50 && imgData.height > 50) {
@@ -523,36 +652,28 @@ async function extractImagesFromPage(
   return images;
 }
 
-function createCanvas(width: number, height: number): HTMLCanvasElement | null {
-  if (typeof document !== 'undefined') {
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    return canvas;
-  }
-  return null;
-}
-
 function classifyLine(
   line: LineGroup,
   maxFontSize: number,
   page: number,
   pageWidth: number,
-  fontUsage: Map<string, number>
+  fontUsage: Map<string, number>,
+  pageLinks: PdfLink[] = []
 ): DocumentElement {
   // Combine all text in the line with proper spacing
-  const content = line.items
-    .map((item) => item.str)
-    .join(' ')
-    .trim();
+  const content = getLineText(line);
   const fontSize = line.avgFontSize;
-  const indent = Math.max(0, Math.floor((line.minX - LEFT_MARGIN_THRESHOLD) / INDENT_STEP));
+  // Lines in a column are measured against the column rather than the page
+  const areaLeft = line.column?.left ?? 0;
+  const areaWidth = line.column ? line.column.right - line.column.left : pageWidth;
+  const marginX = line.column?.left ?? LEFT_MARGIN_THRESHOLD;
+  const indent = Math.max(0, Math.floor((line.minX - marginX) / INDENT_STEP));
 
   // Check if centered (roughly)
   const lineWidth = line.maxX - line.minX;
   const centerX = line.minX + lineWidth / 2;
-  const pageCenterX = pageWidth / 2;
-  const isCentered = Math.abs(centerX - pageCenterX) < 50;
+  const areaCenterX = areaLeft + areaWidth / 2;
+  const isCentered = Math.abs(centerX - areaCenterX) < 50;
 
   // Detect bold/italic from font name
   const isBold = line.fontNames.some((name) =>
@@ -602,12 +723,13 @@ function classifyLine(
   let alignment: DocumentElement['alignment'] = 'left';
   if (isCentered && (type === 'title' || type === 'heading')) {
     alignment = 'center';
-  } else if (line.minX > pageWidth * 0.6) {
+  } else if (line.minX > areaLeft + areaWidth * 0.6) {
     alignment = 'right';
   }
 
   // Get primary font name
   const primaryFont = line.fontNames[0];
+  const links = getLinkedText(line.items.map((item, i) => ({ str: item.str, box: line.boxes[i] })), pageLinks);
 
   return {
     type,
@@ -620,6 +742,9 @@ function classifyLine(
     alignment,
     isBold: isBold || fontSize >= HEADING_MIN_FONT_SIZE,
     isItalic,
+    columns: line.column?.count,
+    sourceBoxes: line.boxes,
+    links: links.length > 0 ? links : undefined,
   };
 }
 
@@ -669,12 +794,15 @@ function cleanDocumentElements(elements: DocumentElement[]): DocumentElement[] {
       element.type === 'paragraph' &&
       previousElement.page === element.page &&
       previousElement.indent === element.indent &&
+      previousElement.columns === element.columns &&
       !previousElement.content.endsWith('.') &&
       !previousElement.content.endsWith(':') &&
       !previousElement.content.endsWith('!') &&
       !previousElement.content.endsWith('?')
     ) {
       previousElement.content += ' ' + element.content;
+      previousElement.sourceBoxes = [...(previousElement.sourceBoxes ?? []), ...(element.sourceBoxes ?? [])];
+      if (element.links) previousElement.links = [...(previousElement.links ?? []), ...element.links];
       return;
     }
 
@@ -686,36 +814,51 @@ function cleanDocumentElements(elements: DocumentElement[]): DocumentElement[] {
 }
 
 export async function extractTextByPage(
-  arrayBuffer: ArrayBuffer,
-  onProgress?: (progress: number, step: string) => void
+  source: PdfSource,
+  onProgress?: (progress: number, step: string) => void,
+  options: ExtractOptions = {}
 ): Promise<{ page: number; content: string }[]> {
   onProgress?.(5, 'Loading PDF document...');
 
-  const pdfjs = await getPdfJs();
-  const loadingTask = pdfjs.getDocument({ data: arrayBuffer });
-  const pdf = await loadingTask.promise;
-
-  const pages: { page: number; content: string }[] = [];
-  const totalPages = pdf.numPages;
+  return withPdfSession(source, options, async (pdf) => {
+    const pages: { page: number; content: string }[] = [];
+    const totalPages = pdf.numPages;
+    const pageNumbers = resolvePageNumbers(options.pages, totalPages);
 
-  for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-    const progress = 10 + Math.floor((pageNum / totalPages) * 70);
-    onProgress?.(progress, `Extracting text from page ${pageNum} of ${totalPages}...`);
+    for (const [index, pageNum] of pageNumbers.entries()) {
+      const progress = 10 + Math.floor(((index + 1) / pageNumbers.length) * 70);
+      onProgress?.(progress, `Extracting text from page ${pageNum} of ${totalPages}...`);
 
-    const page = await pdf.getPage(pageNum);
-    const content = await page.getTextContent();
+      const { items } = await pdf.getTextItems(pageNum, () =>
+        onProgress?.(progress, `Running OCR on scanned page ${pageNum} of ${totalPages}...`)
+      );
 
-    const pageText = content.items
-      .map((item) => (item as PDFTextItem).str)
-      .join(' ')
-      .replace(/\s+/g, ' ')
-      .trim();
+      const pageText = items
+        .map((item) => item.str)
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim();
 
-    if (pageText) {
-      pages.push({ page: pageNum, content: pageText });
+      if (pageText) {
+        pages.push({ page: pageNum, content: pageText });
+      }
     }
-  }
 
-  onProgress?.(80, 'Text extraction complete');
-  return pages;
+    onProgress?.(80, 'Text extraction complete');
+    return pages;
+  });
+}
+
+/**
+ * Collect the link annotations on each page - web addresses and jumps within the document.
+ * Used to turn table cells covered by a link into hyperlinks.
+ */
+export async function extractLinks(source: PdfSource, options: ExtractOptions = {}): Promise<PdfLink[]> {
+  return withPdfSession(source, options, async (pdf) => {
+    const links: PdfLink[] = [];
+    for (const pageNum of resolvePageNumbers(options.pages, pdf.numPages)) {
+      links.push(...(await pdf.getLinks(pageNum)));
+    }
+    return links;
+  });
 }
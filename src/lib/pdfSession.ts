@@ -0,0 +1,337 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { hasTextLayer, recognizePage } from './ocr';
+import { offscreenCanvasFactory } from './canvas';
+import { assetUrl } from './assets';
+import type { LinkTarget, PdfLink } from './types';
+
+export interface PDFTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  fontName?: string;
+  confidence?: number; // Only set for items produced by OCR
+}
+
+export interface PageText {
+  items: PDFTextItem[];
+  isOcr: boolean;
+}
+
+/**
+ * An entry of the PDF's outline (bookmarks), resolved to the place it points to
+ */
+export interface OutlineEntry {
+  title: string;
+  level: number; // 1 for top-level entries
+  page: number | null; // null when the entry has no destination in this document (e.g. a web link)
+  y?: number; // Top of the target view, measured from the top of the page, when the destination sets one
+}
+
+type OperatorList = Awaited<ReturnType<PDFPageProxy['getOperatorList']>>;
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+const PDF_WORKER_FILE = 'pdf.worker.min.mjs';
+
+// Lazy load pdfjs-dist
+let pdfjsModule: typeof import('pdfjs-dist') | null = null;
+
+export async function getPdfJs() {
+  if (pdfjsModule) return pdfjsModule;
+
+  const pdfjs = await import('pdfjs-dist');
+
+  // Self-hosted worker, kept in step with pdfjs-dist by scripts/copy-pdfjs-worker.mjs
+  pdfjs.GlobalWorkerOptions.workerSrc = assetUrl(PDF_WORKER_FILE);
+
+  if (isWorkerScope()) {
+    // Already off the main thread (see workers/conversion.worker.ts) - run pdf.js's
+    // worker code in this thread instead of nesting another worker inside ours
+    (globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = await import('pdfjs-dist/build/pdf.worker.min.mjs');
+  }
+
+  pdfjsModule = pdfjs;
+  return pdfjs;
+}
+
+function isWorkerScope(): boolean {
+  return typeof document === 'undefined' && typeof self !== 'undefined';
+}
+
+export interface PdfLoadOptions {
+  password?: string; // Only ever held in memory for the duration of the conversion
+}
+
+/**
+ * Thrown when the pdf.js worker can't be loaded from our origin, or is a different
+ * version from the installed pdfjs-dist (a stale public/pdf.worker.min.mjs after an upgrade)
+ */
+export class PdfWorkerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfWorkerError';
+  }
+}
+
+/**
+ * Thrown when a PDF is encrypted and no password, or the wrong one, was supplied
+ */
+export class PdfPasswordError extends Error {
+  reason: 'required' | 'incorrect';
+
+  constructor(reason: 'required' | 'incorrect') {
+    super(reason === 'required' ? 'This PDF is password protected' : 'Incorrect password');
+    this.name = 'PdfPasswordError';
+    this.reason = reason;
+  }
+}
+
+async function loadPdfDocument(arrayBuffer: ArrayBuffer, options: PdfLoadOptions) {
+  const pdfjs = await getPdfJs();
+  const loadingTask = pdfjs.getDocument({
+    data: arrayBuffer,
+    password: options.password,
+    // Without a document, fonts can't be registered and scratch canvases must be offscreen
+    ...(isWorkerScope() && { disableFontFace: true, canvasFactory: offscreenCanvasFactory }),
+  });
+
+  try {
+    return await loadingTask.promise;
+  } catch (error) {
+    // pdf.js rejects with a PasswordException carrying a PasswordResponses code
+    if (error instanceof Error && error.name === 'PasswordException') {
+      const code = (error as Error & { code?: number }).code;
+      throw new PdfPasswordError(
+        code === pdfjs.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'required'
+      );
+    }
+    throw toWorkerError(error, pdfjs.version) ?? error;
+  }
+}
+
+/**
+ * Recognise pdf.js's worker start-up failures and turn them into an actionable PdfWorkerError
+ */
+function toWorkerError(error: unknown, apiVersion: string): PdfWorkerError | null {
+  if (!(error instanceof Error)) return null;
+  const workerUrl = assetUrl(PDF_WORKER_FILE);
+
+  const mismatch = error.message.match(/the Worker version "([^"]+)"/);
+  if (mismatch) {
+    return new PdfWorkerError(
+      `The PDF worker at ${workerUrl} is version ${mismatch[1]}, but pdfjs-dist is version ${apiVersion}. ` +
+        'Run "npm run copy-assets" and redeploy.'
+    );
+  }
+
+  if (error.message.startsWith('Setting up fake worker failed')) {
+    return new PdfWorkerError(
+      `Could not load the PDF worker from ${workerUrl}. ` +
+        'Check that the file is deployed and NEXT_PUBLIC_ASSET_BASE_PATH points at it.'
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Get the text items for a page in pdf.js form.
+ * Pages without a text layer (scans) are rendered and run through OCR, and the
+ * recognised words are converted into the same shape as native pdf.js items.
+ */
+async function getPageTextItems(page: PDFPageProxy, pageNum: number, onOcr?: () => void): Promise<PageText> {
+  const content = await page.getTextContent();
+  const items = content.items as PDFTextItem[];
+
+  if (hasTextLayer(items)) {
+    return { items, isOcr: false };
+  }
+
+  onOcr?.();
+  const viewport = page.getViewport({ scale: 1.0 });
+  const ocrItems = await recognizePage(page, pageNum);
+
+  return {
+    items: ocrItems.map((item) => {
+      const fontSize = item.fontSize || item.height;
+      return {
+        str: item.str,
+        transform: [fontSize, 0, 0, fontSize, item.x, viewport.height - item.y],
+        width: item.width,
+        height: item.height,
+        confidence: item.confidence,
+      };
+    }),
+    isOcr: true,
+  };
+}
+
+/**
+ * One loaded PDF shared by every extraction pass. Pages, text content (including
+ * OCR results) and operator lists are fetched once and cached for the session.
+ */
+export interface PdfSession {
+  numPages: number;
+  getPage(pageNum: number): Promise<PDFPageProxy>;
+  // onOcr is only called when the page actually has to be OCR'd, not for a cached result
+  getTextItems(pageNum: number, onOcr?: () => void): Promise<PageText>;
+  getOperatorList(pageNum: number): Promise<OperatorList>;
+  getOutline(): Promise<OutlineEntry[]>; // Flattened in document order; empty when the PDF has none
+  getLinks(pageNum: number): Promise<PdfLink[]>; // Link annotations with a web address or a place in this document
+  destroy(): Promise<void>;
+}
+
+// Extractors accept either a loaded session or raw bytes (loaded for that one pass)
+export type PdfSource = ArrayBuffer | PdfSession;
+
+/**
+ * Load a PDF once for several extraction passes. Call destroy() when done to free pdf.js memory.
+ * The buffer is handed to pdf.js, which may detach it - pass a copy if you still need it.
+ */
+export async function openPdfSession(arrayBuffer: ArrayBuffer, options: PdfLoadOptions = {}): Promise<PdfSession> {
+  const pdf: PDFDocumentProxy = await loadPdfDocument(arrayBuffer, options);
+
+  // Promises are cached rather than values so concurrent callers share one fetch
+  const pages = new Map<number, Promise<PDFPageProxy>>();
+  const textItems = new Map<number, Promise<PageText>>();
+  const operatorLists = new Map<number, Promise<OperatorList>>();
+  const links = new Map<number, Promise<PdfLink[]>>();
+
+  function cached<T>(cache: Map<number, Promise<T>>, pageNum: number, load: () => Promise<T>): Promise<T> {
+    let entry = cache.get(pageNum);
+    if (!entry) {
+      entry = load();
+      cache.set(pageNum, entry);
+      // Let a later call retry a page that failed
+      entry.catch(() => cache.delete(pageNum));
+    }
+    return entry;
+  }
+
+  let outline: Promise<OutlineEntry[]> | null = null;
+
+  const getPage = (pageNum: number) => cached(pages, pageNum, () => pdf.getPage(pageNum));
+
+  return {
+    numPages: pdf.numPages,
+    getPage,
+    getTextItems: (pageNum, onOcr) =>
+      cached(textItems, pageNum, async () => getPageTextItems(await getPage(pageNum), pageNum, onOcr)),
+    getOperatorList: (pageNum) =>
+      cached(operatorLists, pageNum, async () => (await getPage(pageNum)).getOperatorList()),
+    getOutline: () => (outline ??= readOutline(pdf, getPage)),
+    getLinks: (pageNum) => cached(links, pageNum, () => readLinks(pdf, getPage, pageNum)),
+    destroy: async () => {
+      pages.clear();
+      textItems.clear();
+      operatorLists.clear();
+      links.clear();
+      await pdf.destroy();
+    },
+  };
+}
+
+async function readOutline(
+  pdf: PDFDocumentProxy,
+  getPage: (pageNum: number) => Promise<PDFPageProxy>
+): Promise<OutlineEntry[]> {
+  const entries: OutlineEntry[] = [];
+
+  const visit = async (nodes: OutlineNode[], level: number) => {
+    for (const node of nodes) {
+      const title = node.title.replace(/\s+/g, ' ').trim();
+      if (title) entries.push({ title, level, ...(await resolveDestination(pdf, getPage, node.dest)) });
+      if (node.items?.length) await visit(node.items as OutlineNode[], level + 1);
+    }
+  };
+
+  try {
+    await visit((await pdf.getOutline()) ?? [], 1);
+  } catch (error) {
+    // A broken outline just means headings come from font sizes alone
+    console.warn('Could not read the PDF outline:', error);
+  }
+  return entries;
+}
+
+async function readLinks(
+  pdf: PDFDocumentProxy,
+  getPage: (pageNum: number) => Promise<PDFPageProxy>,
+  pageNum: number
+): Promise<PdfLink[]> {
+  const page = await getPage(pageNum);
+  const { height } = page.getViewport({ scale: 1.0 });
+  const links: PdfLink[] = [];
+
+  try {
+    for (const annotation of await page.getAnnotations()) {
+      if (annotation.subtype !== 'Link' || !Array.isArray(annotation.rect)) continue;
+
+      // pdf.js only sets url for addresses that are safe to open
+      let target: LinkTarget | null = null;
+      if (annotation.url) {
+        target = { url: annotation.url };
+      } else if (annotation.dest) {
+        const { page, y } = await resolveDestination(pdf, getPage, annotation.dest);
+        if (page !== null) target = y === undefined ? { page } : { page, y };
+      }
+      if (!target) continue;
+
+      const [x1, y1, x2, y2] = annotation.rect as number[];
+      links.push({
+        page: pageNum,
+        left: Math.min(x1, x2),
+        top: height - Math.max(y1, y2),
+        right: Math.max(x1, x2),
+        bottom: height - Math.min(y1, y2),
+        target,
+      });
+    }
+  } catch (error) {
+    // Links are a nicety - the text is still extracted without them
+    console.warn(`Could not read links on page ${pageNum}:`, error);
+  }
+  return links;
+}
+
+async function resolveDestination(
+  pdf: PDFDocumentProxy,
+  getPage: (pageNum: number) => Promise<PDFPageProxy>,
+  dest: OutlineNode['dest']
+): Promise<Pick<OutlineEntry, 'page' | 'y'>> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return { page: null };
+
+    const [ref, mode] = explicit;
+    const pageNum = (typeof ref === 'number' ? ref : await pdf.getPageIndex(ref)) + 1;
+
+    // XYZ and FitH/FitBH views carry their top edge, in PDF space (measured up from the bottom)
+    const top = mode?.name === 'XYZ' ? explicit[3] : mode?.name === 'FitH' || mode?.name === 'FitBH' ? explicit[2] : null;
+    if (typeof top !== 'number') return { page: pageNum };
+
+    const viewport = (await getPage(pageNum)).getViewport({ scale: 1.0 });
+    return { page: pageNum, y: viewport.height - top };
+  } catch {
+    return { page: null };
+  }
+}
+
+/**
+ * Run one extraction pass against a source, opening (and afterwards closing)
+ * a session when raw bytes were passed
+ */
+export async function withPdfSession<T>(
+  source: PdfSource,
+  options: PdfLoadOptions,
+  run: (session: PdfSession) => Promise<T>
+): Promise<T> {
+  if (!(source instanceof ArrayBuffer)) return run(source);
+
+  const session = await openPdfSession(source, options);
+  try {
+    return await run(session);
+  } finally {
+    await session.destroy();
+  }
+}
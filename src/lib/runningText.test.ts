@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { findRunningText, type PageLine } from './runningText';
+
+function line(page: number, y: number, text: string, segments = 1): PageLine {
+  return { page, y, text, segments };
+}
+
+// Pages with a constant header, a changing balance line near the top, some body text and a page footer
+function statement(pageCount: number): PageLine[] {
+  return Array.from({ length: pageCount }, (_, index) => {
+    const page = index + 1;
+    return [
+      line(page, 30, 'ACME Bank 2026'),
+      line(page, 50, `Balance ${page * 137}`),
+      line(page, 200, `Payment ${page * 37}.00`),
+      line(page, 220, `Payment ${page * 37 + 11}.00`),
+      line(page, 240, `Payment ${page * 37 + 22}.00`),
+      line(page, 400, `Payment ${page * 37 + 33}.00`),
+      line(page, 420, `Payment ${page * 37 + 44}.00`),
+      line(page, 800 + (page % 2), `Page ${page} of ${pageCount}`),
+    ];
+  }).flat();
+}
+
+describe('findRunningText', () => {
+  it('finds the header and footer repeated on every page', () => {
+    const lines = statement(3);
+    const running = findRunningText(lines, 3);
+    expect(running.header).toEqual(['ACME Bank 2026']);
+    expect(running.footer).toEqual(['Page {page} of {pages}']);
+    expect(running.lines.size).toBe(6);
+    expect([...running.lines].every((found) => found.y === 30 || found.y >= 800)).toBe(true);
+  });
+
+  it('keeps a line whose number changes without following the page number', () => {
+    const running = findRunningText(statement(3), 3);
+    expect([...running.lines].some((found) => found.text.startsWith('Balance'))).toBe(false);
+  });
+
+  it('leaves the page count as a number when it is not known', () => {
+    expect(findRunningText(statement(3)).footer).toEqual(['Page {page} of 3']);
+  });
+
+  it('allows printed page numbers to be offset from the page index', () => {
+    const lines = [1, 2, 3].flatMap((page) => [
+      line(page, 100, `Item ${page * 13}`),
+      line(page, 120, `Item ${page * 17}`),
+      line(page, 140, `Item ${page * 19}`),
+      line(page, 160, `Item ${page * 23}`),
+      line(page, 780, `- ${page + 1} -`),
+    ]);
+    expect(findRunningText(lines).footer).toEqual(['- {page} -']);
+  });
+
+  it('ignores lines that sit at a different height on each page', () => {
+    const lines = statement(3).map((found) => (found.text === 'ACME Bank 2026' ? { ...found, y: 30 + found.page * 20 } : found));
+    expect(findRunningText(lines, 3).header).toEqual([]);
+  });
+
+  it('leaves out lines split into many spaced-out parts', () => {
+    const lines = statement(3).map((found) => (found.text === 'ACME Bank 2026' ? { ...found, segments: 3 } : found));
+    expect(findRunningText(lines, 3).header).toEqual([]);
+  });
+
+  it('needs at least two pages to find a pattern', () => {
+    const running = findRunningText(statement(1), 1);
+    expect(running.lines.size).toBe(0);
+    expect(running.header).toEqual([]);
+    expect(running.footer).toEqual([]);
+  });
+});
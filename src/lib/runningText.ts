@@ -0,0 +1,159 @@
+import type { TextItem } from './types';
+
+// Lines this close to the top or bottom of a page's text can be running headers or footers
+const BAND_LINES = 3;
+// Share of pages a line must repeat on, and the fewest pages that can show a pattern
+const RUNNING_PAGE_SHARE = 0.5;
+const MIN_RUNNING_PAGES = 2;
+const POSITION_TOLERANCE = 4; // Max baseline drift (pt) between pages
+const ROW_TOLERANCE = 5; // Y-coordinate tolerance for grouping items into lines
+const SEGMENT_GAP = 15; // Gap (pt) that splits a line into separate parts
+// A line split into this many spaced-out parts is more likely a table header repeated on each page
+const MAX_RUNNING_SEGMENTS = 3;
+
+/**
+ * One line of text on a page, as seen by the running header and footer analysis
+ */
+export interface PageLine {
+  page: number;
+  y: number; // Baseline, measured from the top of the page
+  text: string;
+  segments: number; // Parts of the line separated by wide gaps
+}
+
+export interface RunningText<T extends PageLine> {
+  lines: Set<T>; // Every occurrence on every page, to leave out of the body
+  header: string[]; // Text of each header line, with {page} and {pages} in place of page numbers
+  footer: string[];
+}
+
+interface Occurrence<T> {
+  line: T;
+  numbers: number[];
+}
+
+/**
+ * Find text repeated at the same position near the top or bottom of most pages: running
+ * headers, footers and page numbers. Numbers may change from page to page only when they
+ * count the pages; any other changing number (a date, a balance) marks the line as content.
+ * pageCount is the length of the whole document, so "of 12" can become {pages}.
+ */
+export function findRunningText<T extends PageLine>(lines: T[], pageCount?: number): RunningText<T> {
+  const byPage = new Map<number, T[]>();
+  lines.forEach((line) => {
+    if (!byPage.has(line.page)) byPage.set(line.page, []);
+    byPage.get(line.page)!.push(line);
+  });
+
+  const result: RunningText<T> = { lines: new Set(), header: [], footer: [] };
+  const minPages = Math.max(MIN_RUNNING_PAGES, Math.ceil(byPage.size * RUNNING_PAGE_SHARE));
+  if (byPage.size < minPages) return result;
+
+  // Group the lines in each page's top and bottom bands by their text with the numbers masked
+  const groups = new Map<string, Occurrence<T>[]>();
+  byPage.forEach((pageLines) => {
+    const sorted = [...pageLines].sort((a, b) => a.y - b.y);
+    sorted.forEach((line, index) => {
+      const band = index < BAND_LINES && index < sorted.length / 2 ? 'header' : index >= sorted.length - BAND_LINES ? 'footer' : null;
+      const key = normalizeLineText(line.text);
+      if (!band || !key || line.segments >= MAX_RUNNING_SEGMENTS) return;
+
+      const groupKey = `${band}|${key}`;
+      if (!groups.has(groupKey)) groups.set(groupKey, []);
+      groups.get(groupKey)!.push({ line, numbers: (line.text.match(/\d+/g) ?? []).map(Number) });
+    });
+  });
+
+  const found: { band: string; y: number; text: string }[] = [];
+  groups.forEach((occurrences, groupKey) => {
+    // Keep one occurrence per page, at the position most pages share
+    const medianY = median(occurrences.map(({ line }) => line.y));
+    const aligned = new Map<number, Occurrence<T>>();
+    occurrences.forEach((occurrence) => {
+      if (Math.abs(occurrence.line.y - medianY) <= POSITION_TOLERANCE && !aligned.has(occurrence.line.page)) {
+        aligned.set(occurrence.line.page, occurrence);
+      }
+    });
+    if (aligned.size < minPages) return;
+
+    const text = getRunningTemplate([...aligned.values()], pageCount);
+    if (text === null) return;
+
+    aligned.forEach(({ line }) => result.lines.add(line));
+    found.push({ band: groupKey.slice(0, groupKey.indexOf('|')), y: medianY, text });
+  });
+
+  found.sort((a, b) => a.y - b.y);
+  result.header = found.filter((entry) => entry.band === 'header').map((entry) => entry.text);
+  result.footer = found.filter((entry) => entry.band === 'footer').map((entry) => entry.text);
+  return result;
+}
+
+/**
+ * Separate running headers, footers and page numbers from extracted text items. The body is
+ * the items without them; header and footer hold their text as findRunningText gives it.
+ */
+export function splitRunningText(items: TextItem[]): { body: TextItem[]; header: string[]; footer: string[] } {
+  const lines = groupItemsIntoLines(items);
+  const running = findRunningText(lines);
+  if (running.lines.size === 0) return { body: items, header: [], footer: [] };
+
+  const removed = new Set<TextItem>();
+  running.lines.forEach((line) => line.items.forEach((item) => removed.add(item)));
+  return { body: items.filter((item) => !removed.has(item)), header: running.header, footer: running.footer };
+}
+
+function normalizeLineText(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// The line's text with page counters turned into placeholders, or null when a number changes
+// between pages without following the page number
+function getRunningTemplate<T extends PageLine>(occurrences: Occurrence<T>[], pageCount?: number): string | null {
+  const first = occurrences[0];
+  const slots = first.numbers.map((value, slot) => {
+    if (occurrences.every(({ numbers }) => numbers[slot] === value)) return 'constant';
+    // Printed page numbers may be offset from the PDF's, e.g. after an unnumbered cover
+    const offset = value - first.line.page;
+    return occurrences.every(({ line, numbers }) => numbers[slot] - line.page === offset) ? 'page' : null;
+  });
+  if (slots.includes(null)) return null;
+
+  const hasPageNumber = slots.includes('page');
+  let slot = 0;
+  return first.line.text.replace(/\d+/g, (digits) => {
+    const kind = slots[slot++];
+    if (kind === 'page') return '{page}';
+    return hasPageNumber && Number(digits) === pageCount ? '{pages}' : digits;
+  });
+}
+
+function groupItemsIntoLines(items: TextItem[]): (PageLine & { items: TextItem[] })[] {
+  const lines: (PageLine & { items: TextItem[] })[] = [];
+  const sorted = [...items].sort((a, b) => a.page - b.page || a.y - b.y);
+
+  let current: (PageLine & { items: TextItem[] }) | null = null;
+  sorted.forEach((item) => {
+    if (!current || current.page !== item.page || Math.abs(item.y - current.y) > ROW_TOLERANCE) {
+      current = { page: item.page, y: item.y, text: '', segments: 0, items: [] };
+      lines.push(current);
+    }
+    current.items.push(item);
+  });
+
+  lines.forEach((line) => {
+    line.items.sort((a, b) => a.x - b.x);
+    line.text = line.items.map((item) => item.str).join(' ').trim();
+    line.segments = 1 + line.items.filter((item, i) => {
+      const previous = line.items[i - 1];
+      return previous && item.x - (previous.x + previous.width) > SEGMENT_GAP;
+    }).length;
+  });
+
+  return lines;
+}
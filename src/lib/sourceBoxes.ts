@@ -0,0 +1,37 @@
+import type { SourceBox, TextItem } from './types';
+
+// Slack around a box when matching a click on the page, in PDF points
+const HIT_PADDING = 2;
+
+/**
+ * The box a text item covers. Item y-values are baselines, so the box reaches one text height above.
+ */
+export function textItemBox(item: TextItem): SourceBox {
+  const height = item.height || item.fontSize || 0;
+  return { page: item.page, left: item.x, top: item.y - height, right: item.x + item.width, bottom: item.y };
+}
+
+export function boxContainsPoint(box: SourceBox, page: number, x: number, y: number): boolean {
+  return (
+    box.page === page &&
+    x >= box.left - HIT_PADDING &&
+    x <= box.right + HIT_PADDING &&
+    y >= box.top - HIT_PADDING &&
+    y <= box.bottom + HIT_PADDING
+  );
+}
+
+/**
+ * The smallest box around every box on one page (null when none are on it)
+ */
+export function getBoundingBox(boxes: SourceBox[], page: number): SourceBox | null {
+  const onPage = boxes.filter((box) => box.page === page);
+  if (onPage.length === 0) return null;
+  return {
+    page,
+    left: Math.min(...onPage.map((box) => box.left)),
+    top: Math.min(...onPage.map((box) => box.top)),
+    right: Math.max(...onPage.map((box) => box.right)),
+    bottom: Math.max(...onPage.map((box) => box.bottom)),
+  };
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+  deleteColumns,
+  deleteRows,
+  demoteRows,
+  getHeaderRowCount,
+  insertRows,
+  mergeColumns,
+  promoteLetterhead,
+  setCellValue,
+  setHeaderRowCount,
+  splitColumn,
+  updateTable,
+} from './tableEdits';
+import type { ConversionResult, ExtractedTable, SourceBox } from './types';
+
+function box(left: number, top: number): SourceBox {
+  return { page: 1, left, top, right: left + 40, bottom: top + 10 };
+}
+
+function makeTable(rows: string[][], letterhead?: string[]): ExtractedTable {
+  return {
+    rows,
+    source: 'test',
+    pageNumber: 1,
+    letterhead,
+    cellSources: rows.map((row, r) => row.map((_, c) => [box(c * 50, r * 12)])),
+  };
+}
+
+const invoice = () =>
+  makeTable([
+    ['Item', 'Qty', 'Price'],
+    ['Apples', '3', '1.20'],
+    ['Pears', '5', '0.80'],
+  ]);
+
+describe('setCellValue', () => {
+  it('returns a new table and leaves the original untouched', () => {
+    const table = invoice();
+    const edited = setCellValue(table, 1, 1, '4');
+    expect(edited).not.toBe(table);
+    expect(edited.rows[1]).toEqual(['Apples', '4', '1.20']);
+    expect(table.rows[1][1]).toBe('3');
+  });
+
+  it('returns the same table when the value does not change', () => {
+    const table = invoice();
+    expect(setCellValue(table, 1, 1, '3')).toBe(table);
+  });
+});
+
+describe('row edits', () => {
+  it('keeps cell sources parallel to the rows', () => {
+    const inserted = insertRows(invoice(), 1, 2);
+    expect(inserted.rows).toHaveLength(5);
+    expect(inserted.rows[1]).toEqual(['', '', '']);
+    expect(inserted.cellSources).toHaveLength(5);
+    expect(inserted.cellSources?.[1]).toEqual([[], [], []]);
+    expect(inserted.cellSources?.[3][0]).toEqual([box(0, 12)]);
+
+    const deleted = deleteRows(inserted, 1, 2);
+    expect(deleted.rows).toEqual(invoice().rows);
+    expect(deleted.cellSources).toEqual(invoice().cellSources);
+  });
+
+  it('never deletes the last row', () => {
+    const table = invoice();
+    expect(deleteRows(table, 0, 3)).toBe(table);
+  });
+
+  it('grows the header when rows are inserted inside it', () => {
+    const table = setHeaderRowCount(invoice(), 1);
+    expect(getHeaderRowCount(insertRows(table, 0))).toBe(2);
+    expect(getHeaderRowCount(insertRows(table, 2))).toBe(1);
+  });
+});
+
+describe('column edits', () => {
+  it('merges a column with the one to its right', () => {
+    const merged = mergeColumns(invoice(), 0);
+    expect(merged.rows[1]).toEqual(['Apples 3', '1.20']);
+    expect(merged.cellSources?.[1][0]).toEqual([box(0, 12), box(50, 12)]);
+  });
+
+  it('splits a column at a delimiter', () => {
+    const table = makeTable([
+      ['Name', 'Total'],
+      ['Smith, Anna', '10'],
+      ['Jones', '12'],
+    ]);
+    const split = splitColumn(table, 0, ',');
+    expect(split.rows).toEqual([
+      ['Name', '', 'Total'],
+      ['Smith', 'Anna', '10'],
+      ['Jones', '', '12'],
+    ]);
+    expect(split.cellSources?.[1]).toHaveLength(3);
+  });
+
+  it('returns the same table when there is nothing to split or delete', () => {
+    const table = invoice();
+    expect(splitColumn(table, 0, ';')).toBe(table);
+    expect(deleteColumns(table, 0, 3)).toBe(table);
+    expect(mergeColumns(table, 2)).toBe(table);
+  });
+});
+
+describe('letterhead edits', () => {
+  it('promotes letterhead lines into header rows and demotes them back', () => {
+    const table = makeTable([['Apples', '3']], ['ACME Ltd', 'Item Qty']);
+    const promoted = promoteLetterhead(table, 1);
+    expect(promoted.letterhead).toEqual(['ACME Ltd']);
+    expect(promoted.rows).toEqual([
+      ['Item Qty', ''],
+      ['Apples', '3'],
+    ]);
+    expect(getHeaderRowCount(promoted)).toBe(1);
+    expect(promoted.cellSources).toHaveLength(2);
+
+    const demoted = demoteRows(promoted, 0);
+    expect(demoted.letterhead).toEqual(['ACME Ltd', 'Item Qty']);
+    expect(demoted.rows).toEqual([['Apples', '3']]);
+    expect(getHeaderRowCount(demoted)).toBe(0);
+  });
+});
+
+describe('updateTable', () => {
+  const result = (): ConversionResult => ({ tables: [invoice(), invoice()], textContent: [], mode: 'tables' });
+
+  it('replaces only the edited table', () => {
+    const before = result();
+    const after = updateTable(before, 1, (table) => setCellValue(table, 2, 0, 'Plums'));
+    expect(after).not.toBe(before);
+    expect(after.tables[0]).toBe(before.tables[0]);
+    expect(after.tables[1].rows[2][0]).toBe('Plums');
+  });
+
+  it('returns the same result for a no-op edit or a missing table', () => {
+    const before = result();
+    expect(updateTable(before, 0, (table) => table)).toBe(before);
+    expect(updateTable(before, 5, (table) => setCellValue(table, 0, 0, 'x'))).toBe(before);
+  });
+});
@@ -0,0 +1,317 @@
+import { reanalyzeTable, type EnhancedExtractedTable } from './tableExtractor';
+import type { ColumnFormat, ConversionResult, ExtractedTable, SourceBox } from './types';
+
+/**
+ * Hand edits made in the spreadsheet preview. Every function returns a new table (the
+ * input is never mutated, so earlier versions can be kept for undo) with its metadata and
+ * header structure recomputed, and returns the same table when there is nothing to change.
+ * Row indexes count table rows only - letterhead lines are addressed separately.
+ */
+
+/**
+ * Replace one table of a result
+ */
+export function updateTable(
+  result: ConversionResult,
+  tableIndex: number,
+  edit: (table: ExtractedTable) => ExtractedTable
+): ConversionResult {
+  const table = result.tables[tableIndex];
+  if (!table) return result;
+
+  const edited = edit(table);
+  if (edited === table) return result;
+  return { ...result, tables: result.tables.map((existing, index) => (index === tableIndex ? edited : existing)) };
+}
+
+/**
+ * Number of leading rows exported as the header - the same rule the exporters use
+ */
+export function getHeaderRowCount(table: ExtractedTable): number {
+  const enhanced = table as Partial<EnhancedExtractedTable>;
+  return enhanced.headerStructure?.rowCount ?? (enhanced.metadata?.hasDetectedHeader ? 1 : 0);
+}
+
+export function getColumnCount(table: ExtractedTable): number {
+  return Math.max(0, ...table.rows.map((row) => row.length));
+}
+
+function getColumnPositions(table: ExtractedTable): number[] | undefined {
+  return (table as Partial<EnhancedExtractedTable>).metadata?.columnPositions;
+}
+
+export function getColumnFormats(table: ExtractedTable): (ColumnFormat | null)[] | undefined {
+  return (table as Partial<EnhancedExtractedTable>).metadata?.columnFormats;
+}
+
+// Replace `removeCount` entries of a list from `start` on with `inserted`
+function splice<T>(values: T[], start: number, removeCount: number, inserted: T[]): T[] {
+  return [...values.slice(0, start), ...inserted, ...values.slice(start + removeCount)];
+}
+
+// Rows padded to the full width so column edits line up
+function getPaddedRows(table: ExtractedTable): string[][] {
+  const numCols = getColumnCount(table);
+  return table.rows.map((row) => Array.from({ length: numCols }, (_, col) => row[col] ?? ''));
+}
+
+// Cell source boxes padded the same way (undefined for tables without them)
+function getPaddedSources(table: ExtractedTable): SourceBox[][][] | undefined {
+  const { cellSources } = table;
+  if (!cellSources) return undefined;
+  const numCols = getColumnCount(table);
+  return table.rows.map((_, row) => Array.from({ length: numCols }, (_, col) => cellSources[row]?.[col] ?? []));
+}
+
+function emptySources(numCols: number): SourceBox[][] {
+  return Array.from({ length: numCols }, () => []);
+}
+
+interface ColumnChanges {
+  columnPositions?: number[];
+  columnFormats?: (ColumnFormat | null)[];
+  cellSources?: SourceBox[][][];
+}
+
+// Anything not passed in `changes` is carried over from the table
+function rebuild(
+  table: ExtractedTable,
+  rows: string[][],
+  headerRowCount: number,
+  {
+    columnPositions = getColumnPositions(table),
+    columnFormats = getColumnFormats(table),
+    cellSources = table.cellSources,
+  }: ColumnChanges = {}
+): ExtractedTable {
+  return reanalyzeTable({ ...table, rows, cellSources }, headerRowCount, columnPositions, columnFormats);
+}
+
+export function setCellValue(table: ExtractedTable, row: number, col: number, value: string): ExtractedTable {
+  if ((table.rows[row]?.[col] ?? '') === value || row >= table.rows.length) return table;
+
+  const rows = getPaddedRows(table);
+  rows[row][col] = value;
+  return rebuild(table, rows, getHeaderRowCount(table));
+}
+
+/**
+ * Empty every cell in rows firstRow..lastRow and columns firstCol..lastCol
+ */
+export function clearCells(
+  table: ExtractedTable,
+  firstRow: number,
+  lastRow: number,
+  firstCol: number,
+  lastCol: number
+): ExtractedTable {
+  const rows = getPaddedRows(table);
+  const cellSources = getPaddedSources(table);
+  let changed = false;
+  for (let row = Math.max(firstRow, 0); row <= Math.min(lastRow, rows.length - 1); row++) {
+    for (let col = Math.max(firstCol, 0); col <= Math.min(lastCol, rows[row].length - 1); col++) {
+      changed ||= rows[row][col] !== '';
+      rows[row][col] = '';
+      if (cellSources) cellSources[row][col] = [];
+    }
+  }
+  return changed ? rebuild(table, rows, getHeaderRowCount(table), { cellSources }) : table;
+}
+
+export function setLetterheadLine(table: ExtractedTable, index: number, value: string): ExtractedTable {
+  const letterhead = table.letterhead ?? [];
+  if (letterhead[index] === value) return table;
+
+  const lines = letterhead.map((line, i) => (i === index ? value : line)).filter((line) => line.trim());
+  return { ...table, letterhead: lines.length > 0 ? lines : undefined };
+}
+
+/**
+ * Insert empty rows before row `index` (index === row count appends)
+ */
+export function insertRows(table: ExtractedTable, index: number, count = 1): ExtractedTable {
+  const rows = getPaddedRows(table);
+  const numCols = Math.max(1, getColumnCount(table));
+  rows.splice(index, 0, ...Array.from({ length: count }, () => new Array(numCols).fill('')));
+  const sources = getPaddedSources(table);
+  const cellSources = sources && splice(sources, index, 0, Array.from({ length: count }, () => emptySources(numCols)));
+
+  // Rows inserted inside the header become part of it
+  const headerRowCount = getHeaderRowCount(table);
+  return rebuild(table, rows, index < headerRowCount ? headerRowCount + count : headerRowCount, { cellSources });
+}
+
+/**
+ * Delete rows start..start+count-1. The last row of a table can't be deleted.
+ */
+export function deleteRows(table: ExtractedTable, start: number, count = 1): ExtractedTable {
+  const end = Math.min(start + count, table.rows.length);
+  if (end <= start || end - start >= table.rows.length) return table;
+
+  const rows = getPaddedRows(table);
+  rows.splice(start, end - start);
+  const sources = getPaddedSources(table);
+
+  const headerRowCount = getHeaderRowCount(table);
+  const removedHeaderRows = Math.max(0, Math.min(end, headerRowCount) - start);
+  return rebuild(table, rows, headerRowCount - removedHeaderRows, {
+    cellSources: sources && splice(sources, start, end - start, []),
+  });
+}
+
+/**
+ * Insert empty columns before column `index` (index === column count appends)
+ */
+export function insertColumns(table: ExtractedTable, index: number, count = 1): ExtractedTable {
+  const rows = getPaddedRows(table).map((row) => {
+    const next = [...row];
+    next.splice(index, 0, ...new Array(count).fill(''));
+    return next;
+  });
+
+  // A new column shares the page position of the column it was inserted next to
+  const positions = getColumnPositions(table);
+  const formats = getColumnFormats(table);
+  const neighbourPosition = positions?.[Math.min(index, positions.length - 1)];
+  return rebuild(table, rows, getHeaderRowCount(table), {
+    columnPositions: positions && splice(positions, index, 0, new Array(count).fill(neighbourPosition)),
+    columnFormats: formats && splice(formats, index, 0, new Array(count).fill(null)),
+    cellSources: getPaddedSources(table)?.map((row) => splice(row, index, 0, emptySources(count))),
+  });
+}
+
+/**
+ * Delete columns start..start+count-1. The last column of a table can't be deleted.
+ */
+export function deleteColumns(table: ExtractedTable, start: number, count = 1): ExtractedTable {
+  const numCols = getColumnCount(table);
+  const end = Math.min(start + count, numCols);
+  if (end <= start || end - start >= numCols) return table;
+
+  const positions = getColumnPositions(table);
+  const formats = getColumnFormats(table);
+  const rows = getPaddedRows(table).map((row) => splice(row, start, end - start, []));
+  return rebuild(table, rows, getHeaderRowCount(table), {
+    columnPositions: positions && splice(positions, start, end - start, []),
+    columnFormats: formats && splice(formats, start, end - start, []),
+    cellSources: getPaddedSources(table)?.map((row) => splice(row, start, end - start, [])),
+  });
+}
+
+/**
+ * Join column `col` with the column to its right, separating non-empty values with a space.
+ * The joined column keeps the left column's format.
+ */
+export function mergeColumns(table: ExtractedTable, col: number): ExtractedTable {
+  if (col < 0 || col + 1 >= getColumnCount(table)) return table;
+
+  const rows = getPaddedRows(table).map((row) => {
+    const merged = [row[col], row[col + 1]].map((value) => value.trim()).filter(Boolean).join(' ');
+    return [...row.slice(0, col), merged, ...row.slice(col + 2)];
+  });
+  const positions = getColumnPositions(table);
+  const formats = getColumnFormats(table);
+  return rebuild(table, rows, getHeaderRowCount(table), {
+    columnPositions: positions && splice(positions, col + 1, 1, []),
+    columnFormats: formats && splice(formats, col + 1, 1, []),
+    cellSources: getPaddedSources(table)?.map((row) => splice(row, col, 2, [[...row[col], ...row[col + 1]]])),
+  });
+}
+
+/**
+ * Split column `col` into as many columns as the most parts any of its cells has
+ * when cut at `delimiter`. A delimiter of a single space also splits on runs of spaces.
+ */
+export function splitColumn(table: ExtractedTable, col: number, delimiter: string): ExtractedTable {
+  if (!delimiter || col < 0 || col >= getColumnCount(table)) return table;
+
+  const splitValue = (value: string) =>
+    (delimiter === ' ' ? value.trim().split(/\s+/) : value.split(delimiter)).map((part) => part.trim());
+  const parts = getPaddedRows(table).map((row) => splitValue(row[col]));
+  const width = Math.max(...parts.map((cellParts) => cellParts.length));
+  if (width <= 1) return table;
+
+  const rows = getPaddedRows(table).map((row, rowIndex) => [
+    ...row.slice(0, col),
+    ...Array.from({ length: width }, (_, i) => parts[rowIndex][i] ?? ''),
+    ...row.slice(col + 1),
+  ]);
+  // The parts rarely share the original column's type, so their formats start over.
+  // Every part points back at the whole of the text it was cut from.
+  const positions = getColumnPositions(table);
+  const formats = getColumnFormats(table);
+  return rebuild(table, rows, getHeaderRowCount(table), {
+    columnPositions: positions && splice(positions, col, 1, new Array(width).fill(positions[col])),
+    columnFormats: formats && splice(formats, col, 1, new Array(width).fill(null)),
+    cellSources: getPaddedSources(table)?.map((row) => splice(row, col, 1, new Array(width).fill(row[col]))),
+  });
+}
+
+/**
+ * Set the hand-picked format of column `col`. Null, or a format with nothing set,
+ * goes back to the detected type.
+ */
+export function setColumnFormat(table: ExtractedTable, col: number, format: ColumnFormat | null): ExtractedTable {
+  const numCols = getColumnCount(table);
+  if (col < 0 || col >= numCols) return table;
+
+  const hasFields = !!format && Object.values(format).some((value) => value !== undefined);
+  const existing = getColumnFormats(table) ?? [];
+  const formats = Array.from({ length: numCols }, (_, i) => (i === col ? (hasFields ? format : null) : existing[i] ?? null));
+  return rebuild(table, getPaddedRows(table), getHeaderRowCount(table), { columnFormats: formats });
+}
+
+/**
+ * Make the first `count` rows the header (0 removes the header)
+ */
+export function setHeaderRowCount(table: ExtractedTable, count: number): ExtractedTable {
+  const headerRowCount = Math.min(Math.max(count, 0), table.rows.length);
+  if (headerRowCount === getHeaderRowCount(table)) return table;
+  return rebuild(table, getPaddedRows(table), headerRowCount);
+}
+
+/**
+ * Move letterhead lines from `fromIndex` to the end into the table as its top rows.
+ * Promoted lines usually turn out to be column headings, so they join the header.
+ */
+export function promoteLetterhead(table: ExtractedTable, fromIndex: number): ExtractedTable {
+  const letterhead = table.letterhead ?? [];
+  if (fromIndex < 0 || fromIndex >= letterhead.length) return table;
+
+  const numCols = Math.max(1, getColumnCount(table));
+  const promoted = letterhead
+    .slice(fromIndex)
+    .map((line) => Array.from({ length: numCols }, (_, col) => (col === 0 ? line : '')));
+  const remaining = letterhead.slice(0, fromIndex);
+  const sources = getPaddedSources(table);
+
+  return rebuild(
+    { ...table, letterhead: remaining.length > 0 ? remaining : undefined },
+    [...promoted, ...getPaddedRows(table)],
+    getHeaderRowCount(table) + promoted.length,
+    { cellSources: sources && [...promoted.map(() => emptySources(numCols)), ...sources] }
+  );
+}
+
+/**
+ * Move table rows 0..throughRow into the letterhead, each joined into one line.
+ * At least one table row is always kept.
+ */
+export function demoteRows(table: ExtractedTable, throughRow: number): ExtractedTable {
+  const count = throughRow + 1;
+  if (throughRow < 0 || count >= table.rows.length) return table;
+
+  const demoted = table.rows
+    .slice(0, count)
+    .map((row) => row.map((value) => value.trim()).filter(Boolean).join(' '))
+    .filter(Boolean);
+
+  const letterhead = [...(table.letterhead ?? []), ...demoted];
+
+  return rebuild(
+    { ...table, letterhead: letterhead.length > 0 ? letterhead : undefined },
+    getPaddedRows(table).slice(count),
+    Math.max(0, getHeaderRowCount(table) - count),
+    { cellSources: table.cellSources?.slice(count) }
+  );
+}
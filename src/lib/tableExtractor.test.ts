@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { extractTables } from './tableExtractor';
+import type { TextItem } from './types';
+
+function item(str: string, x: number, y: number): TextItem {
+  return { str, x, y, width: str.length * 5, height: 10, page: 1 };
+}
+
+// A three-column statement: date, description and amount
+const statement = [
+  item('Date', 50, 100),
+  item('Description', 150, 100),
+  item('Amount', 350, 100),
+  item('01/03/2026', 50, 120),
+  item('Office supplies for', 150, 120),
+  item('45.00', 350, 120),
+  item('the new branch', 150, 134),
+  item('02/03/2026', 50, 154),
+  item('Rent', 150, 154),
+  item('900.00', 350, 154),
+];
+
+describe('extractTables', () => {
+  it('folds a wrapped cell into the row above it', () => {
+    const [table] = extractTables(statement);
+    expect(table.rows).toEqual([
+      ['Date', 'Description', 'Amount'],
+      ['01/03/2026', 'Office supplies for the new branch', '45.00'],
+      ['02/03/2026', 'Rent', '900.00'],
+    ]);
+  });
+
+  it('leaves an indented note under the table out of the last row', () => {
+    const tables = extractTables([...statement, item('Balance brought forward', 70, 168)]);
+    const cells = tables.flatMap((table) => table.rows.flat());
+    expect(tables[0].rows).toHaveLength(3);
+    expect(cells.some((cell) => cell.includes('Balance brought forward'))).toBe(false);
+  });
+});
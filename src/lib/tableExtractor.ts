@@ -1,9 +1,34 @@
-import type { TextItem, ExtractedTable } from './types';
+import type {
+  TextItem,
+  ExtractedTable,
+  RulingLine,
+  PageRegion,
+  ColumnType,
+  ColumnFormat,
+  TableLayout,
+  SourceBox,
+} from './types';
+import { detectLatticeGrids, assignItemsToGrid, isItemInGrid, type LatticeGrid } from './lattice';
+import { couldBeWrappedLine, mergeWrappedRowsWithSources } from './wrappedRows';
+import { textItemBox } from './sourceBoxes';
+import {
+  detectCurrencySymbol,
+  parseNumber,
+  resolveDecimalSeparator,
+  type DecimalSeparator,
+  type NumberLocale,
+} from './numberFormat';
+
+export { detectCurrencySymbol };
 
 const ROW_TOLERANCE = 5; // Y-coordinate tolerance for grouping items into rows
 const MIN_TABLE_ROWS = 2; // Minimum rows to be considered a table
 const MIN_TABLE_COLS = 2; // Minimum columns to be considered a table
 const MIN_COL_GAP = 15; // Minimum gap between columns
+const CONTINUATION_POSITION_TOLERANCE = 15; // Max column drift (pt) between pages of the same table
+const MAX_HEADER_ROWS = 3; // Grouped headers rarely nest deeper than this
+const REGION_PADDING = 3; // Space (pt) left below the last baseline when boxing a detected table
+const COLUMN_START_TOLERANCE = 10; // Text this far left of a detected column start still belongs to it
 
 interface Row {
   y: number;
@@ -18,32 +43,76 @@ interface TableRegion {
   letterheadRows: Row[]; // Rows before the table that contain letterhead/header content
 }
 
+// 'lattice' tables come from drawn cell borders, 'text-gap' tables from text alignment,
+// 'manual' tables from regions drawn in the region editor
+type ExtractionMethod = 'lattice' | 'text-gap' | 'manual';
+
+type RegionBounds = Pick<PageRegion, 'left' | 'top' | 'right' | 'bottom'>;
+
+interface TableCandidate {
+  top: number;
+  rows: string[][];
+  cellSources: SourceBox[][][]; // Boxes of the text in each cell, parallel to rows
+  columnPositions: number[]; // Left x-position of each column in rows
+  letterheadRows: Row[];
+  extractionMethod: ExtractionMethod;
+  bounds: RegionBounds; // Area of the page the table covers
+}
+
 interface TableMetadata {
   hasDetectedHeader: boolean;
-  columnTypes: ('text' | 'number' | 'currency' | 'date' | 'mixed')[];
+  headerRowCount: number; // Number of leading rows that make up the header (0 when none)
+  extractionMethod: ExtractionMethod;
+  columnTypes: ColumnType[];
   columnCurrencySymbols: (string | null)[];
+  decimalSeparator: DecimalSeparator; // Separator the table's numbers were parsed with
+  columnPositions?: number[]; // Left x-position of each column on the page
+  columnFormats?: (ColumnFormat | null)[]; // Formats set by hand, one per column (null keeps the detected type)
   totalRows: number;
   totalCols: number;
 }
 
+// A header cell anchored at (row, col) in the table's header rows.
+// Grouped headers span several columns; a leaf label with nothing above it
+// spans down through the group rows.
+export interface HeaderCell {
+  text: string;
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
+export interface HeaderStructure {
+  rowCount: number;
+  cells: HeaderCell[];
+}
+
 export interface EnhancedExtractedTable extends ExtractedTable {
   metadata: TableMetadata;
   headerRow: string[] | null;
+  headerStructure: HeaderStructure | null;
+}
+
+export interface TableExtractionOptions {
+  // Number convention for parsing amounts ('auto' detects it per table)
+  numberLocale?: NumberLocale;
+  // Template layout for tables read from regions (ignored by extractTables)
+  layout?: TableLayout;
 }
 
 export function extractTables(
   textItems: TextItem[],
-  onProgress?: (progress: number, step: string) => void
+  onProgress?: (progress: number, step: string) => void,
+  rulingLines: RulingLine[] = [],
+  options: TableExtractionOptions = {}
 ): EnhancedExtractedTable[] {
+  const numberLocale = options.numberLocale ?? 'auto';
+
   onProgress?.(55, 'Analyzing document structure...');
 
-  // Group items by page
-  const pageGroups = new Map<number, TextItem[]>();
-  textItems.forEach((item) => {
-    const items = pageGroups.get(item.page) || [];
-    items.push(item);
-    pageGroups.set(item.page, items);
-  });
+  const pageGroups = groupByPage(textItems);
+  const pageRulings = groupByPage(rulingLines);
 
   const tables: EnhancedExtractedTable[] = [];
   let tableIndex = 0;
@@ -53,68 +122,515 @@ export function extractTables(
     const progressPercent = 55 + Math.floor((pageNum / totalPages) * 20);
     onProgress?.(progressPercent, `Detecting tables on page ${pageNum}...`);
 
-    // Group items into rows by y-coordinate
-    const rows = groupIntoRows(items);
+    const candidates = findTableCandidates(items, pageRulings.get(pageNum) || []);
+    tables.push(...buildTables(candidates, pageNum, numberLocale, () => ++tableIndex));
+  });
 
-    // Detect table regions (rows that form a tabular structure)
-    const tableRegions = detectTableRegions(rows);
+  // If no tables found, try a more aggressive extraction
+  if (tables.length === 0) {
+    onProgress?.(70, 'No structured tables found, trying alternative extraction...');
+    const alternativeTables = extractTablesAlternative(textItems, numberLocale);
+    tables.push(...alternativeTables);
+    onProgress?.(75, `Found ${tables.length} table(s)`);
+    return tables;
+  }
 
-    tableRegions.forEach((region) => {
-      // Detect column boundaries for this specific region
-      const columnBoundaries = detectColumnBoundariesForRegion(region.rows);
+  // Join tables that continue from one page onto the next
+  onProgress?.(74, 'Joining tables that span multiple pages...');
+  const stitchedTables = stitchContinuedTables(tables);
 
-      if (columnBoundaries.length >= MIN_TABLE_COLS) {
-        // Build table grid
-        const tableRows = region.rows.map((row) => assignItemsToColumns(row.items, columnBoundaries));
+  onProgress?.(75, `Found ${stitchedTables.length} table(s)`);
+  return stitchedTables;
+}
 
-        // Filter out mostly-empty rows
-        const filteredRows = tableRows.filter(
-          (row) => row.filter((cell) => cell.trim()).length >= Math.max(1, MIN_TABLE_COLS - 1)
-        );
+/**
+ * The table areas auto-detection finds on each page, as editable boxes for the region editor
+ */
+export function detectPageRegions(textItems: TextItem[], rulingLines: RulingLine[] = []): PageRegion[] {
+  const pageRulings = groupByPage(rulingLines);
+  const regions: PageRegion[] = [];
 
-        if (filteredRows.length >= MIN_TABLE_ROWS) {
-          tableIndex++;
-
-          // Drop completely empty columns
-          const cleanedRows = dropEmptyColumns(filteredRows);
-
-          if (cleanedRows.length > 0 && cleanedRows[0].length >= MIN_TABLE_COLS) {
-            // Detect if first row is a header
-            const headerInfo = detectHeader(cleanedRows);
-            const metadata = analyzeTableMetadata(cleanedRows, headerInfo.isHeader);
-
-            // Extract letterhead content (combine each row's items into a single string)
-            const letterhead = region.letterheadRows.map((row) => {
-              // Sort items by x position and concatenate
-              const sortedItems = [...row.items].sort((a, b) => a.x - b.x);
-              return sortedItems.map((item) => item.str).join(' ').trim();
-            }).filter((text) => text.length > 0); // Remove empty lines
-
-            tables.push({
-              rows: cleanedRows,
-              source: `Page ${pageNum}, Table ${tableIndex}`,
-              pageNumber: pageNum,
-              metadata,
-              headerRow: headerInfo.isHeader ? cleanedRows[0] : null,
-              letterhead: letterhead.length > 0 ? letterhead : undefined,
-            });
-          }
-        }
-      }
+  groupByPage(textItems).forEach((items, pageNum) => {
+    findTableCandidates(items, pageRulings.get(pageNum) || []).forEach((candidate) => {
+      regions.push({ page: pageNum, ...candidate.bounds, columnSeparators: candidate.columnPositions.slice(1) });
     });
   });
 
-  // If no tables found, try a more aggressive extraction
-  if (tables.length === 0) {
-    onProgress?.(70, 'No structured tables found, trying alternative extraction...');
-    const alternativeTables = extractTablesAlternative(textItems);
-    tables.push(...alternativeTables);
-  }
+  return regions;
+}
+
+/**
+ * Extract tables from regions drawn by hand, skipping region detection and scoring.
+ * Text inside each box is split into columns at its separators (or at auto-detected
+ * column starts when it has none) using the same logic as detected tables.
+ */
+export function extractTablesFromRegions(
+  textItems: TextItem[],
+  regions: PageRegion[],
+  onProgress?: (progress: number, step: string) => void,
+  options: TableExtractionOptions = {}
+): EnhancedExtractedTable[] {
+  const { numberLocale = 'auto', layout } = options;
+  const pageGroups = groupByPage(textItems);
+
+  const tables: EnhancedExtractedTable[] = [];
+  let tableIndex = 0;
+  const pages = [...new Set(regions.map((region) => region.page))].sort((a, b) => a - b);
+
+  pages.forEach((pageNum, index) => {
+    onProgress?.(55 + Math.floor(((index + 1) / pages.length) * 20), `Reading selected tables on page ${pageNum}...`);
+
+    const items = pageGroups.get(pageNum) || [];
+    const candidates = regions
+      .filter((region) => region.page === pageNum)
+      .sort((a, b) => a.top - b.top)
+      .map((region, i, pageRegions) => createManualCandidate(items, region, i > 0 ? pageRegions[i - 1].bottom : -Infinity));
+
+    const pageTables = buildTables(candidates, pageNum, numberLocale, () => ++tableIndex);
+    // Applied per page so each page's own header lines are skipped before tables are joined
+    tables.push(
+      ...(layout ? pageTables.flatMap((table) => applyTableLayout(table, layout, numberLocale) ?? []) : pageTables)
+    );
+  });
 
   onProgress?.(75, `Found ${tables.length} table(s)`);
+  return stitchContinuedTables(tables);
+}
+
+/**
+ * Reshape a table read from a template region: drop the PDF's own header lines,
+ * put the template's column names on top and pin the column types it sets.
+ * Returns null when nothing is left after skipping.
+ */
+function applyTableLayout(
+  table: EnhancedExtractedTable,
+  layout: TableLayout,
+  numberLocale: NumberLocale
+): EnhancedExtractedTable | null {
+  const dataRows = table.rows.slice(layout.skipRows);
+  if (dataRows.length === 0) return null;
+
+  const columnNames = layout.columnNames.some((name) => name.trim()) ? layout.columnNames : null;
+  const numCols = Math.max(columnNames?.length ?? 0, ...dataRows.map((row) => row.length));
+  const padRow = (row: string[]) => Array.from({ length: numCols }, (_, col) => row[col] || '');
+
+  const rows = columnNames ? [padRow(columnNames), ...dataRows.map(padRow)] : dataRows.map(padRow);
+  const headerRowCount = columnNames ? 1 : 0;
+
+  // The template's column names aren't on the page
+  const dataSources = (table.cellSources ?? []).slice(layout.skipRows);
+  const padSources = (row: SourceBox[][] = []) => Array.from({ length: numCols }, (_, col) => row[col] ?? []);
+  const cellSources = [
+    ...(columnNames ? [padSources()] : []),
+    ...dataRows.map((_, index) => padSources(dataSources[index])),
+  ];
+
+  const metadata = analyzeTableMetadata(rows, headerRowCount, table.metadata.extractionMethod, numberLocale);
+  metadata.columnPositions = table.metadata.columnPositions;
+  applyColumnFormats(
+    metadata,
+    rows,
+    headerRowCount,
+    layout.columnTypes.map((type) => (type ? { type } : null))
+  );
+
+  return {
+    ...table,
+    rows,
+    metadata,
+    headerRow: columnNames ? rows[0] : null,
+    headerStructure: buildHeaderStructure(rows, headerRowCount, metadata.columnTypes),
+    cellSources,
+  };
+}
+
+/**
+ * Pin column types, currencies and formats chosen by hand over the detected ones.
+ * The formats are kept on the metadata so they survive later edits.
+ */
+function applyColumnFormats(
+  metadata: TableMetadata,
+  rows: string[][],
+  headerRowCount: number,
+  columnFormats: (ColumnFormat | null)[] | undefined
+): void {
+  if (!columnFormats?.some(Boolean)) return;
+
+  const dataRows = rows.slice(headerRowCount);
+  metadata.columnFormats = Array.from({ length: metadata.totalCols }, (_, col) => columnFormats[col] ?? null);
+  metadata.columnFormats.forEach((format, col) => {
+    if (!format?.type) return;
+    metadata.columnTypes[col] = format.type;
+    metadata.columnCurrencySymbols[col] =
+      format.type === 'currency'
+        ? format.currencySymbol ?? detectCurrencySymbol(dataRows.map((row) => row[col] || ''))
+        : null;
+  });
+}
+
+/**
+ * Recompute a table's metadata and header structure after its rows were edited by hand.
+ * The number convention, extraction method and column formats are kept; edits that add
+ * or remove columns pass the shifted column positions and formats.
+ */
+export function reanalyzeTable(
+  table: ExtractedTable,
+  headerRowCount: number,
+  columnPositions?: number[],
+  columnFormats?: (ColumnFormat | null)[]
+): EnhancedExtractedTable {
+  const previous = (table as Partial<EnhancedExtractedTable>).metadata;
+  const numberLocale: NumberLocale = previous ? (previous.decimalSeparator === ',' ? 'eu' : 'en') : 'auto';
+  const headerCount = Math.min(Math.max(headerRowCount, 0), table.rows.length);
+
+  const metadata = analyzeTableMetadata(
+    table.rows,
+    headerCount,
+    previous?.extractionMethod ?? 'text-gap',
+    numberLocale
+  );
+  metadata.columnPositions = columnPositions ?? previous?.columnPositions;
+  applyColumnFormats(metadata, table.rows, headerCount, columnFormats ?? previous?.columnFormats);
+
+  return {
+    ...table,
+    metadata,
+    headerRow: headerCount > 0 ? table.rows[0] : null,
+    headerStructure: buildHeaderStructure(table.rows, headerCount, metadata.columnTypes),
+  };
+}
+
+function groupByPage<T extends { page: number }>(values: T[]): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  values.forEach((value) => {
+    const group = groups.get(value.page) || [];
+    group.push(value);
+    groups.set(value.page, group);
+  });
+  return groups;
+}
+
+/**
+ * Find the tables on one page, from drawn cell grids and from text alignment
+ */
+function findTableCandidates(items: TextItem[], rulings: RulingLine[]): TableCandidate[] {
+  // Group items into rows by y-coordinate
+  const rows = groupIntoRows(items);
+
+  // Detect table regions (rows that form a tabular structure)
+  const tableRegions = detectTableRegions(rows);
+
+  // Cell grids drawn with ruling lines (lattice tables)
+  const grids = detectLatticeGrids(rulings);
+  const usedGrids = new Set<LatticeGrid>();
+
+  const candidates: TableCandidate[] = [];
+
+  tableRegions.forEach((region) => {
+    // Prefer the drawn cell grid when the region sits on one
+    const grid = grids.find((g) => !usedGrids.has(g) && regionOverlapsGrid(region, g));
+    if (grid) {
+      const lattice = assignItemsToGrid(items, grid);
+      if (lattice.rows.length >= MIN_TABLE_ROWS) {
+        usedGrids.add(grid);
+        candidates.push({
+          top: Math.min(grid.top, region.startY),
+          rows: lattice.rows,
+          cellSources: lattice.sources,
+          columnPositions: grid.colEdges.slice(0, -1),
+          letterheadRows: region.letterheadRows,
+          extractionMethod: 'lattice',
+          bounds: getGridBounds(grid),
+        });
+        return;
+      }
+    }
+
+    // Detect column boundaries for this specific region
+    const columnBoundaries = detectColumnBoundariesForRegion(region.rows);
+
+    if (columnBoundaries.length >= MIN_TABLE_COLS) {
+      // Fold wrapped description lines back into their row
+      const merged = mergeWrappedRowsWithSources(
+        region.rows.map((row) => ({
+          y: row.y,
+          lineHeight: row.avgHeight,
+          ...assignItemsToColumns(row.items, columnBoundaries),
+        }))
+      );
+      candidates.push({
+        top: region.startY,
+        rows: merged.rows,
+        cellSources: merged.sources,
+        columnPositions: columnBoundaries,
+        letterheadRows: region.letterheadRows,
+        extractionMethod: 'text-gap',
+        bounds: getRowBounds(region.rows),
+      });
+    }
+  });
+
+  // Ruled tables the text heuristics missed (e.g. sparse tables with few items per row)
+  grids
+    .filter((grid) => !usedGrids.has(grid))
+    .forEach((grid) => {
+      const lattice = assignItemsToGrid(items, grid);
+      candidates.push({
+        top: grid.top,
+        rows: lattice.rows,
+        cellSources: lattice.sources,
+        columnPositions: grid.colEdges.slice(0, -1),
+        letterheadRows: [],
+        extractionMethod: 'lattice',
+        bounds: getGridBounds(grid),
+      });
+    });
+
+  candidates.sort((a, b) => a.top - b.top);
+  return candidates;
+}
+
+/**
+ * Turn a hand-drawn region into a candidate, splitting its text at the user's separators.
+ * Lines between the previous region (or the top of the page) and this one become its
+ * letterhead, as they do for detected tables.
+ */
+function createManualCandidate(items: TextItem[], region: PageRegion, previousBottom: number): TableCandidate {
+  const bounds = { left: region.left, top: region.top, right: region.right, bottom: region.bottom };
+  // Same containment test as ruled cells: the item's centre must sit inside the box
+  const regionItems = items.filter((item) => isItemInGrid(item, bounds));
+  const rows = groupIntoRows(regionItems);
+
+  const separators = region.columnSeparators
+    .filter((x) => x > region.left && x < region.right)
+    .sort((a, b) => a - b);
+  const columnBoundaries = separators.length > 0 ? [region.left, ...separators] : detectColumnBoundariesForRegion(rows);
+
+  const merged = mergeWrappedRowsWithSources(
+    rows.map((row) => ({
+      y: row.y,
+      lineHeight: row.avgHeight,
+      // Columns the user drew split exactly where they were drawn
+      ...assignItemsToColumns(row.items, columnBoundaries, 0),
+    }))
+  );
+
+  return {
+    top: region.top,
+    rows: merged.rows,
+    cellSources: merged.sources,
+    columnPositions: columnBoundaries,
+    letterheadRows: groupIntoRows(items.filter((item) => item.y > previousBottom && item.y <= region.top)),
+    extractionMethod: 'manual',
+    bounds,
+  };
+}
+
+function getGridBounds(grid: LatticeGrid): RegionBounds {
+  return { left: grid.left, top: grid.top, right: grid.right, bottom: grid.bottom };
+}
+
+// Row y-values are baselines, so the box reaches one text height above the first row
+function getRowBounds(rows: Row[]): RegionBounds {
+  const items = rows.flatMap((row) => row.items);
+  return {
+    left: Math.min(...items.map((item) => item.x)),
+    top: Math.min(...rows.map((row) => row.y - row.avgHeight)),
+    right: Math.max(...items.map((item) => item.x + item.width)),
+    bottom: Math.max(...rows.map((row) => row.y)) + REGION_PADDING,
+  };
+}
+
+/**
+ * Clean up candidates and turn them into tables with header and column metadata.
+ * Hand-drawn regions are kept even when they hold a single row or column.
+ */
+function buildTables(
+  candidates: TableCandidate[],
+  pageNum: number,
+  numberLocale: NumberLocale,
+  nextTableIndex: () => number
+): EnhancedExtractedTable[] {
+  const tables: EnhancedExtractedTable[] = [];
+
+  candidates.forEach((candidate) => {
+    const isManual = candidate.extractionMethod === 'manual';
+    const minRows = isManual ? 1 : MIN_TABLE_ROWS;
+    const minCols = isManual ? 1 : MIN_TABLE_COLS;
+
+    // Filter out mostly-empty rows
+    const keptRows = candidate.rows
+      .map((_, index) => index)
+      .filter((index) => candidate.rows[index].filter((cell) => cell.trim()).length >= Math.max(1, minCols - 1));
+    const filteredRows = keptRows.map((index) => candidate.rows[index]);
+
+    if (filteredRows.length >= minRows) {
+      const tableIndex = nextTableIndex();
+
+      // Drop completely empty columns - except in hand-drawn regions, where every marked
+      // column is kept so a template's column settings line up even when one is blank
+      const keptColumns = isManual
+        ? candidate.columnPositions.map((_, col) => col)
+        : getNonEmptyColumns(filteredRows);
+      const cleanedRows = filteredRows.map((row) => keptColumns.map((col) => row[col] || ''));
+      const cellSources = keptRows.map((index) => keptColumns.map((col) => candidate.cellSources[index]?.[col] ?? []));
+
+      if (cleanedRows.length > 0 && cleanedRows[0].length >= minCols) {
+        // Detect the header rows (grouped headers can take up several)
+        const headerRowCount = detectHeaderRowCount(cleanedRows);
+        const metadata = analyzeTableMetadata(
+          cleanedRows,
+          headerRowCount,
+          candidate.extractionMethod,
+          numberLocale
+        );
+        metadata.columnPositions = keptColumns.map((col) => candidate.columnPositions[col]);
+
+        // Extract letterhead content (combine each row's items into a single string)
+        const letterhead = candidate.letterheadRows.map((row) => {
+          // Sort items by x position and concatenate
+          const sortedItems = [...row.items].sort((a, b) => a.x - b.x);
+          return sortedItems.map((item) => item.str).join(' ').trim();
+        }).filter((text) => text.length > 0); // Remove empty lines
+
+        tables.push({
+          rows: cleanedRows,
+          source: `Page ${pageNum}, Table ${tableIndex}`,
+          pageNumber: pageNum,
+          metadata,
+          headerRow: headerRowCount > 0 ? cleanedRows[0] : null,
+          headerStructure: buildHeaderStructure(cleanedRows, headerRowCount, metadata.columnTypes),
+          letterhead: letterhead.length > 0 ? letterhead : undefined,
+          cellSources,
+        });
+      }
+    }
+  });
+
   return tables;
 }
 
+/**
+ * Merge tables that continue across page breaks into one logical table.
+ * A table on page N+1 continues the last table on page N when it is the first
+ * table on its page, has the same column layout and column types, and either
+ * repeats the same header row or has no header of its own.
+ */
+function stitchContinuedTables(tables: EnhancedExtractedTable[]): EnhancedExtractedTable[] {
+  const stitched: EnhancedExtractedTable[] = [];
+
+  tables.forEach((table, index) => {
+    const previous = stitched[stitched.length - 1];
+    // Tables arrive in page order, so the previous table is the last one on its page
+    // whenever this table is the first on a new page
+    const isFirstOnPage = index > 0 && tables[index - 1].pageNumber !== table.pageNumber;
+
+    if (
+      previous &&
+      isFirstOnPage &&
+      table.pageNumber === tables[index - 1].pageNumber + 1 &&
+      isTableContinuation(previous, table)
+    ) {
+      stitched[stitched.length - 1] = mergeTables(previous, table);
+    } else {
+      stitched.push(table);
+    }
+  });
+
+  // Renumber sources now that some tables have been merged
+  return stitched.map((table, index) => {
+    const pages = table.pageNumbers || [table.pageNumber];
+    const pageLabel =
+      pages.length > 1 ? `Pages ${pages[0]}-${pages[pages.length - 1]}` : `Page ${table.pageNumber}`;
+    return { ...table, source: `${pageLabel}, Table ${index + 1}` };
+  });
+}
+
+function normalizeHeaderCell(cell: string): string {
+  return cell.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function rowsMatch(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((cell, i) => normalizeHeaderCell(cell) === normalizeHeaderCell(b[i]));
+}
+
+/**
+ * Count how many of the running table's header rows are repeated at the top of the next table
+ */
+function countRepeatedHeaderRows(previous: EnhancedExtractedTable, next: EnhancedExtractedTable): number {
+  const headerRowCount = previous.metadata.headerRowCount;
+  if (headerRowCount === 0 || next.rows.length <= headerRowCount) return 0;
+
+  for (let i = 0; i < headerRowCount; i++) {
+    if (!rowsMatch(previous.rows[i], next.rows[i])) return 0;
+  }
+  return headerRowCount;
+}
+
+function isTableContinuation(previous: EnhancedExtractedTable, next: EnhancedExtractedTable): boolean {
+  const prevMeta = previous.metadata;
+  const nextMeta = next.metadata;
+
+  if (prevMeta.totalCols !== nextMeta.totalCols) return false;
+
+  // A header that differs from the running table's header starts a new table
+  const repeatsHeader = countRepeatedHeaderRows(previous, next) > 0;
+  if (next.headerRow && !repeatsHeader) return false;
+
+  // Column boundaries should line up (same layout on every page)
+  if (prevMeta.columnPositions && nextMeta.columnPositions) {
+    const aligned = prevMeta.columnPositions.every(
+      (x, i) => Math.abs(x - nextMeta.columnPositions![i]) <= CONTINUATION_POSITION_TOLERANCE
+    );
+    if (!aligned) return false;
+  }
+
+  // Column types should agree; 'mixed' and 'text' columns are too vague to veto a match
+  const isVague = (type: string | undefined) => type === 'mixed' || type === 'text';
+  const comparable = prevMeta.columnTypes
+    .map((type, i) => ({ type, nextType: nextMeta.columnTypes[i] }))
+    .filter(({ type, nextType }) => !isVague(type) && !isVague(nextType));
+  const matchingCols = comparable.filter(({ type, nextType }) => type === nextType).length;
+
+  if (comparable.length > 0 && matchingCols < comparable.length * 0.75) return false;
+
+  return true;
+}
+
+function mergeTables(previous: EnhancedExtractedTable, next: EnhancedExtractedTable): EnhancedExtractedTable {
+  // Drop the repeated header rows from the continuation
+  const repeatedHeaderRows = countRepeatedHeaderRows(previous, next);
+  const continuationRows = next.rows.slice(repeatedHeaderRows);
+  const rows = [...previous.rows, ...continuationRows];
+
+  // Keep parsing numbers the way the first part of the table was parsed
+  const metadata = analyzeTableMetadata(
+    rows,
+    previous.metadata.headerRowCount,
+    previous.metadata.extractionMethod,
+    previous.metadata.decimalSeparator === ',' ? 'eu' : 'en'
+  );
+  metadata.columnPositions = previous.metadata.columnPositions;
+
+  return {
+    ...previous,
+    rows,
+    metadata,
+    pageNumbers: [...(previous.pageNumbers || [previous.pageNumber]), next.pageNumber],
+    cellSources: previous.cellSources &&
+      next.cellSources && [...previous.cellSources, ...next.cellSources.slice(repeatedHeaderRows)],
+  };
+}
+
+/**
+ * Check whether a text-detected region sits on (or inside) a ruled grid
+ */
+function regionOverlapsGrid(region: TableRegion, grid: LatticeGrid): boolean {
+  // Row y-values are baselines, so allow one row height of slack above the region
+  const regionTop = region.startY - (region.rows[0]?.avgHeight || 0);
+  return regionTop <= grid.bottom && region.endY >= grid.top;
+}
+
 /**
  * Detect regions in the document that look like tables
  * A table region has consistent column alignment across multiple rows
@@ -145,6 +661,10 @@ function detectTableRegions(rows: Row[]): TableRegion[] {
         currentRegion.endY = row.y;
         currentRegion.rows.push(row);
       }
+    } else if (currentRegion && isWrappedRow(row, currentRegion)) {
+      // A wrapped cell's second line - keep it with the table so it can be merged later
+      currentRegion.endY = row.y;
+      currentRegion.rows.push(row);
     } else {
       // This row doesn't look like part of a table
       if (currentRegion && currentRegion.rows.length >= MIN_TABLE_ROWS) {
@@ -169,6 +689,21 @@ function detectTableRegions(rows: Row[]): TableRegion[] {
   return regions;
 }
 
+/**
+ * Check whether a row that scored low on its own continues a wrapped cell of the region's last row
+ */
+function isWrappedRow(row: Row, region: TableRegion): boolean {
+  const previous = region.rows[region.rows.length - 1];
+  const tableRight = Math.max(...region.rows.flatMap((r) => r.items.map((item) => item.x + item.width)));
+
+  return couldBeWrappedLine(
+    { y: row.y, minX: Math.min(...row.items.map((item) => item.x)), lineHeight: row.avgHeight },
+    { y: previous.y, lineHeight: previous.avgHeight },
+    detectColumnBoundariesForRegion(region.rows),
+    tableRight
+  );
+}
+
 /**
  * Score how likely a row is part of a table (0 to 1)
  */
@@ -328,10 +863,16 @@ function clusterXPositions(positions: number[]): number[] {
 }
 
 /**
- * Assign items to columns based on boundaries
+ * Assign items to columns based on boundaries, keeping the boxes each cell's text came from.
+ * An item starting up to tolerance points left of a boundary still goes to that column.
  */
-function assignItemsToColumns(items: TextItem[], boundaries: number[]): string[] {
+function assignItemsToColumns(
+  items: TextItem[],
+  boundaries: number[],
+  tolerance = COLUMN_START_TOLERANCE
+): { cells: string[]; sources: SourceBox[][] } {
   const cells: string[] = new Array(boundaries.length).fill('');
+  const sources: SourceBox[][] = boundaries.map(() => []);
 
   // Sort items by x position
   const sortedItems = [...items].sort((a, b) => a.x - b.x);
@@ -347,7 +888,7 @@ function assignItemsToColumns(items: TextItem[], boundaries: number[]): string[]
       const colEnd = boundaries[i + 1] || Infinity;
 
       // Check if item starts within this column's range (with some tolerance)
-      if (item.x >= colStart - 10 && item.x < colEnd - 10) {
+      if (item.x >= colStart - tolerance && item.x < colEnd - tolerance) {
         colIndex = i;
         break;
       }
@@ -372,17 +913,18 @@ function assignItemsToColumns(items: TextItem[], boundaries: number[]): string[]
       } else {
         cells[colIndex] = item.str;
       }
+      sources[colIndex].push(textItemBox(item));
     }
   });
 
-  return cells.map((cell) => cell.trim());
+  return { cells: cells.map((cell) => cell.trim()), sources };
 }
 
 /**
- * Remove columns that are completely empty across all rows
+ * Get the indices of columns that have at least one non-empty value
  */
-function dropEmptyColumns(rows: string[][]): string[][] {
-  if (rows.length === 0) return rows;
+function getNonEmptyColumns(rows: string[][]): number[] {
+  if (rows.length === 0) return [];
 
   const numCols = Math.max(...rows.map((r) => r.length));
   const columnsToKeep: number[] = [];
@@ -395,8 +937,7 @@ function dropEmptyColumns(rows: string[][]): string[][] {
     }
   }
 
-  // Return rows with only non-empty columns
-  return rows.map((row) => columnsToKeep.map((colIndex) => row[colIndex] || ''));
+  return columnsToKeep;
 }
 
 function groupIntoRows(items: TextItem[]): Row[] {
@@ -480,6 +1021,128 @@ function detectHeader(rows: string[][]): { isHeader: boolean; confidence: number
   };
 }
 
+/**
+ * Count the header rows at the top of a table.
+ * Row 0 must pass the single-row header check. Each following row joins the
+ * header when the row above it is sparse (a group row such as "Q1 ... Q2"),
+ * it has more labels than that row, and it reads like labels rather than data.
+ */
+function detectHeaderRowCount(rows: string[][]): number {
+  if (!detectHeader(rows).isHeader) return 0;
+
+  let count = 1;
+  while (count < MAX_HEADER_ROWS && count < rows.length - 1) {
+    const candidate = rows[count];
+    const above = rows[count - 1];
+    const rest = rows.slice(count + 1);
+
+    const filledAbove = above.filter((c) => c.trim()).length;
+    const filledCandidate = candidate.filter((c) => c.trim());
+    const aboveIsGroupRow = filledAbove < above.length;
+
+    const candidateNumericRatio = getNumericRatio(candidate);
+    const avgRestNumericRatio = rest.reduce((sum, row) => sum + getNumericRatio(row), 0) / rest.length;
+    const headerLikeCount = filledCandidate.filter((cell) => isHeaderLike(cell)).length;
+
+    const isHeaderRow =
+      aboveIsGroupRow &&
+      filledCandidate.length > filledAbove &&
+      candidateNumericRatio < 0.3 &&
+      avgRestNumericRatio > 0.3 &&
+      headerLikeCount > filledCandidate.length * 0.5;
+
+    if (!isHeaderRow) break;
+    count++;
+  }
+
+  return count;
+}
+
+/**
+ * Infer header cell spans from the header rows.
+ * A label in a sparse upper row spans the empty cells around it that sit over
+ * labelled sub-columns of the same data type. Labels are treated as left-aligned
+ * (spanning rightwards) unless the first label in the row has same-type empty
+ * columns to its left, in which case labels are centred over their groups and
+ * neighbouring groups are split halfway. A cell left uncovered in an upper row
+ * is folded into the label below it as a vertical span.
+ */
+function buildHeaderStructure(
+  rows: string[][],
+  headerRowCount: number,
+  columnTypes: TableMetadata['columnTypes']
+): HeaderStructure | null {
+  if (headerRowCount === 0) return null;
+
+  const numCols = Math.max(...rows.slice(0, headerRowCount).map((r) => r.length));
+  const cells: HeaderCell[] = [];
+  // Which header cell owns each grid position
+  const owner: (HeaderCell | null)[][] = Array.from({ length: headerRowCount }, () =>
+    new Array(numCols).fill(null)
+  );
+
+  for (let row = 0; row < headerRowCount; row++) {
+    const labels = rows[row];
+    const below = rows[row + 1] || [];
+    const isLastHeaderRow = row === headerRowCount - 1;
+    const labelCols = labels
+      .map((text, col) => (text.trim() ? col : -1))
+      .filter((col) => col >= 0 && !owner[row][col]);
+
+    // Can this empty upper-row column be covered by a group label in column `col`?
+    const canSpan = (fromCol: number, col: number) =>
+      !isLastHeaderRow &&
+      col >= 0 &&
+      col < numCols &&
+      !owner[row][col] &&
+      !(labels[col] || '').trim() &&
+      !!(below[col] || '').trim() &&
+      columnTypes[col] === columnTypes[fromCol];
+
+    const firstLabel = labelCols[0];
+    const isCentred = firstLabel !== undefined && canSpan(firstLabel, firstLabel - 1);
+
+    labelCols.forEach((col, i) => {
+      const prevLabel = labelCols[i - 1];
+      const nextLabel = labelCols[i + 1];
+      // In centred mode neighbouring groups share the columns between them
+      const leftLimit = isCentred && prevLabel !== undefined ? Math.floor((prevLabel + col) / 2) + 1 : 0;
+      const rightLimit =
+        nextLabel === undefined ? numCols - 1 : isCentred ? Math.floor((col + nextLabel - 1) / 2) : nextLabel - 1;
+
+      let start = col;
+      let end = col;
+      if (isCentred) {
+        while (start - 1 >= leftLimit && canSpan(col, start - 1)) start--;
+      }
+      while (end + 1 <= rightLimit && canSpan(col, end + 1)) end++;
+
+      const cell: HeaderCell = { text: labels[col].trim(), row, col: start, rowSpan: 1, colSpan: end - start + 1 };
+      cells.push(cell);
+      for (let c = start; c <= end; c++) owner[row][c] = cell;
+    });
+  }
+
+  // Fold uncovered upper cells into the first label beneath them
+  for (let col = 0; col < numCols; col++) {
+    let emptyAbove = 0;
+    for (let row = 0; row < headerRowCount; row++) {
+      const cell = owner[row][col];
+      if (!cell) {
+        emptyAbove++;
+        continue;
+      }
+      if (emptyAbove > 0 && cell.col === col && cell.colSpan === 1 && cell.row === row) {
+        cell.row -= emptyAbove;
+        cell.rowSpan += emptyAbove;
+      }
+      emptyAbove = 0;
+    }
+  }
+
+  return { rowCount: headerRowCount, cells: cells.sort((a, b) => a.row - b.row || a.col - b.col) };
+}
+
 function getNumericRatio(row: string[]): number {
   const nonEmptyCells = row.filter((c) => c.trim());
   if (nonEmptyCells.length === 0) return 0;
@@ -510,34 +1173,10 @@ function isHeaderLike(text: string): boolean {
 }
 
 // Detect the currency symbol used in values (if any)
-export function detectCurrencySymbol(values: string[]): string | null {
-  const currencyPatterns = [
-    { symbol: '₦', pattern: /₦/ },
-    { symbol: 'NGN', pattern: /NGN/i },
-    { symbol: '=N=', pattern: /=N=/ },
-    { symbol: '$', pattern: /\$/ },
-    { symbol: 'USD', pattern: /USD/i },
-    { symbol: '€', pattern: /€/ },
-    { symbol: 'EUR', pattern: /EUR/i },
-    { symbol: '£', pattern: /£/ },
-    { symbol: 'GBP', pattern: /GBP/i },
-  ];
-
-  for (const { symbol, pattern } of currencyPatterns) {
-    const matchCount = values.filter((v) => pattern.test(v)).length;
-    if (matchCount > 0) {
-      // Normalize to standard symbols
-      if (symbol === 'NGN' || symbol === '=N=') return '₦';
-      if (symbol === 'USD') return '$';
-      if (symbol === 'EUR') return '€';
-      if (symbol === 'GBP') return '£';
-      return symbol;
-    }
-  }
-  return null;
-}
-
-function detectColumnType(values: string[]): 'text' | 'number' | 'currency' | 'date' | 'mixed' {
+function detectColumnType(
+  values: string[],
+  decimalSeparator: DecimalSeparator
+): ColumnType {
   const nonEmpty = values.filter((v) => v.trim());
   if (nonEmpty.length === 0) return 'text';
 
@@ -546,11 +1185,11 @@ function detectColumnType(values: string[]): 'text' | 'number' | 'currency' | 'd
   let dateCount = 0;
   let textCount = 0;
 
-  const currencyPattern = /^[₦$€£][\d,]+\.?\d*$|^[\d,]+\.?\d*\s*[₦$€£]?$|^=N=\s*[\d,]+\.?\d*$/i;
-
   nonEmpty.forEach((value) => {
+    const parsed = parseNumber(value, decimalSeparator);
+
     // Check for currency symbols or codes
-    if (currencyPattern.test(value) || /[₦$€£]|NGN|USD|EUR|GBP|=N=/i.test(value)) {
+    if (parsed?.currencySymbol || /[₦$€£]|NGN|USD|EUR|GBP|=N=/i.test(value)) {
       currencyCount++;
     } else if (
       /^\d{1,2}[\/\-]\w{3}[\/\-]\d{2,4}$/i.test(value) || // 24-Dec-2025
@@ -558,7 +1197,8 @@ function detectColumnType(values: string[]): 'text' | 'number' | 'currency' | 'd
       /^\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2}$/.test(value) // 2025-12-24
     ) {
       dateCount++;
-    } else if (/^-?[\d,]+\.?\d*%?$/.test(value.replace(/\s/g, ''))) {
+    } else if (parsed) {
+      // Plain amounts, including (1,000.00), 1.234,56 and 5,000.00 DR
       numberCount++;
     } else {
       textCount++;
@@ -575,16 +1215,22 @@ function detectColumnType(values: string[]): 'text' | 'number' | 'currency' | 'd
   return 'mixed';
 }
 
-function analyzeTableMetadata(rows: string[][], hasHeader: boolean): TableMetadata {
-  const dataRows = hasHeader ? rows.slice(1) : rows;
+function analyzeTableMetadata(
+  rows: string[][],
+  headerRowCount: number,
+  extractionMethod: ExtractionMethod = 'text-gap',
+  numberLocale: NumberLocale = 'auto'
+): TableMetadata {
+  const dataRows = rows.slice(headerRowCount);
   const numCols = Math.max(...rows.map((r) => r.length));
+  const decimalSeparator = resolveDecimalSeparator(numberLocale, dataRows.flat());
 
-  const columnTypes: ('text' | 'number' | 'currency' | 'date' | 'mixed')[] = [];
+  const columnTypes: ColumnType[] = [];
   const columnCurrencySymbols: (string | null)[] = [];
 
   for (let col = 0; col < numCols; col++) {
     const columnValues = dataRows.map((row) => row[col] || '');
-    const colType = detectColumnType(columnValues);
+    const colType = detectColumnType(columnValues, decimalSeparator);
     columnTypes.push(colType);
 
     if (colType === 'currency') {
@@ -595,16 +1241,19 @@ function analyzeTableMetadata(rows: string[][], hasHeader: boolean): TableMetada
   }
 
   return {
-    hasDetectedHeader: hasHeader,
+    hasDetectedHeader: headerRowCount > 0,
+    headerRowCount,
+    extractionMethod,
     columnTypes,
     columnCurrencySymbols,
+    decimalSeparator,
     totalRows: rows.length,
     totalCols: numCols,
   };
 }
 
 // Alternative extraction for documents without clear table structure
-function extractTablesAlternative(textItems: TextItem[]): EnhancedExtractedTable[] {
+function extractTablesAlternative(textItems: TextItem[], numberLocale: NumberLocale): EnhancedExtractedTable[] {
   const pageGroups = new Map<number, TextItem[]>();
   textItems.forEach((item) => {
     const items = pageGroups.get(item.page) || [];
@@ -630,24 +1279,29 @@ function extractTablesAlternative(textItems: TextItem[]): EnhancedExtractedTable
 
     if (tableRows.length >= MIN_TABLE_ROWS) {
       // Normalize column count
-      const maxCols = Math.max(...tableRows.map((r) => r.length));
-      const normalizedRows = tableRows.map((row) => {
-        while (row.length < maxCols) row.push('');
-        return row;
+      const maxCols = Math.max(...tableRows.map((r) => r.cells.length));
+      const normalizedRows = tableRows.map(({ cells }) => {
+        while (cells.length < maxCols) cells.push('');
+        return cells;
       });
 
-      const cleanedRows = dropEmptyColumns(normalizedRows);
+      // Remove columns that are completely empty across all rows
+      const keptColumns = getNonEmptyColumns(normalizedRows);
+      const cleanedRows = normalizedRows.map((row) => keptColumns.map((col) => row[col] || ''));
+      const cellSources = tableRows.map(({ sources }) => keptColumns.map((col) => sources[col] ?? []));
 
       if (cleanedRows.length > 0 && cleanedRows[0].length >= MIN_TABLE_COLS) {
-        const headerInfo = detectHeader(cleanedRows);
-        const metadata = analyzeTableMetadata(cleanedRows, headerInfo.isHeader);
+        const headerRowCount = detectHeaderRowCount(cleanedRows);
+        const metadata = analyzeTableMetadata(cleanedRows, headerRowCount, 'text-gap', numberLocale);
 
         tables.push({
           rows: cleanedRows,
           source: `Page ${pageNum}`,
           pageNumber: pageNum,
           metadata,
-          headerRow: headerInfo.isHeader ? cleanedRows[0] : null,
+          headerRow: headerRowCount > 0 ? cleanedRows[0] : null,
+          headerStructure: buildHeaderStructure(cleanedRows, headerRowCount, metadata.columnTypes),
+          cellSources,
         });
       }
     }
@@ -657,15 +1311,16 @@ function extractTablesAlternative(textItems: TextItem[]): EnhancedExtractedTable
 }
 
 /**
- * Split a row into columns based on gaps between items
+ * Split a row into columns based on gaps between items, keeping the boxes each column's text came from
  */
-function splitRowByGaps(items: TextItem[]): string[] {
-  if (items.length === 0) return [];
-  if (items.length === 1) return [items[0].str];
+function splitRowByGaps(items: TextItem[]): { cells: string[]; sources: SourceBox[][] } {
+  if (items.length === 0) return { cells: [], sources: [] };
 
   const sorted = [...items].sort((a, b) => a.x - b.x);
   const columns: string[] = [];
+  const sources: SourceBox[][] = [];
   let currentColumn = sorted[0].str;
+  let currentSources = [textItemBox(sorted[0])];
 
   for (let i = 1; i < sorted.length; i++) {
     const prevEnd = sorted[i - 1].x + sorted[i - 1].width;
@@ -675,13 +1330,17 @@ function splitRowByGaps(items: TextItem[]): string[] {
     if (gap >= MIN_COL_GAP) {
       // New column
       columns.push(currentColumn.trim());
+      sources.push(currentSources);
       currentColumn = sorted[i].str;
+      currentSources = [textItemBox(sorted[i])];
     } else {
       // Same column - append with space
       currentColumn += ' ' + sorted[i].str;
+      currentSources.push(textItemBox(sorted[i]));
     }
   }
 
   columns.push(currentColumn.trim());
-  return columns;
+  sources.push(currentSources);
+  return { cells: columns, sources };
 }
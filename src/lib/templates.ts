@@ -0,0 +1,211 @@
+import type { ColumnType, ConversionResult, ExtractionTemplate, PageRegion, TableLayout } from './types';
+
+const STORAGE_KEY = 'odusco-convert:extraction-templates';
+const EXPORT_FORMAT = 'odusco-convert/extraction-templates';
+const EXPORT_VERSION = 1;
+
+// Share of letterhead words a document must have in common with a template to be suggested
+const MATCH_THRESHOLD = 0.6;
+const MIN_FINGERPRINT_WORDS = 3;
+
+const COLUMN_TYPES: ColumnType[] = ['text', 'number', 'currency', 'date', 'mixed'];
+
+/**
+ * Reduce letterhead lines to the words that stay the same from one statement to the next.
+ * Anything containing a digit (dates, account numbers, balances) is left out.
+ */
+export function fingerprintLetterhead(letterhead: string[]): string[] {
+  const words = letterhead
+    .join(' ')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 3 && !/\d/.test(word));
+  return [...new Set(words)].sort();
+}
+
+/**
+ * The letterhead of a conversion: the lines above its first table that has any, or else the
+ * running header (a letterhead printed on every page is taken out before tables are read)
+ */
+export function getResultLetterhead(result: ConversionResult): string[] {
+  const letterhead = result.tables.find((table) => table.letterhead && table.letterhead.length > 0)?.letterhead;
+  if (letterhead) return letterhead;
+  return (result.runningHeader ?? []).map((line) => line.replace(/\{pages?\}/g, '').trim()).filter(Boolean);
+}
+
+// Jaccard similarity of two word sets
+function fingerprintSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setB = new Set(b);
+  const shared = a.filter((word) => setB.has(word)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+/**
+ * Find the saved template whose letterhead best matches this conversion, if any is close enough
+ */
+export function findMatchingTemplate(
+  result: ConversionResult,
+  templates: ExtractionTemplate[]
+): ExtractionTemplate | null {
+  const fingerprint = fingerprintLetterhead(getResultLetterhead(result));
+  if (fingerprint.length < MIN_FINGERPRINT_WORDS) return null;
+
+  let best: ExtractionTemplate | null = null;
+  let bestScore = MATCH_THRESHOLD;
+  templates.forEach((template) => {
+    const score = fingerprintSimilarity(fingerprint, template.fingerprint);
+    if (score >= bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Build a template from the regions of a finished conversion
+ */
+export function createTemplate(
+  name: string,
+  result: ConversionResult,
+  layout: TableLayout,
+  repeatLastPage: boolean
+): ExtractionTemplate {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    fingerprint: fingerprintLetterhead(getResultLetterhead(result)),
+    regions: result.tableRegions ?? [],
+    repeatLastPage,
+    layout,
+  };
+}
+
+/**
+ * The regions to read for a document with numPages pages. With repeatLastPage, the
+ * regions of the template's last page are copied onto every page after it.
+ * Regions outside the selected pages (or past the end of the document) are dropped.
+ */
+export function resolveTemplateRegions(template: ExtractionTemplate, numPages: number, pages?: number[]): PageRegion[] {
+  const regions = [...template.regions];
+
+  if (template.repeatLastPage && regions.length > 0) {
+    const lastPage = Math.max(...regions.map((region) => region.page));
+    const lastPageRegions = regions.filter((region) => region.page === lastPage);
+    for (let page = lastPage + 1; page <= numPages; page++) {
+      regions.push(...lastPageRegions.map((region) => ({ ...region, page })));
+    }
+  }
+
+  const selected = pages && pages.length > 0 ? new Set(pages) : null;
+  return regions.filter((region) => region.page <= numPages && (!selected || selected.has(region.page)));
+}
+
+/**
+ * Saved templates from browser storage (empty when storage is unavailable or unreadable)
+ */
+export function loadTemplates(): ExtractionTemplate[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseTemplateList(JSON.parse(stored)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Write the full template list to browser storage
+ */
+export function storeTemplates(templates: ExtractionTemplate[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+}
+
+/**
+ * Serialize templates for download, wrapped with a format marker so imports can be checked
+ */
+export function exportTemplates(templates: ExtractionTemplate[]): Blob {
+  const payload = { format: EXPORT_FORMAT, version: EXPORT_VERSION, templates };
+  return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Read templates from an exported JSON file. Throws an Error describing the first problem found.
+ */
+export function importTemplates(json: string): ExtractionTemplate[] {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  if (!isRecord(payload) || payload.format !== EXPORT_FORMAT) {
+    throw new Error('This file is not an exported template file');
+  }
+  if (typeof payload.version !== 'number' || payload.version > EXPORT_VERSION) {
+    throw new Error('These templates were exported by a newer version of the app');
+  }
+
+  const templates = parseTemplateList(payload.templates);
+  if (templates.length === 0) {
+    throw new Error('No valid templates found in this file');
+  }
+  return templates;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Storage and imported files can hold anything - keep only well-formed templates
+function parseTemplateList(value: unknown): ExtractionTemplate[] {
+  return Array.isArray(value) ? value.map(parseTemplate).filter((template) => template !== null) : [];
+}
+
+function parseTemplate(value: unknown): ExtractionTemplate | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+  if (!Array.isArray(value.regions) || !isRecord(value.layout)) return null;
+
+  const regions = value.regions.map(parseRegion);
+  if (regions.some((region) => region === null)) return null;
+
+  const { layout } = value;
+  return {
+    id: value.id,
+    name: value.name,
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : new Date(0).toISOString(),
+    fingerprint: Array.isArray(value.fingerprint)
+      ? value.fingerprint.filter((word): word is string => typeof word === 'string')
+      : [],
+    regions: regions as PageRegion[],
+    repeatLastPage: value.repeatLastPage === true,
+    layout: {
+      skipRows: isFiniteNumber(layout.skipRows) ? Math.max(0, Math.floor(layout.skipRows)) : 0,
+      columnNames: Array.isArray(layout.columnNames) ? layout.columnNames.map((name) => String(name ?? '')) : [],
+      columnTypes: Array.isArray(layout.columnTypes)
+        ? layout.columnTypes.map((type) => (COLUMN_TYPES.includes(type) ? (type as ColumnType) : null))
+        : [],
+    },
+  };
+}
+
+function parseRegion(value: unknown): PageRegion | null {
+  if (!isRecord(value)) return null;
+  const { page, left, top, right, bottom, columnSeparators } = value;
+  if (![page, left, top, right, bottom].every(isFiniteNumber) || !Array.isArray(columnSeparators)) return null;
+
+  return {
+    page: page as number,
+    left: left as number,
+    top: top as number,
+    right: right as number,
+    bottom: bottom as number,
+    columnSeparators: columnSeparators.filter(isFiniteNumber),
+  };
+}
@@ -1,3 +1,5 @@
+import type { NumberLocale } from './numberFormat';
+
 export interface TextItem {
   str: string;
   x: number;
@@ -7,6 +9,44 @@ export interface TextItem {
   page: number;
   fontName?: string;
   fontSize?: number;
+  confidence?: number; // OCR word confidence (0-100), only set for text recognised from scanned pages
+}
+
+// A horizontal or vertical line painted on the page (table borders, cell rules).
+// Uses the same top-left origin as TextItem.
+export interface RulingLine {
+  page: number;
+  orientation: 'horizontal' | 'vertical';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Where a piece of extracted text sits on its page, in PDF points with y measured from the top
+export interface SourceBox {
+  page: number;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Where a link annotation in the PDF points: a web or mail address, or a place in the document itself
+export interface LinkTarget {
+  url?: string;
+  page?: number; // Set for links within the document
+  y?: number; // Top of the target view, measured from the top of the page, when the link sets one
+}
+
+// A link annotation's clickable area on its page
+export interface PdfLink extends SourceBox {
+  target: LinkTarget;
+}
+
+// Part of an element's text that sits under a link annotation
+export interface TextLink extends LinkTarget {
+  text: string;
 }
 
 export interface DocumentElement {
@@ -22,11 +62,14 @@ export interface DocumentElement {
   fontName?: string;
   fontColor?: string;
   alignment?: 'left' | 'center' | 'right' | 'justify';
+  columns?: number; // Column count of the page layout the element sits in (omitted for full-width text)
   // For table elements
   tableData?: {
     rows: string[][];
     hasHeader?: boolean;
   };
+  sourceBoxes?: SourceBox[]; // Text items the element was read from
+  links?: TextLink[]; // Linked parts of content, in the order they appear
   // For image elements
   imageData?: {
     data: string; // base64 encoded
@@ -40,15 +83,62 @@ export interface DocumentStructure {
   title?: string;
   elements: DocumentElement[];
   pages: number;
+  // Running header and footer lines left out of the elements. {page} and {pages} mark page numbers.
+  header?: string[];
+  footer?: string[];
 }
 
 export interface ExtractedTable {
   rows: string[][];
   source: string;
   pageNumber: number;
+  pageNumbers?: number[]; // Every page a table spans when it continues across page breaks
   title?: string; // Table title if detected
   headers?: string[]; // Column headers
   letterhead?: string[]; // Letterhead/header content before the table (each string is one row)
+  cellSources?: SourceBox[][][]; // Text items each cell was read from, parallel to rows
+}
+
+// A table's area on a page in PDF points (y measured from the top of the page), plus the
+// x-positions where its columns start after the first. Shown and edited in the region editor.
+export interface PageRegion {
+  page: number;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  columnSeparators: number[];
+}
+
+export type ColumnType = 'text' | 'number' | 'currency' | 'date' | 'mixed';
+
+// Date layouts the app reads and writes; each is also a valid Excel number format
+export type DateFormat = 'dd/mm/yyyy' | 'mm/dd/yyyy' | 'yyyy-mm-dd' | 'dd-mmm-yyyy';
+
+// Formatting set by hand for one column in the preview. Unset fields keep what was detected.
+export interface ColumnFormat {
+  type?: ColumnType;
+  currencySymbol?: string;
+  dateFormat?: DateFormat;
+  decimals?: number; // Decimal places for number and currency columns
+}
+
+// How rows and columns read from a region are laid out as a table
+export interface TableLayout {
+  skipRows: number; // Leading rows dropped from each region (the PDF's own header lines)
+  columnNames: string[]; // Becomes the header row; none when empty
+  columnTypes: (ColumnType | null)[]; // null keeps the detected type
+}
+
+// A saved extraction setup for a recurring document layout (e.g. one bank's monthly statement)
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  fingerprint: string[]; // Letterhead words used to recognise matching documents
+  regions: PageRegion[];
+  repeatLastPage: boolean; // Reuse the regions of the template's last page on every later page
+  layout: TableLayout;
 }
 
 export interface ConversionResult {
@@ -56,10 +146,22 @@ export interface ConversionResult {
   textContent: { page: number; content: string }[];
   mode: 'tables' | 'text';
   documentStructure?: DocumentStructure;
+  tableRegions?: PageRegion[]; // Where tables were found, or the regions they were read from
+  links?: PdfLink[]; // Link annotations on the extracted pages, matched to cells through cellSources
+  runningHeader?: string[]; // Header lines repeated on every page, left out of the tables. {page} marks page numbers.
 }
 
 export type ConversionMode = 'auto' | 'tables' | 'text';
-export type OutputFormat = 'excel' | 'doc';
+export type OutputFormat = 'excel' | 'doc' | 'csv' | 'tsv' | 'json';
+
+// Per-file options passed to the conversion hooks
+export interface ConvertFileOptions {
+  password?: string;
+  pages?: number[]; // Chosen in the page selector; every page when omitted
+  regions?: PageRegion[]; // Drawn in the region editor; replaces table detection when set
+  template?: ExtractionTemplate; // Saved template applied in place of table detection
+  numberLocale?: NumberLocale; // How amounts are written; detected per table when omitted
+}
 
 export type ConversionStatus =
   | 'idle'
@@ -68,6 +170,7 @@ export type ConversionStatus =
   | 'extracting'
   | 'generating'
   | 'complete'
+  | 'password-required'
   | 'error';
 
 export interface ConversionState {
@@ -78,4 +181,5 @@ export interface ConversionState {
   error: string | null;
   fileName: string | null;
   outputFormat: OutputFormat;
+  passwordIncorrect?: boolean; // Set with 'password-required' when the last attempt used the wrong password
 }
@@ -0,0 +1,41 @@
+import type { ConvertOptions } from './converter';
+import type { ExtractOptions } from './pdfParser';
+import type { ConversionResult, ConversionStatus, DocumentStructure, ExtractedTable } from './types';
+
+/**
+ * Messages exchanged with workers/conversion.worker.ts. Every message carries the
+ * id of the job it belongs to, so a late message from a cancelled job is ignored.
+ */
+
+export type ConversionJob =
+  | { kind: 'convert'; options: ConvertOptions }
+  | { kind: 'document-structure'; options: ExtractOptions };
+
+export interface WorkerRequest {
+  id: number;
+  job: ConversionJob;
+  arrayBuffer: ArrayBuffer; // Transferred - the sender's copy is detached
+}
+
+// Intermediate results, posted as soon as each stage finishes
+export type PartialResult =
+  | { stage: 'tables'; tables: ExtractedTable[] }
+  | { stage: 'document-structure'; documentStructure: DocumentStructure };
+
+export type JobResult =
+  | { kind: 'convert'; result: ConversionResult }
+  | { kind: 'document-structure'; documentStructure: DocumentStructure };
+
+// Errors are flattened to plain data - class instances don't survive structured cloning
+export interface SerializedError {
+  name: string;
+  message: string;
+  passwordReason?: 'required' | 'incorrect'; // Set when name is PdfPasswordError
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: number; step: string }
+  | { id: number; type: 'status'; status: Extract<ConversionStatus, 'parsing' | 'extracting'> }
+  | { id: number; type: 'partial'; partial: PartialResult }
+  | { id: number; type: 'result'; result: JobResult }
+  | { id: number; type: 'error'; error: SerializedError };
@@ -0,0 +1,115 @@
+import type { SourceBox } from './types';
+
+// Wrapped cell detection constants
+const WRAPPED_LINE_SPACING = 1.6; // Lines of one wrapped cell sit within ~1.6 line heights of each other
+const KEY_COLUMN_INDENT = 10; // A line starting this far right of the table's left edge leaves the key column empty
+const COLUMN_START_TOLERANCE = 10; // Text this far left of a column start still belongs to it
+const NUMERIC_CELL_PATTERN = /^[\s$€£¥₦%()+\-.,\d]*\d[\s$€£¥₦%()+\-.,\d]*$/;
+
+/**
+ * A table line after its text has been assigned to columns.
+ * y is the baseline measured from the top of the page.
+ */
+export interface LaidOutRow {
+  y: number;
+  lineHeight: number;
+  cells: string[];
+  sources?: SourceBox[][]; // Boxes of the text in each cell
+}
+
+/**
+ * Check whether a line follows the previous one at wrapped-text spacing
+ * rather than at the (usually looser) spacing between table rows
+ */
+export function isTightlySpaced(previousY: number, y: number, lineHeight: number): boolean {
+  const gap = y - previousY;
+  return gap > 0 && gap <= Math.max(lineHeight, 1) * WRAPPED_LINE_SPACING;
+}
+
+/**
+ * Check whether a line that doesn't look like a table row on its own could be
+ * the wrapped continuation of the row above it: tightly spaced, and starting inside
+ * one of the table's later columns so the key column stays empty. An indented note
+ * or footnote under the table starts in the first column, or outside the table.
+ * Used by region detection so wrapped lines don't split a table in two.
+ */
+export function couldBeWrappedLine(
+  line: { y: number; minX: number; lineHeight: number },
+  previous: { y: number; lineHeight: number },
+  columnStarts: number[],
+  tableRight: number
+): boolean {
+  const inLaterColumn = columnStarts.some(
+    (start, i) => i > 0 && line.minX >= start - COLUMN_START_TOLERANCE && line.minX < (columnStarts[i + 1] ?? tableRight)
+  );
+
+  return (
+    inLaterColumn &&
+    line.minX > columnStarts[0] + KEY_COLUMN_INDENT &&
+    isTightlySpaced(previous.y, line.y, Math.max(line.lineHeight, previous.lineHeight))
+  );
+}
+
+/**
+ * Fold wrapped continuation lines into the logical row they belong to.
+ * A description that wraps onto two or three lines otherwise shows up as
+ * extra rows with only that one column filled.
+ */
+export function mergeWrappedRows(rows: LaidOutRow[]): string[][] {
+  return mergeWrappedRowsWithSources(rows).rows;
+}
+
+/**
+ * mergeWrappedRows, also folding each cell's source boxes into the row it joins
+ */
+export function mergeWrappedRowsWithSources(rows: LaidOutRow[]): { rows: string[][]; sources: SourceBox[][][] } {
+  const merged: string[][] = [];
+  const mergedSources: SourceBox[][][] = [];
+  let anchor: string[] | null = null;
+  let anchorSources: SourceBox[][] = [];
+  let previous: LaidOutRow | null = null;
+
+  rows.forEach((row) => {
+    const rowSources = row.cells.map((_, col) => row.sources?.[col] ?? []);
+    if (anchor && previous && isContinuationRow(row, previous, anchor)) {
+      const target = anchor;
+      const targetSources = anchorSources;
+      row.cells.forEach((cell, col) => {
+        const text = cell.trim();
+        if (!text) return;
+        target[col] = target[col] ? `${target[col]} ${text}` : text;
+        targetSources[col] = [...(targetSources[col] ?? []), ...rowSources[col]];
+      });
+    } else {
+      anchor = [...row.cells];
+      anchorSources = rowSources;
+      merged.push(anchor);
+      mergedSources.push(anchorSources);
+    }
+    previous = row;
+  });
+
+  return { rows: merged, sources: mergedSources };
+}
+
+function isContinuationRow(row: LaidOutRow, previous: LaidOutRow, anchor: string[]): boolean {
+  const filledColumns = row.cells
+    .map((cell, col) => (cell.trim() ? col : -1))
+    .filter((col) => col >= 0);
+  if (filledColumns.length === 0) return false;
+
+  // Every real row has its key (first) column filled - wrapped lines don't
+  if ((row.cells[0] || '').trim()) return false;
+
+  if (!isTightlySpaced(previous.y, row.y, Math.max(previous.lineHeight, row.lineHeight))) {
+    return false;
+  }
+
+  // Wrapped text stays within columns the row already has text in, and fills fewer of them
+  const anchorFilledCount = anchor.filter((cell) => cell.trim()).length;
+  if (filledColumns.length >= anchorFilledCount) return false;
+  if (!filledColumns.every((col) => (anchor[col] || '').trim())) return false;
+
+  // A lone number under a row is more likely a subtotal than wrapped text
+  return !filledColumns.some((col) => NUMERIC_CELL_PATTERN.test(row.cells[col].trim()));
+}
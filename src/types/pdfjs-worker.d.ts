@@ -0,0 +1,5 @@
+// pdfjs-dist ships no typings for its worker bundle. Importing it registers the
+// worker code on globalThis.pdfjsWorker so pdf.js can run it in the current thread.
+declare module 'pdfjs-dist/build/pdf.worker.min.mjs' {
+  export const WorkerMessageHandler: unknown;
+}
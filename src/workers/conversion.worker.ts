@@ -0,0 +1,47 @@
+import { convertPdf } from '@/lib/converter';
+import { extractDocumentStructure, PdfPasswordError } from '@/lib/pdfParser';
+import type { WorkerRequest, WorkerResponse, SerializedError } from '@/lib/workerProtocol';
+
+// The project compiles against the DOM lib, so describe just the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+};
+
+function serializeError(error: unknown): SerializedError {
+  if (error instanceof PdfPasswordError) {
+    return { name: error.name, message: error.message, passwordReason: error.reason };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: 'Error', message: 'An unexpected error occurred' };
+}
+
+async function runJob({ id, job, arrayBuffer }: WorkerRequest) {
+  const post = (message: WorkerResponse) => scope.postMessage(message);
+  const onProgress = (progress: number, step: string) => post({ id, type: 'progress', progress, step });
+
+  try {
+    if (job.kind === 'convert') {
+      const result = await convertPdf(
+        arrayBuffer,
+        job.options,
+        onProgress,
+        (status) => post({ id, type: 'status', status }),
+        (partial) => post({ id, type: 'partial', partial })
+      );
+      post({ id, type: 'result', result: { kind: 'convert', result } });
+    } else {
+      post({ id, type: 'status', status: 'parsing' });
+      const documentStructure = await extractDocumentStructure(arrayBuffer, onProgress, job.options);
+      post({ id, type: 'result', result: { kind: 'document-structure', documentStructure } });
+    }
+  } catch (error) {
+    post({ id, type: 'error', error: serializeError(error) });
+  }
+}
+
+scope.onmessage = (event) => {
+  runJob(event.data);
+};